@@ -1,19 +1,29 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { AuthProvider } from './src/contexts/AuthContext';
+import { NotificationProvider } from './src/contexts/NotificationContext';
 import { AppNavigator } from './src/navigation/AppNavigator';
 import { ThemeProvider } from 'styled-components/native';
 import theme from './src/styles/theme';
 import { StatusBar } from 'react-native';
+import { reminderService } from './src/services/reminders';
+import { waitlistService } from './src/services/waitlist';
 
 export default function App() {
+  // Lembretes de consulta são verificados ao abrir o app e ao voltar para ele
+  useEffect(() => reminderService.start(), []);
+  // Ofertas vencidas da lista de espera passam ao próximo paciente nos mesmos momentos
+  useEffect(() => waitlistService.start(), []);
+
   return (
     <ThemeProvider theme={theme}>
       <AuthProvider>
-        <StatusBar 
-          barStyle="light-content" 
-          backgroundColor={theme.colors.primary} 
-        />
-        <AppNavigator />
+        <NotificationProvider>
+          <StatusBar 
+            barStyle="light-content" 
+            backgroundColor={theme.colors.primary} 
+          />
+          <AppNavigator />
+        </NotificationProvider>
       </AuthProvider>
     </ThemeProvider>
   );
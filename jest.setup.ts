@@ -0,0 +1,21 @@
+// O AsyncStorage nativo não existe nos testes; o pacote traz uma versão em memória
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// O expo-crypto depende do módulo nativo; nos testes os mesmos algoritmos vêm do crypto do Node
+jest.mock('expo-crypto', () => {
+  const { createHash, randomBytes, randomUUID } = require('crypto');
+
+  return {
+    CryptoDigestAlgorithm: { SHA256: 'SHA-256' },
+    digest: async (_algorithm: string, data: Uint8Array) => {
+      const hash: Buffer = createHash('sha256').update(data).digest();
+      return hash.buffer.slice(hash.byteOffset, hash.byteOffset + hash.byteLength);
+    },
+    digestStringAsync: async (_algorithm: string, data: string) =>
+      createHash('sha256').update(data).digest('hex'),
+    getRandomBytes: (byteCount: number) => new Uint8Array(randomBytes(byteCount)),
+    randomUUID: () => randomUUID(),
+  };
+});
@@ -1,19 +1,45 @@
 import React from 'react';
 import styled from 'styled-components/native';
-import { Modal, ViewStyle } from 'react-native';
+import { Modal, ScrollView, ViewStyle } from 'react-native';
 import { Button, Input } from 'react-native-elements';
 import theme from '../styles/theme';
+import TimeSlotList from './TimeSlotList';
+import CalendarPicker from './CalendarPicker';
+import { scheduleService } from '../services/schedules';
+import { blockedPeriodService } from '../services/blockedPeriods';
+import { appointmentService, BOOKING_HORIZON_MONTHS } from '../services/appointments';
+import { BlockedPeriod, DoctorSchedule } from '../types/schedules';
+import { SeriesScope } from '../types/appointments';
+import { addMonths, todayISO } from '../utils/date';
+import { formatClinicDateTime } from '../utils/timezone';
+
+export type AppointmentActionType = 'confirm' | 'cancel' | 'reschedule';
+
+const SCOPE_OPTIONS: { value: SeriesScope; label: string }[] = [
+  { value: 'single', label: 'Só esta consulta' },
+  { value: 'future', label: 'Esta e as seguintes' },
+];
+
+export interface RescheduleSelection {
+  date: string;
+  time: string;
+}
 
 interface AppointmentActionModalProps {
   visible: boolean;
   onClose: () => void;
-  onConfirm: (reason?: string) => void;
-  actionType: 'confirm' | 'cancel';
+  onConfirm: (reason?: string, newSlot?: RescheduleSelection, scope?: SeriesScope) => void;
+  actionType: AppointmentActionType;
+  // Consulta de uma série recorrente: permite aplicar a ação também às seguintes
+  isSeriesOccurrence?: boolean;
   appointmentDetails: {
+    doctorId: string;
     patientName: string;
     doctorName: string;
     date: string;
     time: string;
+    startsAt?: string;
+    timeZone?: string;
     specialty: string;
   };
 }
@@ -23,22 +49,100 @@ const AppointmentActionModal: React.FC<AppointmentActionModalProps> = ({
   onClose,
   onConfirm,
   actionType,
+  isSeriesOccurrence,
   appointmentDetails,
 }) => {
   const [reason, setReason] = React.useState('');
+  const [newDate, setNewDate] = React.useState<string | null>(null);
+  const [newTime, setNewTime] = React.useState('');
+  const [timeSlots, setTimeSlots] = React.useState<string[]>([]);
+  const [bookedTimes, setBookedTimes] = React.useState<string[]>([]);
+  const [schedule, setSchedule] = React.useState<DoctorSchedule | null>(null);
+  const [blockedPeriods, setBlockedPeriods] = React.useState<BlockedPeriod[]>([]);
+  const [scope, setScope] = React.useState<SeriesScope>('single');
 
-  const handleConfirm = () => {
-    onConfirm(reason.trim() || undefined);
+  const isCancel = actionType === 'cancel';
+  const isReschedule = actionType === 'reschedule';
+  const today = todayISO();
+
+  // Carrega a agenda semanal e os bloqueios do médico para montar o calendário
+  React.useEffect(() => {
+    if (!visible || !isReschedule) return;
+
+    Promise.all([
+      scheduleService.getSchedule(appointmentDetails.doctorId),
+      blockedPeriodService.getBlockedPeriodsForDoctor(appointmentDetails.doctorId),
+    ])
+      .then(([doctorSchedule, periods]) => {
+        setSchedule(doctorSchedule);
+        setBlockedPeriods(periods);
+      })
+      .catch((error) => console.error('Erro ao carregar agenda do médico:', error));
+  }, [visible, isReschedule, appointmentDetails.doctorId]);
+
+  const isDateDisabled = (date: string) => {
+    return !schedule || !scheduleService.isDayAvailable(schedule, blockedPeriods, date);
+  };
+
+  // Carrega os horários livres do médico para a nova data
+  React.useEffect(() => {
+    if (!isReschedule || !newDate) {
+      setTimeSlots([]);
+      setBookedTimes([]);
+      return;
+    }
+
+    Promise.all([
+      scheduleService.getTimeSlots(appointmentDetails.doctorId, newDate),
+      appointmentService.getBookedTimes(appointmentDetails.doctorId, newDate),
+    ])
+      .then(([slots, times]) => {
+        setTimeSlots(slots);
+        setBookedTimes(times);
+        setNewTime('');
+      })
+      .catch((error) => console.error('Erro ao carregar horários disponíveis:', error));
+  }, [isReschedule, newDate, appointmentDetails.doctorId]);
+
+  const resetState = () => {
     setReason('');
+    setNewDate(null);
+    setNewTime('');
+    setScope('single');
+  };
+
+  const handleConfirm = () => {
+    onConfirm(
+      reason.trim() || undefined,
+      isReschedule && newDate ? { date: newDate, time: newTime } : undefined,
+      scope
+    );
+    resetState();
     onClose();
   };
 
   const handleClose = () => {
-    setReason('');
+    resetState();
     onClose();
   };
 
-  const isCancel = actionType === 'cancel';
+  const getTitle = () => {
+    if (isCancel) return 'Cancelar Consulta';
+    if (isReschedule) return 'Remarcar Consulta';
+    return 'Confirmar Consulta';
+  };
+
+  const getConfirmationText = () => {
+    if (isCancel) return 'Tem certeza que deseja cancelar esta consulta?';
+    if (isReschedule) return 'Escolha a nova data e o novo horário da consulta.';
+    return 'Tem certeza que deseja confirmar esta consulta?';
+  };
+
+  const getActionColor = () => {
+    if (isCancel) return theme.colors.error;
+    if (isReschedule) return theme.colors.primary;
+    return theme.colors.success;
+  };
 
   return (
     <Modal
@@ -50,12 +154,10 @@ const AppointmentActionModal: React.FC<AppointmentActionModalProps> = ({
       <Overlay>
         <ModalContainer>
           <Header>
-            <Title>
-              {isCancel ? 'Cancelar Consulta' : 'Confirmar Consulta'}
-            </Title>
+            <Title>{getTitle()}</Title>
           </Header>
 
-          <Content>
+          <ScrollView contentContainerStyle={styles.content}>
             <AppointmentInfo>
               <InfoRow>
                 <InfoLabel>Paciente:</InfoLabel>
@@ -71,14 +173,56 @@ const AppointmentActionModal: React.FC<AppointmentActionModalProps> = ({
               </InfoRow>
               <InfoRow>
                 <InfoLabel>Data/Hora:</InfoLabel>
-                <InfoValue>{appointmentDetails.date} às {appointmentDetails.time}</InfoValue>
+                <InfoValue>{formatClinicDateTime(appointmentDetails)}</InfoValue>
               </InfoRow>
             </AppointmentInfo>
 
-            {isCancel && (
+            {isReschedule && (
+              <>
+                <SectionLabel>Nova data</SectionLabel>
+                <CalendarPicker
+                  value={newDate}
+                  onChange={setNewDate}
+                  minDate={today}
+                  maxDate={addMonths(today, BOOKING_HORIZON_MONTHS)}
+                  isDateDisabled={isDateDisabled}
+                />
+                {newDate && (
+                  <TimeSlotList
+                    timeSlots={timeSlots}
+                    onSelectTime={setNewTime}
+                    selectedTime={newTime}
+                    unavailableTimes={bookedTimes}
+                    date={newDate}
+                    timeZone={appointmentDetails.timeZone}
+                  />
+                )}
+              </>
+            )}
+
+            {isSeriesOccurrence && (isCancel || isReschedule) && (
+              <>
+                <SectionLabel>Aplicar a</SectionLabel>
+                <ScopeOptions>
+                  {SCOPE_OPTIONS.map((option) => {
+                    const selected = scope === option.value;
+                    return (
+                      <ScopeOption key={option.value} selected={selected} onPress={() => setScope(option.value)}>
+                        <ScopeOptionText selected={selected}>{option.label}</ScopeOptionText>
+                      </ScopeOption>
+                    );
+                  })}
+                </ScopeOptions>
+                {isReschedule && scope === 'future' && (
+                  <ScopeHint>As consultas seguintes mudam com o mesmo intervalo de dias e o novo horário.</ScopeHint>
+                )}
+              </>
+            )}
+
+            {(isCancel || isReschedule) && (
               <ReasonContainer>
                 <Input
-                  label="Motivo do cancelamento (opcional)"
+                  label={isCancel ? 'Motivo do cancelamento (opcional)' : 'Motivo da remarcação (opcional)'}
                   placeholder="Digite o motivo..."
                   value={reason}
                   onChangeText={setReason}
@@ -89,13 +233,10 @@ const AppointmentActionModal: React.FC<AppointmentActionModalProps> = ({
               </ReasonContainer>
             )}
 
-            <ConfirmationText isCancel={isCancel}>
-              {isCancel 
-                ? 'Tem certeza que deseja cancelar esta consulta?'
-                : 'Tem certeza que deseja confirmar esta consulta?'
-              }
+            <ConfirmationText color={getActionColor()}>
+              {getConfirmationText()}
             </ConfirmationText>
-          </Content>
+          </ScrollView>
 
           <ButtonContainer>
             <Button
@@ -105,12 +246,13 @@ const AppointmentActionModal: React.FC<AppointmentActionModalProps> = ({
               buttonStyle={styles.cancelButtonStyle}
             />
             <Button
-              title={isCancel ? 'Confirmar Cancelamento' : 'Confirmar'}
+              title={isCancel ? 'Confirmar Cancelamento' : isReschedule ? 'Remarcar' : 'Confirmar'}
               onPress={handleConfirm}
+              disabled={isReschedule && (!newDate || !newTime)}
               containerStyle={styles.confirmButton as ViewStyle}
               buttonStyle={[
                 styles.confirmButtonStyle,
-                { backgroundColor: isCancel ? theme.colors.error : theme.colors.success }
+                { backgroundColor: getActionColor() }
               ]}
             />
           </ButtonContainer>
@@ -121,6 +263,9 @@ const AppointmentActionModal: React.FC<AppointmentActionModalProps> = ({
 };
 
 const styles = {
+  content: {
+    padding: 20,
+  },
   reasonInput: {
     marginBottom: 10,
   },
@@ -154,6 +299,7 @@ const ModalContainer = styled.View`
   border-radius: 12px;
   width: 100%;
   max-width: 400px;
+  max-height: 90%;
   shadow-color: ${theme.colors.text};
   shadow-offset: 0px 4px;
   shadow-opacity: 0.25;
@@ -174,10 +320,6 @@ const Title = styled.Text`
   text-align: center;
 `;
 
-const Content = styled.View`
-  padding: 20px;
-`;
-
 const AppointmentInfo = styled.View`
   background-color: ${theme.colors.background};
   border-radius: 8px;
@@ -205,13 +347,48 @@ const InfoValue = styled.Text`
   text-align: right;
 `;
 
+const SectionLabel = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 8px;
+`;
+
+const ScopeOptions = styled.View`
+  flex-direction: row;
+  margin-bottom: 8px;
+`;
+
+const ScopeOption = styled.TouchableOpacity<{ selected: boolean }>`
+  flex: 1;
+  padding: 8px;
+  margin-right: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+  align-items: center;
+`;
+
+const ScopeOptionText = styled.Text<{ selected: boolean }>`
+  font-size: 14px;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const ScopeHint = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  margin-bottom: 12px;
+`;
+
 const ReasonContainer = styled.View`
   margin-bottom: 16px;
 `;
 
-const ConfirmationText = styled.Text<{ isCancel: boolean }>`
+const ConfirmationText = styled.Text<{ color: string }>`
   font-size: 16px;
-  color: ${(props: { isCancel: boolean }) => props.isCancel ? theme.colors.error : theme.colors.success};
+  color: ${(props: { color: string }) => props.color};
   text-align: center;
   margin-bottom: 20px;
   font-weight: 500;
@@ -3,13 +3,16 @@ import styled from 'styled-components/native';
 import { ViewStyle } from 'react-native';
 import { Card, Text, Avatar } from 'react-native-elements';
 import theme from '../styles/theme';
+import { AppointmentStatus } from '../types/appointments';
+import { getStatusColor, getStatusText } from '../utils/appointmentStatus';
+import { formatDate } from '../utils/date';
 
 interface AppointmentCardProps {
   doctorName: string;
   date: string;
   time: string;
   specialty: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
+  status: AppointmentStatus;
   onPress?: () => void;
   style?: ViewStyle;
 }
@@ -23,17 +26,6 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
   onPress,
   style,
 }) => {
-  const getStatusColor = () => {
-    switch (status) {
-      case 'confirmed':
-        return theme.colors.success;
-      case 'cancelled':
-        return theme.colors.error;
-      default:
-        return theme.colors.primary;
-    }
-  };
-
   return (
     <Card containerStyle={[styles.card, style]}>
       <CardContent>
@@ -53,7 +45,7 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
         <AppointmentInfo>
           <InfoRow>
             <InfoLabel>Data:</InfoLabel>
-            <InfoValue>{date}</InfoValue>
+            <InfoValue>{formatDate(date)}</InfoValue>
           </InfoRow>
           <InfoRow>
             <InfoLabel>Horário:</InfoLabel>
@@ -62,9 +54,9 @@ const AppointmentCard: React.FC<AppointmentCardProps> = ({
         </AppointmentInfo>
 
         <StatusContainer>
-          <StatusDot color={getStatusColor()} />
-          <StatusText color={getStatusColor()}>
-            {status === 'confirmed' ? 'Confirmada' : status === 'cancelled' ? 'Cancelada' : 'Pendente'}
+          <StatusDot color={getStatusColor(status)} />
+          <StatusText color={getStatusColor(status)}>
+            {getStatusText(status)}
           </StatusText>
         </StatusContainer>
       </CardContent>
@@ -1,31 +1,19 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components/native';
 import { Button, Input, Text } from 'react-native-elements';
 import { Platform, View, TouchableOpacity } from 'react-native';
 import theme from '../styles/theme';
 import { Doctor } from '../types/doctors';
 import { Appointment } from '../types/appointments';
-
-const doctors: Doctor[] = [
-   {
-      id: '1',
-      name: 'Dr. João Silva',
-      specialty: 'Cardiologista',
-      image: 'https://mighty.tools/mockmind-api/content/human/91.jpg',
-   },
-   {
-      id: '2',
-      name: 'Dra. Maria Santos',
-      specialty: 'Dermatologista',
-      image: 'https://mighty.tools/mockmind-api/content/human/97.jpg',
-   },
-   {
-      id: '3',
-      name: 'Dr. Pedro Oliveira',
-      specialty: 'Oftalmologista',
-      image: 'https://mighty.tools/mockmind-api/content/human/79.jpg',
-   },
-];
+import { appointmentService, BOOKING_HORIZON_MONTHS } from '../services/appointments';
+import { scheduleService } from '../services/schedules';
+import { doctorService } from '../services/doctors';
+import { specialtyService, getSpecialtyName } from '../services/specialties';
+import { blockedPeriodService } from '../services/blockedPeriods';
+import { Specialty } from '../types/specialties';
+import { BlockedPeriod, DoctorSchedule } from '../types/schedules';
+import { addMonths, parseISODate, todayISO } from '../utils/date';
+import CalendarPicker from './CalendarPicker';
 
 type AppointmentFormProps = {
    onSubmit: (appointment: {
@@ -36,53 +24,21 @@ type AppointmentFormProps = {
    }) => void;
 };
 
-const generateTimeSlots = () => {
-   const slots = [];
-   for (let hour = 9; hour < 18; hour++) {
-      slots.push(`${hour.toString().padStart(2, '0')}:00`);
-      slots.push(`${hour.toString().padStart(2, '0')}:30`);
-   }
-   return slots;
-};
-
 const AppointmentForm: React.FC<AppointmentFormProps> = ({ onSubmit }) => {
+   const [doctors, setDoctors] = useState<Doctor[]>([]);
+   const [catalog, setCatalog] = useState<Specialty[]>([]);
    const [selectedDoctor, setSelectedDoctor] = useState<string>('');
-   const [dateInput, setDateInput] = useState('');
+   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+   const [schedule, setSchedule] = useState<DoctorSchedule | null>(null);
+   const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
    const [selectedTime, setSelectedTime] = useState<string>('');
    const [description, setDescription] = useState('');
-   const timeSlots = generateTimeSlots();
-
-   const validateDate = (inputDate: string) => {
-      const dateRegex = /^(\d{2})\/(\d{2})\/(\d{4})$/;
-      const match = inputDate.match(dateRegex);
-
-      if (!match) return false;
-
-      const [, day, month, year] = match;
-      const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-      const today = new Date();
-      const maxDate = new Date(new Date().setMonth(new Date().getMonth() + 3));
-
-      return date >= today && date <= maxDate;
-   };
-
-   const handleDateChange = (text: string) => {
-      // Remove todos os caracteres não numéricos
-      const numbers = text.replace(/\D/g, '');
-      
-      // Formata a data enquanto digita
-      let formattedDate = '';
-      if (numbers.length > 0) {
-         if (numbers.length <= 2) {
-            formattedDate = numbers;
-         } else if (numbers.length <= 4) {
-            formattedDate = `${numbers.slice(0, 2)}/${numbers.slice(2)}`;
-         } else {
-            formattedDate = `${numbers.slice(0, 2)}/${numbers.slice(2, 4)}/${numbers.slice(4, 8)}`;
-         }
-      }
+   const [timeSlots, setTimeSlots] = useState<string[]>([]);
+   const [bookedTimes, setBookedTimes] = useState<string[]>([]);
 
-      setDateInput(formattedDate);
+   // Dias sem expediente ou bloqueados do médico escolhido ficam indisponíveis no calendário
+   const isDateDisabled = (date: string) => {
+      return !schedule || !scheduleService.isDayAvailable(schedule, blockedPeriods, date);
    };
 
    const handleSubmit = () => {
@@ -91,14 +47,12 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({ onSubmit }) => {
          return;
       }
 
-      if (!validateDate(dateInput)) {
-         alert('Por favor, insira uma data válida (DD/MM/AAAA)');
+      const date = selectedDate ? parseISODate(selectedDate) : null;
+      if (!date) {
+         alert('Por favor, selecione uma data no calendário');
          return;
       }
 
-      const [day, month, year] = dateInput.split('/');
-      const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-
       onSubmit({
          doctorId: selectedDoctor,
          date,
@@ -107,10 +61,60 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({ onSubmit }) => {
       });
    };
 
+   useEffect(() => {
+      Promise.all([doctorService.getDoctors(), specialtyService.getSpecialties()])
+         .then(([loadedDoctors, specialties]) => {
+            setDoctors(loadedDoctors);
+            setCatalog(specialties);
+         })
+         .catch((error) => console.error('Erro ao carregar médicos:', error));
+   }, []);
+
+   // Carrega a agenda semanal e os bloqueios do médico para montar o calendário
+   useEffect(() => {
+      setSelectedDate(null);
+      if (!selectedDoctor) {
+         setSchedule(null);
+         setBlockedPeriods([]);
+         return;
+      }
+
+      Promise.all([
+         scheduleService.getSchedule(selectedDoctor),
+         blockedPeriodService.getBlockedPeriodsForDoctor(selectedDoctor),
+      ])
+         .then(([doctorSchedule, periods]) => {
+            setSchedule(doctorSchedule);
+            setBlockedPeriods(periods);
+         })
+         .catch((error) => console.error('Erro ao carregar agenda do médico:', error));
+   }, [selectedDoctor]);
+
+   // Recarrega os horários ocupados sempre que o médico ou a data mudam
+   useEffect(() => {
+      if (!selectedDoctor || !selectedDate) {
+         setTimeSlots([]);
+         setBookedTimes([]);
+         return;
+      }
+
+      Promise.all([
+         scheduleService.getTimeSlots(selectedDoctor, selectedDate),
+         appointmentService.getBookedTimes(selectedDoctor, selectedDate),
+      ])
+         .then(([slots, times]) => {
+            setTimeSlots(slots);
+            setBookedTimes(times);
+            if (!slots.includes(selectedTime) || times.includes(selectedTime)) {
+               setSelectedTime('');
+            }
+         })
+         .catch((error) => console.error('Erro ao carregar horários disponíveis:', error));
+   }, [selectedDoctor, selectedDate]);
+
    const isTimeSlotAvailable = (time: string) => {
-      // Aqui você pode adicionar lógica para verificar se o horário está disponível
-      // Por exemplo, verificar se já existe uma consulta agendada para este horário
-      return true;
+      // Um horário está disponível se não houver consulta pendente ou confirmada nele
+      return !bookedTimes.includes(time);
    };
 
    return (
@@ -126,21 +130,19 @@ const AppointmentForm: React.FC<AppointmentFormProps> = ({ onSubmit }) => {
                   <DoctorImage source={{ uri: doctor.image }} />
                   <DoctorInfo>
                      <DoctorName>{doctor.name}</DoctorName>
-                     <DoctorSpecialty>{doctor.specialty}</DoctorSpecialty>
+                     <DoctorSpecialty>{getSpecialtyName(catalog, doctor.specialty)}</DoctorSpecialty>
                   </DoctorInfo>
                </DoctorCard>
             ))}
          </DoctorList>
 
          <Title>Data e Hora</Title>
-         <Input
-            placeholder="Data (DD/MM/AAAA)"
-            value={dateInput}
-            onChangeText={handleDateChange}
-            keyboardType="numeric"
-            maxLength={10}
-            containerStyle={InputContainer}
-            errorMessage={dateInput && !validateDate(dateInput) ? 'Data inválida' : undefined}
+         <CalendarPicker
+            value={selectedDate}
+            onChange={setSelectedDate}
+            minDate={todayISO()}
+            maxDate={addMonths(todayISO(), BOOKING_HORIZON_MONTHS)}
+            isDateDisabled={isDateDisabled}
          />
 
          <TimeSlotsContainer>
@@ -0,0 +1,284 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input } from 'react-native-elements';
+import theme from '../styles/theme';
+import { blockedPeriodService } from '../services/blockedPeriods';
+import { useAuth } from '../contexts/AuthContext';
+import { BlockedPeriod } from '../types/schedules';
+import { formatDate, parseDisplayDate } from '../utils/date';
+
+interface BlockedPeriodsModalProps {
+  visible: boolean;
+  // Sem médico, o modal gerencia os feriados da clínica
+  doctorId?: string;
+  onClose: () => void;
+}
+
+const BlockedPeriodsModal: React.FC<BlockedPeriodsModalProps> = ({
+  visible,
+  doctorId,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [periods, setPeriods] = useState<BlockedPeriod[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isClinicWide = !doctorId;
+
+  const loadPeriods = async () => {
+    const allPeriods = await blockedPeriodService.getBlockedPeriods();
+    setPeriods(allPeriods.filter(p => (isClinicWide ? !p.doctorId : p.doctorId === doctorId)));
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadPeriods();
+    }
+  }, [visible, doctorId]);
+
+  const resetForm = () => {
+    setStartDate('');
+    setEndDate('');
+    setReason('');
+  };
+
+  const handleAdd = async () => {
+    if (!user) return;
+
+    // As datas são digitadas em DD/MM/AAAA e gravadas em ISO; o serviço recusa datas inválidas
+    const start = parseDisplayDate(startDate) || '';
+    const end = endDate.trim() ? parseDisplayDate(endDate) || '' : start;
+
+    try {
+      setSaving(true);
+      await blockedPeriodService.addBlockedPeriod({
+        ...(doctorId && { doctorId }),
+        startDate: start,
+        endDate: end,
+        reason,
+      }, user);
+      resetForm();
+      await loadPeriods();
+      Alert.alert('Sucesso', 'Período bloqueado. Pacientes com consultas nessas datas foram avisados.');
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível bloquear o período');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (periodId: string) => {
+    if (!user) return;
+
+    try {
+      await blockedPeriodService.removeBlockedPeriod(periodId, user);
+      await loadPeriods();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível remover o bloqueio');
+    }
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>{isClinicWide ? 'Feriados da Clínica' : 'Ausências e Bloqueios'}</Title>
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {periods.length === 0 ? (
+              <EmptyText>Nenhum período bloqueado</EmptyText>
+            ) : (
+              periods.map((period) => (
+                <PeriodItem key={period.id}>
+                  <PeriodInfo>
+                    <PeriodDates>
+                      {period.startDate === period.endDate
+                        ? formatDate(period.startDate)
+                        : `${formatDate(period.startDate)} a ${formatDate(period.endDate)}`}
+                    </PeriodDates>
+                    <PeriodReason>{period.reason}</PeriodReason>
+                  </PeriodInfo>
+                  <Button
+                    title="Remover"
+                    type="clear"
+                    onPress={() => handleRemove(period.id)}
+                    titleStyle={styles.removeTitle}
+                  />
+                </PeriodItem>
+              ))
+            )}
+
+            <SectionTitle>Novo bloqueio</SectionTitle>
+            <Input
+              label="Data inicial"
+              placeholder="DD/MM/AAAA"
+              value={startDate}
+              onChangeText={setStartDate}
+              keyboardType="numeric"
+              maxLength={10}
+              containerStyle={styles.input}
+            />
+            <Input
+              label="Data final (opcional)"
+              placeholder="DD/MM/AAAA"
+              value={endDate}
+              onChangeText={setEndDate}
+              keyboardType="numeric"
+              maxLength={10}
+              containerStyle={styles.input}
+            />
+            <Input
+              label="Motivo"
+              placeholder={isClinicWide ? 'Ex.: Feriado nacional' : 'Ex.: Férias, congresso'}
+              value={reason}
+              onChangeText={setReason}
+              containerStyle={styles.input}
+            />
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Fechar"
+              onPress={handleClose}
+              containerStyle={styles.closeButton as ViewStyle}
+              buttonStyle={styles.closeButtonStyle}
+            />
+            <Button
+              title="Bloquear"
+              onPress={handleAdd}
+              loading={saving}
+              containerStyle={styles.addButton as ViewStyle}
+              buttonStyle={styles.addButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  input: {
+    marginBottom: 5,
+  },
+  removeTitle: {
+    color: theme.colors.error,
+  },
+  closeButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  addButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  closeButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  addButtonStyle: {
+    backgroundColor: theme.colors.error,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const SectionTitle = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-top: 16px;
+  margin-bottom: 8px;
+`;
+
+const EmptyText = styled.Text`
+  text-align: center;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const PeriodItem = styled.View`
+  flex-direction: row;
+  align-items: center;
+  background-color: ${theme.colors.background};
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 8px;
+`;
+
+const PeriodInfo = styled.View`
+  flex: 1;
+`;
+
+const PeriodDates = styled.Text`
+  font-size: 14px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const PeriodReason = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default BlockedPeriodsModal;
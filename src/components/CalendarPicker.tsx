@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { ViewStyle, TouchableOpacity } from 'react-native';
+import { Icon } from 'react-native-elements';
+import theme from '../styles/theme';
+import {
+  MONTH_NAMES,
+  WEEKDAY_INITIALS,
+  compareDates,
+  getMonthDates,
+  getWeekday,
+  parseISODate,
+  todayISO,
+} from '../utils/date';
+
+interface CalendarPickerProps {
+  // Data selecionada em ISO (AAAA-MM-DD)
+  value: string | null;
+  onChange: (date: string) => void;
+  minDate?: string;
+  maxDate?: string;
+  // Regra extra de bloqueio, como dias em que o médico não atende
+  isDateDisabled?: (date: string) => boolean;
+  style?: ViewStyle;
+}
+
+interface DayStyledProps {
+  isSelected: boolean;
+  isDisabled: boolean;
+}
+
+const getInitialMonth = (value: string | null, minDate?: string) => {
+  const date = parseISODate(value || minDate || todayISO()) || new Date();
+  return { year: date.getFullYear(), month: date.getMonth() + 1 };
+};
+
+const CalendarPicker: React.FC<CalendarPickerProps> = ({
+  value,
+  onChange,
+  minDate,
+  maxDate,
+  isDateDisabled,
+  style,
+}) => {
+  const [visibleMonth, setVisibleMonth] = useState(() => getInitialMonth(value, minDate));
+
+  // Acompanha a data selecionada quando ela muda fora do calendário
+  useEffect(() => {
+    if (value) {
+      setVisibleMonth(getInitialMonth(value));
+    }
+  }, [value]);
+
+  const { year, month } = visibleMonth;
+  const dates = getMonthDates(year, month);
+  const firstWeekday = getWeekday(dates[0]) ?? 0;
+  // Espaços vazios antes do dia 1 alinham o mês às colunas dos dias da semana
+  const cells: (string | null)[] = [...Array(firstWeekday).fill(null), ...dates];
+
+  const firstDate = dates[0];
+  const lastDate = dates[dates.length - 1];
+  const canGoBack = !minDate || compareDates(firstDate, minDate) > 0;
+  const canGoForward = !maxDate || compareDates(lastDate, maxDate) < 0;
+
+  const changeMonth = (offset: number) => {
+    const date = new Date(year, month - 1 + offset, 1);
+    setVisibleMonth({ year: date.getFullYear(), month: date.getMonth() + 1 });
+  };
+
+  const isDisabled = (date: string) => {
+    if (minDate && compareDates(date, minDate) < 0) return true;
+    if (maxDate && compareDates(date, maxDate) > 0) return true;
+    return isDateDisabled ? isDateDisabled(date) : false;
+  };
+
+  return (
+    <Container style={style}>
+      <MonthHeader>
+        <TouchableOpacity onPress={() => changeMonth(-1)} disabled={!canGoBack}>
+          <Icon
+            name="chevron-left"
+            type="material"
+            color={canGoBack ? theme.colors.primary : theme.colors.border}
+          />
+        </TouchableOpacity>
+        <MonthTitle>{MONTH_NAMES[month - 1]} {year}</MonthTitle>
+        <TouchableOpacity onPress={() => changeMonth(1)} disabled={!canGoForward}>
+          <Icon
+            name="chevron-right"
+            type="material"
+            color={canGoForward ? theme.colors.primary : theme.colors.border}
+          />
+        </TouchableOpacity>
+      </MonthHeader>
+
+      <WeekRow>
+        {WEEKDAY_INITIALS.map((initial, index) => (
+          <WeekdayText key={index}>{initial}</WeekdayText>
+        ))}
+      </WeekRow>
+
+      <DaysGrid>
+        {cells.map((date, index) => {
+          if (!date) {
+            return <EmptyCell key={`empty-${index}`} />;
+          }
+          const disabled = isDisabled(date);
+          const selected = value === date;
+          return (
+            <DayCell
+              key={date}
+              onPress={() => onChange(date)}
+              disabled={disabled}
+              isSelected={selected}
+              isDisabled={disabled}
+            >
+              <DayText isSelected={selected} isDisabled={disabled}>
+                {parseInt(date.slice(8), 10)}
+              </DayText>
+            </DayCell>
+          );
+        })}
+      </DaysGrid>
+    </Container>
+  );
+};
+
+const Container = styled.View`
+  margin-bottom: 15px;
+  padding: 10px;
+  border-radius: 8px;
+  border-width: 1px;
+  border-color: ${theme.colors.border};
+  background-color: ${theme.colors.white};
+`;
+
+const MonthHeader = styled.View`
+  flex-direction: row;
+  align-items: center;
+  justify-content: space-between;
+  margin-bottom: 8px;
+`;
+
+const MonthTitle = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+`;
+
+const WeekRow = styled.View`
+  flex-direction: row;
+  margin-bottom: 4px;
+`;
+
+const WeekdayText = styled.Text`
+  width: 14.28%;
+  text-align: center;
+  font-size: 12px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+  opacity: 0.6;
+`;
+
+const DaysGrid = styled.View`
+  flex-direction: row;
+  flex-wrap: wrap;
+`;
+
+const EmptyCell = styled.View`
+  width: 14.28%;
+  aspect-ratio: 1;
+`;
+
+const DayCell = styled(TouchableOpacity)<DayStyledProps>`
+  width: 14.28%;
+  aspect-ratio: 1;
+  align-items: center;
+  justify-content: center;
+  border-radius: 20px;
+  background-color: ${(props: DayStyledProps) => props.isSelected ? theme.colors.primary : 'transparent'};
+`;
+
+const DayText = styled.Text<DayStyledProps>`
+  font-size: 14px;
+  color: ${(props: DayStyledProps) => props.isSelected ? theme.colors.white : theme.colors.text};
+  opacity: ${(props: DayStyledProps) => props.isDisabled ? 0.3 : 1};
+`;
+
+export default CalendarPicker;
@@ -0,0 +1,394 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input, Switch } from 'react-native-elements';
+import theme from '../styles/theme';
+import { useAuth } from '../contexts/AuthContext';
+import { clinicService } from '../services/clinics';
+import { ClinicRoom, ClinicUnit, OpeningHours } from '../types/clinics';
+import { Weekday } from '../types/schedules';
+import { WEEKDAY_NAMES } from '../utils/date';
+
+interface ClinicUnitsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Segunda-feira primeiro, domingo por último
+const WEEKDAY_ORDER: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+const ClinicUnitsModal: React.FC<ClinicUnitsModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [units, setUnits] = useState<ClinicUnit[]>([]);
+  // ID da unidade em edição; nulo ao cadastrar uma nova
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [address, setAddress] = useState('');
+  const [openingHours, setOpeningHours] = useState<Record<Weekday, OpeningHours>>(clinicService.getDefaultOpeningHours());
+  // Salas novas ficam sem ID até serem gravadas
+  const [rooms, setRooms] = useState<ClinicRoom[]>([{ id: '', name: '' }]);
+  const [saving, setSaving] = useState(false);
+
+  const loadUnits = async () => {
+    setUnits(await clinicService.getUnits());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadUnits();
+    }
+  }, [visible]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setAddress('');
+    setOpeningHours(clinicService.getDefaultOpeningHours());
+    setRooms([{ id: '', name: '' }]);
+  };
+
+  const handleEdit = (unit: ClinicUnit) => {
+    setEditingId(unit.id);
+    setName(unit.name);
+    setAddress(unit.address);
+    setOpeningHours(unit.openingHours);
+    setRooms(unit.rooms);
+  };
+
+  const updateHours = (weekday: Weekday, updates: Partial<OpeningHours>) => {
+    setOpeningHours({ ...openingHours, [weekday]: { ...openingHours[weekday], ...updates } });
+  };
+
+  const updateRoom = (index: number, roomName: string) => {
+    setRooms(rooms.map((room, i) => (i === index ? { ...room, name: roomName } : room)));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    try {
+      setSaving(true);
+      await clinicService.saveUnit({ id: editingId || '', name, address, openingHours, rooms }, user);
+      resetForm();
+      await loadUnits();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível salvar a unidade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (unitId: string) => {
+    if (!user) return;
+
+    try {
+      await clinicService.removeUnit(unitId, user);
+      if (editingId === unitId) {
+        resetForm();
+      }
+      await loadUnits();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível remover a unidade');
+    }
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>Unidades</Title>
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {units.length === 0 ? (
+              <EmptyText>Nenhuma unidade cadastrada</EmptyText>
+            ) : (
+              units.map((unit) => (
+                <UnitItem key={unit.id}>
+                  <UnitInfo>
+                    <UnitName>{unit.name}</UnitName>
+                    <UnitDetail>{unit.address}</UnitDetail>
+                    <UnitDetail>{unit.rooms.map(room => room.name).join(', ')}</UnitDetail>
+                  </UnitInfo>
+                  <Button
+                    title="Editar"
+                    type="clear"
+                    onPress={() => handleEdit(unit)}
+                    titleStyle={styles.editTitle}
+                  />
+                  <Button
+                    title="Remover"
+                    type="clear"
+                    onPress={() => handleRemove(unit.id)}
+                    titleStyle={styles.removeTitle}
+                  />
+                </UnitItem>
+              ))
+            )}
+
+            <SectionTitle>{editingId ? 'Editar unidade' : 'Nova unidade'}</SectionTitle>
+            <Input
+              label="Nome"
+              placeholder="Ex.: Unidade Centro"
+              value={name}
+              onChangeText={setName}
+              containerStyle={styles.input}
+            />
+            <Input
+              label="Endereço"
+              placeholder="Ex.: Rua das Flores, 100 - Centro"
+              value={address}
+              onChangeText={setAddress}
+              containerStyle={styles.input}
+            />
+
+            <SectionTitle>Consultórios</SectionTitle>
+            {rooms.map((room, index) => (
+              <RoomRow key={room.id || `new-${index}`}>
+                <Input
+                  placeholder="Ex.: Sala 1"
+                  value={room.name}
+                  onChangeText={(roomName) => updateRoom(index, roomName)}
+                  containerStyle={styles.roomInput}
+                />
+                <Button
+                  title="Remover"
+                  type="clear"
+                  onPress={() => setRooms(rooms.filter((_, i) => i !== index))}
+                  titleStyle={styles.removeTitle}
+                />
+              </RoomRow>
+            ))}
+            <Button
+              title="Adicionar consultório"
+              type="clear"
+              onPress={() => setRooms([...rooms, { id: '', name: '' }])}
+              titleStyle={styles.editTitle}
+            />
+
+            <SectionTitle>Funcionamento</SectionTitle>
+            {WEEKDAY_ORDER.map((weekday) => {
+              const hours = openingHours[weekday];
+              return (
+                <DayContainer key={weekday}>
+                  <DayHeader>
+                    <DayName>{WEEKDAY_NAMES[weekday]}</DayName>
+                    <Switch
+                      value={hours.enabled}
+                      onValueChange={(enabled) => updateHours(weekday, { enabled })}
+                      trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                    />
+                  </DayHeader>
+                  {hours.enabled && (
+                    <TimeRow>
+                      <Input
+                        label="Abertura"
+                        value={hours.start}
+                        onChangeText={(start) => updateHours(weekday, { start })}
+                        placeholder="08:00"
+                        containerStyle={styles.timeInput}
+                      />
+                      <Input
+                        label="Fechamento"
+                        value={hours.end}
+                        onChangeText={(end) => updateHours(weekday, { end })}
+                        placeholder="19:00"
+                        containerStyle={styles.timeInput}
+                      />
+                    </TimeRow>
+                  )}
+                </DayContainer>
+              );
+            })}
+
+            {editingId && (
+              <Button
+                title="Cancelar edição"
+                type="clear"
+                onPress={resetForm}
+              />
+            )}
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Fechar"
+              onPress={handleClose}
+              containerStyle={styles.closeButton as ViewStyle}
+              buttonStyle={styles.closeButtonStyle}
+            />
+            <Button
+              title="Salvar"
+              onPress={handleSave}
+              loading={saving}
+              containerStyle={styles.saveButton as ViewStyle}
+              buttonStyle={styles.saveButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  input: {
+    marginBottom: 5,
+  },
+  roomInput: {
+    flex: 1,
+  },
+  timeInput: {
+    flex: 1,
+  },
+  editTitle: {
+    color: theme.colors.primary,
+  },
+  removeTitle: {
+    color: theme.colors.error,
+  },
+  closeButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  saveButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  closeButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  saveButtonStyle: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const SectionTitle = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-top: 16px;
+  margin-bottom: 8px;
+`;
+
+const EmptyText = styled.Text`
+  text-align: center;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const UnitItem = styled.View`
+  flex-direction: row;
+  align-items: center;
+  background-color: ${theme.colors.background};
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 8px;
+`;
+
+const UnitInfo = styled.View`
+  flex: 1;
+`;
+
+const UnitName = styled.Text`
+  font-size: 14px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const UnitDetail = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const RoomRow = styled.View`
+  flex-direction: row;
+  align-items: center;
+`;
+
+const DayContainer = styled.View`
+  background-color: ${theme.colors.background};
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 12px;
+`;
+
+const DayHeader = styled.View`
+  flex-direction: row;
+  justify-content: space-between;
+  align-items: center;
+`;
+
+const DayName = styled.Text`
+  font-size: 16px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const TimeRow = styled.View`
+  flex-direction: row;
+  margin-top: 8px;
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default ClinicUnitsModal;
@@ -1,15 +1,16 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import styled from 'styled-components/native';
 import { ViewStyle } from 'react-native';
-import { ListItem, Avatar } from 'react-native-elements';
+import { ListItem, Avatar, Input } from 'react-native-elements';
 import theme from '../styles/theme';
+import { Doctor } from '../types/doctors';
+import { Specialty } from '../types/specialties';
+import { specialtyService, findSpecialty, getSpecialtyName } from '../services/specialties';
+import { normalizeText } from '../utils/text';
+import SpecialtyChips from './SpecialtyChips';
 
-interface Doctor {
-  id: string;
-  name: string;
-  specialty: string;
-  image: string;
-}
+// A busca e os filtros só aparecem quando a lista fica grande
+const SEARCH_THRESHOLD = 5;
 
 interface DoctorListProps {
   doctors: Doctor[];
@@ -24,9 +25,65 @@ const DoctorList: React.FC<DoctorListProps> = ({
   selectedDoctorId,
   style,
 }) => {
+  const [catalog, setCatalog] = useState<Specialty[]>([]);
+  const [query, setQuery] = useState('');
+  const [specialtyCode, setSpecialtyCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    specialtyService.getSpecialties()
+      .then(setCatalog)
+      .catch((error) => console.error('Erro ao carregar especialidades:', error));
+  }, []);
+
+  const showFilters = doctors.length > SEARCH_THRESHOLD;
+
+  // Chips só para as especialidades que têm médicos na lista
+  const availableSpecialties = useMemo(
+    () => catalog.filter(s => doctors.some(d => findSpecialty(catalog, d.specialty)?.code === s.code)),
+    [catalog, doctors]
+  );
+
+  const filteredDoctors = useMemo(() => {
+    if (!showFilters) return doctors;
+
+    const normalizedQuery = normalizeText(query);
+    return doctors.filter(doctor => {
+      const matchesSpecialty =
+        !specialtyCode || findSpecialty(catalog, doctor.specialty)?.code === specialtyCode;
+      const matchesQuery =
+        !normalizedQuery ||
+        normalizeText(doctor.name).includes(normalizedQuery) ||
+        normalizeText(getSpecialtyName(catalog, doctor.specialty)).includes(normalizedQuery);
+      return matchesSpecialty && matchesQuery;
+    });
+  }, [doctors, catalog, query, specialtyCode, showFilters]);
+
   return (
     <Container style={style}>
-      {doctors.map((doctor) => (
+      {showFilters && (
+        <>
+          <Input
+            placeholder="Buscar por nome ou especialidade"
+            value={query}
+            onChangeText={setQuery}
+            leftIcon={{ type: 'material', name: 'search', color: theme.colors.text }}
+            containerStyle={styles.searchContainer}
+          />
+          <SpecialtyChips
+            specialties={availableSpecialties}
+            selectedCode={specialtyCode}
+            onSelect={setSpecialtyCode}
+            allLabel="Todas"
+            style={styles.chips}
+          />
+        </>
+      )}
+
+      {filteredDoctors.length === 0 && (
+        <EmptyText>Nenhum médico encontrado</EmptyText>
+      )}
+
+      {filteredDoctors.map((doctor) => (
         <ListItem
           key={doctor.id}
           onPress={() => onSelectDoctor(doctor)}
@@ -44,7 +101,7 @@ const DoctorList: React.FC<DoctorListProps> = ({
           <ListItem.Content>
             <ListItem.Title style={styles.name}>{doctor.name}</ListItem.Title>
             <ListItem.Subtitle style={styles.specialty}>
-              {doctor.specialty}
+              {getSpecialtyName(catalog, doctor.specialty)}
             </ListItem.Subtitle>
           </ListItem.Content>
           <ListItem.Chevron />
@@ -55,6 +112,12 @@ const DoctorList: React.FC<DoctorListProps> = ({
 };
 
 const styles = {
+  searchContainer: {
+    paddingHorizontal: 0,
+  },
+  chips: {
+    marginBottom: 8,
+  },
   listItem: {
     borderRadius: 8,
     marginVertical: 4,
@@ -85,4 +148,12 @@ const Container = styled.View`
   margin-bottom: 15px;
 `;
 
+const EmptyText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  text-align: center;
+  margin: 10px 0;
+`;
+
 export default DoctorList; 
\ No newline at end of file
@@ -1,42 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import styled from 'styled-components/native';
 import { TouchableOpacity } from 'react-native';
 import { Badge } from 'react-native-elements';
-import { useAuth } from '../contexts/AuthContext';
+import { useNotifications } from '../contexts/NotificationContext';
 import { useNavigation } from '@react-navigation/native';
-import { notificationService } from '../services/notifications';
 import theme from '../styles/theme';
 
 const NotificationBell: React.FC = () => {
-  const { user } = useAuth();
   const navigation = useNavigation();
-  const [unreadCount, setUnreadCount] = useState(0);
-
-  const loadUnreadCount = async () => {
-    if (!user?.id) return;
-    
-    try {
-      const count = await notificationService.getUnreadCount(user.id);
-      setUnreadCount(count);
-    } catch (error) {
-      console.error('Erro ao carregar contador de notificações:', error);
-    }
-  };
-
-  useEffect(() => {
-    loadUnreadCount();
-    
-    // Recarrega o contador a cada 30 segundos
-    const interval = setInterval(loadUnreadCount, 30000);
-    
-    return () => clearInterval(interval);
-  }, [user?.id]);
-
-  // Atualiza quando a tela volta ao foco
-  useEffect(() => {
-    const unsubscribe = navigation.addListener('focus', loadUnreadCount);
-    return unsubscribe;
-  }, [navigation, user?.id]);
+  // O contador acompanha o armazenamento de notificações em tempo real
+  const { unreadCount } = useNotifications();
 
   const handlePress = () => {
     navigation.navigate('Notifications' as never);
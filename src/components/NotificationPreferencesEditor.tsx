@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, ViewStyle } from 'react-native';
+import { Button, Input, Switch } from 'react-native-elements';
+import theme from '../styles/theme';
+import { UserRole } from '../types/auth';
+import { NotificationChannel, NotificationPreferences, NotificationType } from '../types/notifications';
+import {
+  notificationPreferenceService,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+} from '../services/notificationPreferences';
+
+interface NotificationPreferencesEditorProps {
+  userId: string;
+  role: UserRole;
+}
+
+// Tipos configuráveis; novos agendamentos e a sala de espera só interessam aos médicos e vagas da lista de espera, aos pacientes
+const TYPE_OPTIONS: { type: NotificationType; label: string; roles?: UserRole[] }[] = [
+  { type: 'appointment_confirmed', label: 'Confirmações' },
+  { type: 'appointment_cancelled', label: 'Cancelamentos' },
+  { type: 'appointment_rescheduled', label: 'Remarcações' },
+  { type: 'appointment_reminder', label: 'Lembretes' },
+  { type: 'appointment_created', label: 'Novos agendamentos', roles: ['doctor'] },
+  { type: 'waitlist_offer', label: 'Vagas da lista de espera', roles: ['patient'] },
+  { type: 'waiting_room', label: 'Paciente na sala de espera', roles: ['doctor'] },
+  { type: 'general', label: 'Outros avisos' },
+];
+
+const CHANNEL_OPTIONS: { value: NotificationChannel; label: string }[] = [
+  { value: 'in_app', label: 'Só no app' },
+  { value: 'in_app_push', label: 'App + aparelho' },
+  { value: 'muted', label: 'Silenciar' },
+];
+
+const NotificationPreferencesEditor: React.FC<NotificationPreferencesEditorProps> = ({
+  userId,
+  role,
+}) => {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    notificationPreferenceService.getPreferences(userId)
+      .then(setPreferences)
+      .catch((error) => console.error('Erro ao carregar preferências de notificação:', error));
+  }, [userId]);
+
+  const setChannel = (type: NotificationType, channel: NotificationChannel) => {
+    setPreferences({ ...preferences, channels: { ...preferences.channels, [type]: channel } });
+  };
+
+  const setQuietHours = (changes: Partial<NotificationPreferences['quietHours']>) => {
+    setPreferences({ ...preferences, quietHours: { ...preferences.quietHours, ...changes } });
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await notificationPreferenceService.savePreferences(userId, preferences);
+      Alert.alert('Sucesso', 'Preferências de notificação salvas');
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível salvar as preferências');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Container>
+      {TYPE_OPTIONS
+        .filter((option) => !option.roles || option.roles.includes(role))
+        .map((option) => (
+          <TypeRow key={option.type}>
+            <TypeLabel>{option.label}</TypeLabel>
+            <ChannelOptions>
+              {CHANNEL_OPTIONS.map((channel) => {
+                const selected = preferences.channels[option.type] === channel.value;
+                return (
+                  <ChannelOption
+                    key={channel.value}
+                    selected={selected}
+                    onPress={() => setChannel(option.type, channel.value)}
+                  >
+                    <ChannelOptionText selected={selected}>{channel.label}</ChannelOptionText>
+                  </ChannelOption>
+                );
+              })}
+            </ChannelOptions>
+          </TypeRow>
+        ))}
+
+      <QuietHoursRow>
+        <QuietHoursInfo>
+          <TypeLabel>Horário de silêncio</TypeLabel>
+          <QuietHoursHint>Sem notificações no aparelho; elas continuam na lista do app</QuietHoursHint>
+        </QuietHoursInfo>
+        <Switch
+          value={preferences.quietHours.enabled}
+          onValueChange={(enabled) => setQuietHours({ enabled })}
+          trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+        />
+      </QuietHoursRow>
+
+      {preferences.quietHours.enabled && (
+        <TimeInputs>
+          <Input
+            label="Início"
+            placeholder="22:00"
+            value={preferences.quietHours.start}
+            onChangeText={(start) => setQuietHours({ start })}
+            maxLength={5}
+            containerStyle={styles.timeInput}
+          />
+          <Input
+            label="Fim"
+            placeholder="07:00"
+            value={preferences.quietHours.end}
+            onChangeText={(end) => setQuietHours({ end })}
+            maxLength={5}
+            containerStyle={styles.timeInput}
+          />
+        </TimeInputs>
+      )}
+
+      <Button
+        title="Salvar Preferências"
+        onPress={handleSave}
+        loading={saving}
+        containerStyle={styles.saveButton as ViewStyle}
+        buttonStyle={styles.saveButtonStyle}
+      />
+    </Container>
+  );
+};
+
+const styles = {
+  timeInput: {
+    flex: 1,
+  },
+  saveButton: {
+    marginTop: 10,
+  },
+  saveButtonStyle: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 10,
+  },
+};
+
+const Container = styled.View`
+  padding: 16px;
+`;
+
+const TypeRow = styled.View`
+  margin-bottom: 12px;
+`;
+
+const TypeLabel = styled.Text`
+  font-size: 16px;
+  color: ${theme.colors.text};
+  margin-bottom: 6px;
+`;
+
+const ChannelOptions = styled.View`
+  flex-direction: row;
+`;
+
+const ChannelOption = styled.TouchableOpacity<{ selected: boolean }>`
+  flex: 1;
+  padding: 6px;
+  margin-right: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+  align-items: center;
+`;
+
+const ChannelOptionText = styled.Text<{ selected: boolean }>`
+  font-size: 12px;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const QuietHoursRow = styled.View`
+  flex-direction: row;
+  align-items: center;
+  margin-top: 8px;
+`;
+
+const QuietHoursInfo = styled.View`
+  flex: 1;
+`;
+
+const QuietHoursHint = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const TimeInputs = styled.View`
+  flex-direction: row;
+  margin-top: 10px;
+`;
+
+export default NotificationPreferencesEditor;
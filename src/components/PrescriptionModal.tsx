@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input } from 'react-native-elements';
+import theme from '../styles/theme';
+import { useAuth } from '../contexts/AuthContext';
+import { prescriptionService } from '../services/prescriptions';
+import { Appointment } from '../types/appointments';
+import { Prescription, PrescriptionItem } from '../types/prescriptions';
+
+interface PrescriptionModalProps {
+  visible: boolean;
+  appointment: Appointment | null;
+  onClose: () => void;
+  onIssued: (prescription: Prescription) => void;
+}
+
+const EMPTY_ITEM: PrescriptionItem = {
+  medication: '',
+  dosage: '',
+  frequency: '',
+  duration: '',
+  notes: '',
+};
+
+// Editor da receita: cada medicamento com dose, frequência, duração e orientações
+const PrescriptionModal: React.FC<PrescriptionModalProps> = ({
+  visible,
+  appointment,
+  onClose,
+  onIssued,
+}) => {
+  const { user } = useAuth();
+  const [items, setItems] = useState<PrescriptionItem[]>([{ ...EMPTY_ITEM }]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setItems([{ ...EMPTY_ITEM }]);
+      setError('');
+    }
+  }, [visible]);
+
+  const updateItem = (index: number, updates: Partial<PrescriptionItem>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  };
+
+  const handleIssue = async () => {
+    if (!user || !appointment) return;
+
+    try {
+      setSaving(true);
+      setError('');
+      onIssued(await prescriptionService.issuePrescription(appointment.id, items, user));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível emitir a receita');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>Nova Receita</Title>
+            {appointment ? <Subtitle>{appointment.patientName}</Subtitle> : null}
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {items.map((item, index) => (
+              <ItemContainer key={index}>
+                <ItemHeader>
+                  <ItemTitle>Medicamento {index + 1}</ItemTitle>
+                  {items.length > 1 && (
+                    <Button
+                      title="Remover"
+                      type="clear"
+                      onPress={() => setItems(items.filter((_, i) => i !== index))}
+                      titleStyle={styles.removeTitle}
+                    />
+                  )}
+                </ItemHeader>
+                <Input
+                  label="Medicamento"
+                  placeholder="Ex.: Amoxicilina 500 mg"
+                  value={item.medication}
+                  onChangeText={(medication) => updateItem(index, { medication })}
+                  containerStyle={styles.input}
+                />
+                <Input
+                  label="Dose"
+                  placeholder="Ex.: 1 cápsula"
+                  value={item.dosage}
+                  onChangeText={(dosage) => updateItem(index, { dosage })}
+                  containerStyle={styles.input}
+                />
+                <Input
+                  label="Frequência"
+                  placeholder="Ex.: de 8 em 8 horas"
+                  value={item.frequency}
+                  onChangeText={(frequency) => updateItem(index, { frequency })}
+                  containerStyle={styles.input}
+                />
+                <Input
+                  label="Duração"
+                  placeholder="Ex.: 7 dias"
+                  value={item.duration}
+                  onChangeText={(duration) => updateItem(index, { duration })}
+                  containerStyle={styles.input}
+                />
+                <Input
+                  label="Orientações (opcional)"
+                  placeholder="Ex.: tomar após as refeições"
+                  value={item.notes}
+                  onChangeText={(notes) => updateItem(index, { notes })}
+                  multiline
+                  containerStyle={styles.input}
+                />
+              </ItemContainer>
+            ))}
+            <Button
+              title="Adicionar medicamento"
+              type="clear"
+              onPress={() => setItems([...items, { ...EMPTY_ITEM }])}
+              titleStyle={styles.addTitle}
+            />
+
+            {error ? <ErrorText>{error}</ErrorText> : null}
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Cancelar"
+              onPress={onClose}
+              containerStyle={styles.cancelButton as ViewStyle}
+              buttonStyle={styles.cancelButtonStyle}
+            />
+            <Button
+              title="Emitir"
+              onPress={handleIssue}
+              loading={saving}
+              containerStyle={styles.issueButton as ViewStyle}
+              buttonStyle={styles.issueButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  input: {
+    marginBottom: 5,
+  },
+  addTitle: {
+    color: theme.colors.primary,
+  },
+  removeTitle: {
+    color: theme.colors.error,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  issueButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  cancelButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  issueButtonStyle: {
+    backgroundColor: theme.colors.success,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const Subtitle = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  text-align: center;
+  margin-top: 4px;
+`;
+
+const ItemContainer = styled.View`
+  background-color: ${theme.colors.background};
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 12px;
+`;
+
+const ItemHeader = styled.View`
+  flex-direction: row;
+  justify-content: space-between;
+  align-items: center;
+  margin-bottom: 4px;
+`;
+
+const ItemTitle = styled.Text`
+  font-size: 16px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const ErrorText = styled.Text`
+  color: ${theme.colors.error};
+  text-align: center;
+  margin-top: 8px;
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default PrescriptionModal;
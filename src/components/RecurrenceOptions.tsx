@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Input, Switch } from 'react-native-elements';
+import theme from '../styles/theme';
+import { RecurrenceConflictStrategy, RecurrenceFrequency, RecurrenceRule } from '../types/appointments';
+import {
+  appointmentSeriesService,
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_FREQUENCY_LABELS,
+} from '../services/appointmentSeries';
+import { formatDate, parseDisplayDate } from '../utils/date';
+
+interface RecurrenceOptionsProps {
+  // Data da primeira consulta, usada para mostrar as datas da série
+  startDate: string | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+}
+
+type EndMode = 'occurrences' | 'endDate';
+
+const FREQUENCY_OPTIONS: RecurrenceFrequency[] = ['weekly', 'biweekly', 'monthly'];
+
+const END_MODE_OPTIONS: { value: EndMode; label: string }[] = [
+  { value: 'occurrences', label: 'Nº de consultas' },
+  { value: 'endDate', label: 'Até a data' },
+];
+
+const CONFLICT_OPTIONS: { value: RecurrenceConflictStrategy; label: string }[] = [
+  { value: 'skip', label: 'Pular datas indisponíveis' },
+  { value: 'fail', label: 'Só agendar se todas estiverem livres' },
+];
+
+const RecurrenceOptions: React.FC<RecurrenceOptionsProps> = ({ startDate, onChange }) => {
+  const [enabled, setEnabled] = useState(false);
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>('weekly');
+  const [endMode, setEndMode] = useState<EndMode>('occurrences');
+  const [occurrences, setOccurrences] = useState('4');
+  const [endDate, setEndDate] = useState('');
+  const [onConflict, setOnConflict] = useState<RecurrenceConflictStrategy>('skip');
+
+  // A data final é digitada em DD/MM/AAAA; o serviço recusa valores inválidos ao agendar
+  const rule: RecurrenceRule | null = enabled
+    ? {
+        frequency,
+        onConflict,
+        ...(endMode === 'occurrences'
+          ? { occurrences: parseInt(occurrences, 10) || 0 }
+          : { endDate: parseDisplayDate(endDate) || endDate }),
+      }
+    : null;
+
+  useEffect(() => {
+    onChange(rule);
+  }, [enabled, frequency, endMode, occurrences, endDate, onConflict]);
+
+  // Prévia das datas; enquanto a regra estiver incompleta, mostra o motivo
+  const getPreview = (): string => {
+    if (!rule || !startDate) return '';
+    try {
+      const dates = appointmentSeriesService.getOccurrenceDates(startDate, rule);
+      return `${dates.length} consultas: ${dates.map(formatDate).join(', ')}`;
+    } catch (error) {
+      return error instanceof Error ? error.message : '';
+    }
+  };
+
+  return (
+    <Container>
+      <SwitchRow>
+        <SwitchLabel>Repetir esta consulta</SwitchLabel>
+        <Switch
+          value={enabled}
+          onValueChange={setEnabled}
+          trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+        />
+      </SwitchRow>
+
+      {enabled && (
+        <>
+          <OptionLabel>Frequência</OptionLabel>
+          <Options>
+            {FREQUENCY_OPTIONS.map((value) => (
+              <Option key={value} selected={frequency === value} onPress={() => setFrequency(value)}>
+                <OptionText selected={frequency === value}>{RECURRENCE_FREQUENCY_LABELS[value]}</OptionText>
+              </Option>
+            ))}
+          </Options>
+
+          <OptionLabel>Término</OptionLabel>
+          <Options>
+            {END_MODE_OPTIONS.map((option) => (
+              <Option key={option.value} selected={endMode === option.value} onPress={() => setEndMode(option.value)}>
+                <OptionText selected={endMode === option.value}>{option.label}</OptionText>
+              </Option>
+            ))}
+          </Options>
+          {endMode === 'occurrences' ? (
+            <Input
+              label={`Quantidade de consultas (até ${MAX_SERIES_OCCURRENCES})`}
+              value={occurrences}
+              onChangeText={setOccurrences}
+              keyboardType="numeric"
+              maxLength={2}
+            />
+          ) : (
+            <Input
+              label="Última data"
+              placeholder="DD/MM/AAAA"
+              value={endDate}
+              onChangeText={setEndDate}
+              keyboardType="numeric"
+              maxLength={10}
+            />
+          )}
+
+          <OptionLabel>Datas com conflito</OptionLabel>
+          <Options>
+            {CONFLICT_OPTIONS.map((option) => (
+              <Option
+                key={option.value}
+                selected={onConflict === option.value}
+                onPress={() => setOnConflict(option.value)}
+              >
+                <OptionText selected={onConflict === option.value}>{option.label}</OptionText>
+              </Option>
+            ))}
+          </Options>
+
+          {startDate ? <PreviewText>{getPreview()}</PreviewText> : null}
+        </>
+      )}
+    </Container>
+  );
+};
+
+const Container = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 8px;
+  border-width: 1px;
+  border-color: ${theme.colors.border};
+  padding: 12px;
+  margin-bottom: 15px;
+`;
+
+const SwitchRow = styled.View`
+  flex-direction: row;
+  align-items: center;
+  justify-content: space-between;
+`;
+
+const SwitchLabel = styled.Text`
+  font-size: 16px;
+  color: ${theme.colors.text};
+`;
+
+const OptionLabel = styled.Text`
+  font-size: 14px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-top: 12px;
+  margin-bottom: 6px;
+`;
+
+const Options = styled.View`
+  flex-direction: row;
+  margin-bottom: 6px;
+`;
+
+const Option = styled.TouchableOpacity<{ selected: boolean }>`
+  flex: 1;
+  padding: 8px;
+  margin-right: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+  align-items: center;
+`;
+
+const OptionText = styled.Text<{ selected: boolean }>`
+  font-size: 12px;
+  text-align: center;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const PreviewText = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.primary};
+  margin-top: 6px;
+`;
+
+export default RecurrenceOptions;
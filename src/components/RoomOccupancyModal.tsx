@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button } from 'react-native-elements';
+import theme from '../styles/theme';
+import { clinicService } from '../services/clinics';
+import { authService } from '../services/auth';
+import { ClinicUnit, RoomOccupancy } from '../types/clinics';
+import { Weekday } from '../types/schedules';
+import { WEEKDAY_NAMES } from '../utils/date';
+
+interface RoomOccupancyModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Segunda-feira primeiro, domingo por último
+const WEEKDAY_ORDER: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+// Ocupação semanal dos consultórios de cada unidade, montada a partir da agenda dos médicos
+const RoomOccupancyModal: React.FC<RoomOccupancyModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const [units, setUnits] = useState<ClinicUnit[]>([]);
+  const [selectedUnit, setSelectedUnit] = useState<ClinicUnit | null>(null);
+  const [occupancy, setOccupancy] = useState<RoomOccupancy[]>([]);
+  const [doctorNames, setDoctorNames] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!visible) return;
+
+    const load = async () => {
+      const loadedUnits = await clinicService.getUnits();
+      const users = await authService.getAllUsers();
+      setUnits(loadedUnits);
+      setDoctorNames(Object.fromEntries(users.map(u => [u.id, u.name])));
+      setSelectedUnit(loadedUnits[0] || null);
+    };
+    load().catch((error) => console.error('Erro ao carregar unidades:', error));
+  }, [visible]);
+
+  useEffect(() => {
+    if (!selectedUnit) {
+      setOccupancy([]);
+      return;
+    }
+    clinicService.getRoomOccupancy(selectedUnit.id)
+      .then(setOccupancy)
+      .catch((error) => console.error('Erro ao carregar ocupação:', error));
+  }, [selectedUnit]);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>Ocupação dos Consultórios</Title>
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {units.length === 0 ? (
+              <EmptyText>Nenhuma unidade cadastrada</EmptyText>
+            ) : (
+              <Chips>
+                {units.map((unit) => (
+                  <Chip key={unit.id} selected={selectedUnit?.id === unit.id} onPress={() => setSelectedUnit(unit)}>
+                    <ChipText selected={selectedUnit?.id === unit.id}>{unit.name}</ChipText>
+                  </Chip>
+                ))}
+              </Chips>
+            )}
+
+            {selectedUnit && WEEKDAY_ORDER
+              .filter(weekday => selectedUnit.openingHours[weekday].enabled)
+              .map((weekday) => (
+                <DayContainer key={weekday}>
+                  <DayName>
+                    {WEEKDAY_NAMES[weekday]} · {selectedUnit.openingHours[weekday].start} às {selectedUnit.openingHours[weekday].end}
+                  </DayName>
+                  {selectedUnit.rooms.map((room) => {
+                    const entries = occupancy.filter(o => o.weekday === weekday && o.roomId === room.id);
+                    return (
+                      <RoomRow key={room.id}>
+                        <RoomName>{room.name}</RoomName>
+                        <RoomEntries>
+                          {entries.length === 0 ? (
+                            <FreeText>Livre</FreeText>
+                          ) : (
+                            entries.map((entry) => (
+                              <EntryText key={entry.doctorId}>
+                                {doctorNames[entry.doctorId] || 'Médico removido'} · {entry.start} às {entry.end}
+                              </EntryText>
+                            ))
+                          )}
+                        </RoomEntries>
+                      </RoomRow>
+                    );
+                  })}
+                </DayContainer>
+              ))}
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Fechar"
+              onPress={onClose}
+              containerStyle={styles.closeButton as ViewStyle}
+              buttonStyle={styles.closeButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  closeButton: {
+    flex: 1,
+  },
+  closeButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const EmptyText = styled.Text`
+  text-align: center;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const Chips = styled.View`
+  flex-direction: row;
+  flex-wrap: wrap;
+  margin-bottom: 12px;
+`;
+
+const Chip = styled.TouchableOpacity<{ selected: boolean }>`
+  padding: 6px 12px;
+  margin-right: 6px;
+  margin-bottom: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+`;
+
+const ChipText = styled.Text<{ selected: boolean }>`
+  font-size: 12px;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const DayContainer = styled.View`
+  background-color: ${theme.colors.background};
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 12px;
+`;
+
+const DayName = styled.Text`
+  font-size: 16px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+  margin-bottom: 6px;
+`;
+
+const RoomRow = styled.View`
+  flex-direction: row;
+  padding-vertical: 4px;
+`;
+
+const RoomName = styled.Text`
+  width: 90px;
+  font-size: 14px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const RoomEntries = styled.View`
+  flex: 1;
+`;
+
+const EntryText = styled.Text`
+  font-size: 13px;
+  color: ${theme.colors.text};
+`;
+
+const FreeText = styled.Text`
+  font-size: 13px;
+  color: ${theme.colors.success};
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default RoomOccupancyModal;
@@ -0,0 +1,328 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input, Switch } from 'react-native-elements';
+import theme from '../styles/theme';
+import { scheduleService } from '../services/schedules';
+import { clinicService } from '../services/clinics';
+import { useAuth } from '../contexts/AuthContext';
+import { DaySchedule, DoctorSchedule, Weekday } from '../types/schedules';
+import { ClinicUnit } from '../types/clinics';
+import { WEEKDAY_NAMES } from '../utils/date';
+
+interface ScheduleEditorModalProps {
+  visible: boolean;
+  doctorId: string;
+  onClose: () => void;
+}
+
+// Segunda-feira primeiro, domingo por último
+const WEEKDAY_ORDER: Weekday[] = [1, 2, 3, 4, 5, 6, 0];
+
+const ScheduleEditorModal: React.FC<ScheduleEditorModalProps> = ({
+  visible,
+  doctorId,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [schedule, setSchedule] = useState<DoctorSchedule | null>(null);
+  const [slotDuration, setSlotDuration] = useState('');
+  const [units, setUnits] = useState<ClinicUnit[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    scheduleService.getSchedule(doctorId).then((loaded) => {
+      setSchedule(loaded);
+      setSlotDuration(loaded.slotDuration.toString());
+    });
+    clinicService.getUnits().then(setUnits);
+  }, [visible, doctorId]);
+
+  const updateDay = (weekday: Weekday, updates: Partial<DaySchedule>) => {
+    if (!schedule) return;
+    setSchedule({
+      ...schedule,
+      days: {
+        ...schedule.days,
+        [weekday]: { ...schedule.days[weekday], ...updates },
+      },
+    });
+  };
+
+  const handleSave = async () => {
+    if (!schedule || !user) return;
+
+    try {
+      setSaving(true);
+      await scheduleService.saveSchedule({
+        ...schedule,
+        slotDuration: parseInt(slotDuration, 10),
+      }, user);
+      Alert.alert('Sucesso', 'Horários de atendimento atualizados!');
+      onClose();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível salvar os horários');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>Horários de Atendimento</Title>
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <Input
+              label="Duração da consulta (minutos)"
+              value={slotDuration}
+              onChangeText={setSlotDuration}
+              keyboardType="numeric"
+              containerStyle={styles.input}
+            />
+
+            {schedule && WEEKDAY_ORDER.map((weekday) => {
+              const day = schedule.days[weekday];
+              return (
+                <DayContainer key={weekday}>
+                  <DayHeader>
+                    <DayName>{WEEKDAY_NAMES[weekday]}</DayName>
+                    <Switch
+                      value={day.enabled}
+                      onValueChange={(enabled) => updateDay(weekday, { enabled })}
+                      trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+                    />
+                  </DayHeader>
+
+                  {day.enabled && (
+                    <>
+                      <TimeRow>
+                        <Input
+                          label="Início"
+                          value={day.start}
+                          onChangeText={(start) => updateDay(weekday, { start })}
+                          placeholder="09:00"
+                          containerStyle={styles.timeInput}
+                        />
+                        <Input
+                          label="Fim"
+                          value={day.end}
+                          onChangeText={(end) => updateDay(weekday, { end })}
+                          placeholder="18:00"
+                          containerStyle={styles.timeInput}
+                        />
+                      </TimeRow>
+                      {units.length > 0 && (
+                        <>
+                          <LocationLabel>Unidade</LocationLabel>
+                          <Chips>
+                            <Chip
+                              selected={!day.unitId}
+                              onPress={() => updateDay(weekday, { unitId: undefined, roomId: undefined })}
+                            >
+                              <ChipText selected={!day.unitId}>Não definida</ChipText>
+                            </Chip>
+                            {units.map((unit) => (
+                              <Chip
+                                key={unit.id}
+                                selected={day.unitId === unit.id}
+                                onPress={() => updateDay(weekday, { unitId: unit.id, roomId: unit.rooms[0]?.id })}
+                              >
+                                <ChipText selected={day.unitId === unit.id}>{unit.name}</ChipText>
+                              </Chip>
+                            ))}
+                          </Chips>
+                          {day.unitId && (
+                            <>
+                              <LocationLabel>Consultório</LocationLabel>
+                              <Chips>
+                                {(units.find(u => u.id === day.unitId)?.rooms || []).map((room) => (
+                                  <Chip
+                                    key={room.id}
+                                    selected={day.roomId === room.id}
+                                    onPress={() => updateDay(weekday, { roomId: room.id })}
+                                  >
+                                    <ChipText selected={day.roomId === room.id}>{room.name}</ChipText>
+                                  </Chip>
+                                ))}
+                              </Chips>
+                            </>
+                          )}
+                        </>
+                      )}
+                      <TimeRow>
+                        <Input
+                          label="Almoço (início)"
+                          value={day.breakStart || ''}
+                          onChangeText={(breakStart) => updateDay(weekday, { breakStart: breakStart || undefined })}
+                          placeholder="12:00"
+                          containerStyle={styles.timeInput}
+                        />
+                        <Input
+                          label="Almoço (fim)"
+                          value={day.breakEnd || ''}
+                          onChangeText={(breakEnd) => updateDay(weekday, { breakEnd: breakEnd || undefined })}
+                          placeholder="13:00"
+                          containerStyle={styles.timeInput}
+                        />
+                      </TimeRow>
+                    </>
+                  )}
+                </DayContainer>
+              );
+            })}
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Cancelar"
+              onPress={onClose}
+              containerStyle={styles.cancelButton as ViewStyle}
+              buttonStyle={styles.cancelButtonStyle}
+            />
+            <Button
+              title="Salvar"
+              onPress={handleSave}
+              loading={saving}
+              containerStyle={styles.saveButton as ViewStyle}
+              buttonStyle={styles.saveButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  input: {
+    marginBottom: 10,
+  },
+  timeInput: {
+    flex: 1,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  saveButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  cancelButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  saveButtonStyle: {
+    backgroundColor: theme.colors.success,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const DayContainer = styled.View`
+  background-color: ${theme.colors.background};
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 12px;
+`;
+
+const DayHeader = styled.View`
+  flex-direction: row;
+  justify-content: space-between;
+  align-items: center;
+`;
+
+const DayName = styled.Text`
+  font-size: 16px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const TimeRow = styled.View`
+  flex-direction: row;
+  margin-top: 8px;
+`;
+
+const LocationLabel = styled.Text`
+  font-size: 14px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+  margin-top: 8px;
+  margin-bottom: 6px;
+`;
+
+const Chips = styled.View`
+  flex-direction: row;
+  flex-wrap: wrap;
+`;
+
+const Chip = styled.TouchableOpacity<{ selected: boolean }>`
+  padding: 6px 12px;
+  margin-right: 6px;
+  margin-bottom: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+`;
+
+const ChipText = styled.Text<{ selected: boolean }>`
+  font-size: 12px;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default ScheduleEditorModal;
@@ -0,0 +1,299 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input } from 'react-native-elements';
+import theme from '../styles/theme';
+import { useAuth } from '../contexts/AuthContext';
+import { specialtyService } from '../services/specialties';
+import { Specialty } from '../types/specialties';
+
+interface SpecialtyCatalogModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const SpecialtyCatalogModal: React.FC<SpecialtyCatalogModalProps> = ({
+  visible,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [specialties, setSpecialties] = useState<Specialty[]>([]);
+  // Código da especialidade em edição; nulo ao cadastrar uma nova
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const loadSpecialties = async () => {
+    setSpecialties(await specialtyService.getSpecialties());
+  };
+
+  useEffect(() => {
+    if (visible) {
+      loadSpecialties();
+    }
+  }, [visible]);
+
+  const resetForm = () => {
+    setEditingCode(null);
+    setCode('');
+    setName('');
+    setDescription('');
+  };
+
+  const handleEdit = (specialty: Specialty) => {
+    setEditingCode(specialty.code);
+    setCode(specialty.code);
+    setName(specialty.name);
+    setDescription(specialty.description);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    try {
+      setSaving(true);
+      await specialtyService.saveSpecialty({ code, name, description }, user);
+      resetForm();
+      await loadSpecialties();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível salvar a especialidade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (specialtyCode: string) => {
+    if (!user) return;
+
+    try {
+      await specialtyService.removeSpecialty(specialtyCode, user);
+      if (editingCode === specialtyCode) {
+        resetForm();
+      }
+      await loadSpecialties();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível remover a especialidade');
+    }
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={handleClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>Especialidades</Title>
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {specialties.length === 0 ? (
+              <EmptyText>Nenhuma especialidade cadastrada</EmptyText>
+            ) : (
+              specialties.map((specialty) => (
+                <SpecialtyItem key={specialty.code}>
+                  <SpecialtyInfo>
+                    <SpecialtyName>{specialty.name}</SpecialtyName>
+                    <SpecialtyCode>{specialty.code}</SpecialtyCode>
+                    {specialty.description ? (
+                      <SpecialtyDescription>{specialty.description}</SpecialtyDescription>
+                    ) : null}
+                  </SpecialtyInfo>
+                  <Button
+                    title="Editar"
+                    type="clear"
+                    onPress={() => handleEdit(specialty)}
+                    titleStyle={styles.editTitle}
+                  />
+                  <Button
+                    title="Remover"
+                    type="clear"
+                    onPress={() => handleRemove(specialty.code)}
+                    titleStyle={styles.removeTitle}
+                  />
+                </SpecialtyItem>
+              ))
+            )}
+
+            <SectionTitle>{editingCode ? 'Editar especialidade' : 'Nova especialidade'}</SectionTitle>
+            <Input
+              label="Código"
+              placeholder="Ex.: endocrinologia"
+              value={code}
+              onChangeText={setCode}
+              autoCapitalize="none"
+              disabled={!!editingCode}
+              containerStyle={styles.input}
+            />
+            <Input
+              label="Nome"
+              placeholder="Ex.: Endocrinologia"
+              value={name}
+              onChangeText={setName}
+              containerStyle={styles.input}
+            />
+            <Input
+              label="Descrição"
+              placeholder="Ex.: Hormônios e metabolismo"
+              value={description}
+              onChangeText={setDescription}
+              containerStyle={styles.input}
+            />
+            {editingCode && (
+              <Button
+                title="Cancelar edição"
+                type="clear"
+                onPress={resetForm}
+              />
+            )}
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Fechar"
+              onPress={handleClose}
+              containerStyle={styles.closeButton as ViewStyle}
+              buttonStyle={styles.closeButtonStyle}
+            />
+            <Button
+              title="Salvar"
+              onPress={handleSave}
+              loading={saving}
+              containerStyle={styles.saveButton as ViewStyle}
+              buttonStyle={styles.saveButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  input: {
+    marginBottom: 5,
+  },
+  editTitle: {
+    color: theme.colors.primary,
+  },
+  removeTitle: {
+    color: theme.colors.error,
+  },
+  closeButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  saveButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  closeButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  saveButtonStyle: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const SectionTitle = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-top: 16px;
+  margin-bottom: 8px;
+`;
+
+const EmptyText = styled.Text`
+  text-align: center;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const SpecialtyItem = styled.View`
+  flex-direction: row;
+  align-items: center;
+  background-color: ${theme.colors.background};
+  border-radius: 8px;
+  padding: 12px;
+  margin-bottom: 8px;
+`;
+
+const SpecialtyInfo = styled.View`
+  flex: 1;
+`;
+
+const SpecialtyName = styled.Text`
+  font-size: 14px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const SpecialtyCode = styled.Text`
+  font-size: 11px;
+  color: ${theme.colors.text};
+  opacity: 0.5;
+`;
+
+const SpecialtyDescription = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default SpecialtyCatalogModal;
@@ -0,0 +1,72 @@
+import React from 'react';
+import styled from 'styled-components/native';
+import { ScrollView, TouchableOpacity, ViewStyle } from 'react-native';
+import theme from '../styles/theme';
+import { Specialty } from '../types/specialties';
+
+interface SpecialtyChipsProps {
+  specialties: Specialty[];
+  selectedCode: string | null;
+  onSelect: (code: string | null) => void;
+  // Quando informado, exibe um chip inicial que limpa a seleção
+  allLabel?: string;
+  style?: ViewStyle;
+}
+
+interface StyledProps {
+  isSelected: boolean;
+}
+
+const SpecialtyChips: React.FC<SpecialtyChipsProps> = ({
+  specialties,
+  selectedCode,
+  onSelect,
+  allLabel,
+  style,
+}) => {
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={style}
+      contentContainerStyle={styles.content}
+    >
+      {allLabel && (
+        <Chip isSelected={selectedCode === null} onPress={() => onSelect(null)}>
+          <ChipText isSelected={selectedCode === null}>{allLabel}</ChipText>
+        </Chip>
+      )}
+      {specialties.map((specialty) => (
+        <Chip
+          key={specialty.code}
+          isSelected={selectedCode === specialty.code}
+          onPress={() => onSelect(specialty.code)}
+        >
+          <ChipText isSelected={selectedCode === specialty.code}>{specialty.name}</ChipText>
+        </Chip>
+      ))}
+    </ScrollView>
+  );
+};
+
+const styles = {
+  content: {
+    paddingVertical: 4,
+  },
+};
+
+const Chip = styled(TouchableOpacity)<StyledProps>`
+  padding: 6px 12px;
+  margin-right: 8px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: StyledProps) => props.isSelected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: StyledProps) => props.isSelected ? theme.colors.primary : theme.colors.white};
+`;
+
+const ChipText = styled.Text<StyledProps>`
+  font-size: 13px;
+  color: ${(props: StyledProps) => props.isSelected ? theme.colors.white : theme.colors.text};
+`;
+
+export default SpecialtyChips;
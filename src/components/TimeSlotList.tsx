@@ -2,46 +2,81 @@ import React from 'react';
 import styled from 'styled-components/native';
 import { ViewStyle, TouchableOpacity } from 'react-native';
 import theme from '../styles/theme';
+import { CLINIC_TIME_ZONE, getDeviceTimeZone, getTimeZoneLabel, toDisplayDateTime, zonedTimeToInstant } from '../utils/timezone';
 
 interface TimeSlotListProps {
+  // Horários no relógio da clínica
+  timeSlots: string[];
   onSelectTime: (time: string) => void;
   selectedTime?: string;
+  unavailableTimes?: string[];
+  // Data (AAAA-MM-DD) e fuso da clínica; com a data, os horários são exibidos no fuso de quem vê
+  date?: string;
+  timeZone?: string;
   style?: ViewStyle;
 }
 
 interface StyledProps {
   isSelected: boolean;
+  isDisabled?: boolean;
 }
 
 const TimeSlotList: React.FC<TimeSlotListProps> = ({
+  timeSlots,
   onSelectTime,
   selectedTime,
+  unavailableTimes = [],
+  date,
+  timeZone = CLINIC_TIME_ZONE,
   style,
 }) => {
-  // Gera horários de 30 em 30 minutos das 9h às 18h
-  const generateTimeSlots = () => {
-    const slots: string[] = [];
-    for (let hour = 9; hour < 18; hour++) {
-      slots.push(`${hour.toString().padStart(2, '0')}:00`);
-      slots.push(`${hour.toString().padStart(2, '0')}:30`);
-    }
-    return slots;
+  // Converte o horário da clínica para o fuso de quem vê; nulo quando os fusos coincidem
+  const getViewerTime = (time: string): string | null => {
+    if (!date) return null;
+    const display = toDisplayDateTime({ date, time, timeZone });
+    return display.timeZoneNote ? display.time : null;
   };
+  const showsViewerTime = timeSlots.length > 0 && getViewerTime(timeSlots[0]) !== null;
+  // Horários de hoje que já passaram não podem ser escolhidos
+  const isPast = (time: string) => !!date && new Date(zonedTimeToInstant(date, time, timeZone)).getTime() <= Date.now();
 
-  const timeSlots = generateTimeSlots();
+  if (timeSlots.length === 0) {
+    return (
+      <Container style={style}>
+        <EmptyText>Nenhum horário de atendimento nesta data</EmptyText>
+      </Container>
+    );
+  }
 
   return (
     <Container style={style}>
+      {showsViewerTime && (
+        <TimeZoneNote>
+          Horários no seu fuso ({getTimeZoneLabel(getDeviceTimeZone())}). Entre parênteses, o horário da clínica ({getTimeZoneLabel(timeZone)}).
+        </TimeZoneNote>
+      )}
       <TimeGrid>
-        {timeSlots.map((time) => (
-          <TimeCard
-            key={time}
-            onPress={() => onSelectTime(time)}
-            isSelected={selectedTime === time}
-          >
-            <TimeText isSelected={selectedTime === time}>{time}</TimeText>
-          </TimeCard>
-        ))}
+        {timeSlots.map((time) => {
+          // Horários já reservados ou que já passaram aparecem desabilitados
+          const isDisabled = unavailableTimes.includes(time) || isPast(time);
+          const viewerTime = getViewerTime(time);
+          return (
+            <TimeCard
+              key={time}
+              onPress={() => onSelectTime(time)}
+              disabled={isDisabled}
+              isSelected={selectedTime === time}
+              isDisabled={isDisabled}
+            >
+              <TimeText isSelected={selectedTime === time} isDisabled={isDisabled}>
+                {viewerTime || time}
+              </TimeText>
+              {viewerTime && (
+                <ClinicTimeText isSelected={selectedTime === time} isDisabled={isDisabled}>({time})</ClinicTimeText>
+              )}
+            </TimeCard>
+          );
+        })}
       </TimeGrid>
     </Container>
   );
@@ -51,6 +86,19 @@ const Container = styled.View`
   margin-bottom: 15px;
 `;
 
+const EmptyText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  text-align: center;
+`;
+
+const TimeZoneNote = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.primary};
+  margin-bottom: 8px;
+`;
+
 const TimeGrid = styled.View`
   flex-direction: row;
   flex-wrap: wrap;
@@ -67,12 +115,20 @@ const TimeCard = styled(TouchableOpacity)<StyledProps>`
   border-color: ${(props: StyledProps) => props.isSelected ? theme.colors.primary : theme.colors.border};
   align-items: center;
   justify-content: center;
+  opacity: ${(props: StyledProps) => props.isDisabled ? 0.4 : 1};
 `;
 
 const TimeText = styled.Text<StyledProps>`
   font-size: 12px;
   font-weight: 500;
   color: ${(props: StyledProps) => props.isSelected ? theme.colors.primary : theme.colors.text};
+  text-decoration-line: ${(props: StyledProps) => props.isDisabled ? 'line-through' : 'none'};
+`;
+
+const ClinicTimeText = styled.Text<StyledProps>`
+  font-size: 10px;
+  color: ${(props: StyledProps) => props.isSelected ? theme.colors.primary : theme.colors.text};
+  opacity: 0.7;
 `;
 
 export default TimeSlotList; 
\ No newline at end of file
@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input } from 'react-native-elements';
+import theme from '../styles/theme';
+import { CreateUserData, UpdateUserData, User, UserRole } from '../types/auth';
+import { Specialty } from '../types/specialties';
+import { specialtyService, findSpecialty } from '../services/specialties';
+import SpecialtyChips from './SpecialtyChips';
+
+interface UserFormModalProps {
+  visible: boolean;
+  // Sem usuário, o formulário cadastra um novo
+  user?: User | null;
+  onClose: () => void;
+  onSubmit: (data: CreateUserData | UpdateUserData) => Promise<void>;
+}
+
+const ROLE_OPTIONS: { value: UserRole; label: string }[] = [
+  { value: 'patient', label: 'Paciente' },
+  { value: 'doctor', label: 'Médico' },
+  { value: 'admin', label: 'Admin' },
+];
+
+const UserFormModal: React.FC<UserFormModalProps> = ({
+  visible,
+  user,
+  onClose,
+  onSubmit,
+}) => {
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('patient');
+  const [specialty, setSpecialty] = useState<string | null>(null);
+  const [crm, setCrm] = useState('');
+  const [catalog, setCatalog] = useState<Specialty[]>([]);
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isEditing = !!user;
+
+  useEffect(() => {
+    if (!visible) return;
+
+    setName(user?.name || '');
+    setEmail(user?.email || '');
+    setRole(user?.role || 'patient');
+    setSpecialty(null);
+    setCrm(user?.role === 'doctor' ? user.crm || '' : '');
+    setPassword('');
+    setError('');
+
+    specialtyService.getSpecialties().then((specialties) => {
+      setCatalog(specialties);
+      // Cadastros antigos guardam o nome da especialidade; o formulário trabalha com o código
+      if (user?.role === 'doctor') {
+        setSpecialty(findSpecialty(specialties, user.specialty)?.code || null);
+      }
+    });
+  }, [visible, user]);
+
+  const handleSubmit = async () => {
+    try {
+      setSaving(true);
+      setError('');
+
+      if (isEditing) {
+        await onSubmit({
+          name,
+          email,
+          ...(role === 'doctor' && { specialty: specialty || '', crm }),
+          ...(password && { password }),
+        });
+      } else {
+        await onSubmit({
+          name,
+          email,
+          password,
+          role,
+          ...(role === 'doctor' && { specialty: specialty || '', crm }),
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Não foi possível salvar o usuário');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>{isEditing ? 'Editar Usuário' : 'Novo Usuário'}</Title>
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            {/* O perfil só é escolhido no cadastro */}
+            {!isEditing && (
+              <>
+                <SectionTitle>Perfil</SectionTitle>
+                <RoleOptions>
+                  {ROLE_OPTIONS.map((option) => (
+                    <RoleOption
+                      key={option.value}
+                      selected={role === option.value}
+                      onPress={() => setRole(option.value)}
+                    >
+                      <RoleOptionText selected={role === option.value}>
+                        {option.label}
+                      </RoleOptionText>
+                    </RoleOption>
+                  ))}
+                </RoleOptions>
+              </>
+            )}
+
+            <Input
+              label="Nome"
+              value={name}
+              onChangeText={setName}
+              containerStyle={styles.input}
+            />
+            <Input
+              label="Email"
+              value={email}
+              onChangeText={setEmail}
+              autoCapitalize="none"
+              keyboardType="email-address"
+              containerStyle={styles.input}
+            />
+            {role === 'doctor' && (
+              <>
+                <SectionTitle>Especialidade</SectionTitle>
+                <SpecialtyChips
+                  specialties={catalog}
+                  selectedCode={specialty}
+                  onSelect={setSpecialty}
+                  style={styles.chips}
+                />
+                <Input
+                  label="CRM"
+                  placeholder="Ex.: 123456/SP"
+                  value={crm}
+                  onChangeText={setCrm}
+                  autoCapitalize="characters"
+                  containerStyle={styles.input}
+                />
+              </>
+            )}
+            <Input
+              label={isEditing ? 'Nova senha (opcional)' : 'Senha'}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              containerStyle={styles.input}
+            />
+
+            {error ? <ErrorText>{error}</ErrorText> : null}
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Cancelar"
+              onPress={onClose}
+              containerStyle={styles.cancelButton as ViewStyle}
+              buttonStyle={styles.cancelButtonStyle}
+            />
+            <Button
+              title="Salvar"
+              onPress={handleSubmit}
+              loading={saving}
+              containerStyle={styles.saveButton as ViewStyle}
+              buttonStyle={styles.saveButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  input: {
+    marginBottom: 5,
+  },
+  chips: {
+    marginBottom: 15,
+    paddingHorizontal: 10,
+  },
+  cancelButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  saveButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  cancelButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  saveButtonStyle: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const SectionTitle = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 8px;
+  margin-left: 10px;
+`;
+
+const RoleOptions = styled.View`
+  flex-direction: row;
+  margin-bottom: 15px;
+  padding: 0 10px;
+`;
+
+const RoleOption = styled.TouchableOpacity<{ selected: boolean }>`
+  flex: 1;
+  padding: 10px;
+  margin-right: 6px;
+  border-radius: 8px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+  align-items: center;
+`;
+
+const RoleOptionText = styled.Text<{ selected: boolean }>`
+  font-size: 14px;
+  font-weight: 500;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const ErrorText = styled.Text`
+  color: ${theme.colors.error};
+  text-align: center;
+  margin-top: 5px;
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default UserFormModal;
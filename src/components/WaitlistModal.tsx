@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, Modal, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input } from 'react-native-elements';
+import theme from '../styles/theme';
+import { waitlistService, DAY_PERIOD_LABELS } from '../services/waitlist';
+import { useAuth } from '../contexts/AuthContext';
+import { Doctor } from '../types/doctors';
+import { AppointmentModality } from '../types/appointments';
+import { APPOINTMENT_MODALITY_LABELS } from '../services/telemedicine';
+import { DayPeriod } from '../types/waitlist';
+import { formatDate, parseDisplayDate } from '../utils/date';
+
+interface WaitlistModalProps {
+  visible: boolean;
+  doctor: Doctor;
+  // Modalidade escolhida no agendamento; a vaga aceita é agendada nela
+  modality: AppointmentModality;
+  // Data sem horários livres, sugerida como período de interesse
+  initialDate?: string | null;
+  onClose: () => void;
+}
+
+const PERIOD_OPTIONS: DayPeriod[] = ['morning', 'afternoon', 'evening'];
+
+const WaitlistModal: React.FC<WaitlistModalProps> = ({
+  visible,
+  doctor,
+  modality,
+  initialDate,
+  onClose,
+}) => {
+  const { user } = useAuth();
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [periods, setPeriods] = useState<DayPeriod[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setStartDate(initialDate ? formatDate(initialDate) : '');
+      setEndDate(initialDate ? formatDate(initialDate) : '');
+      setPeriods([]);
+    }
+  }, [visible, initialDate]);
+
+  const togglePeriod = (period: DayPeriod) => {
+    setPeriods(periods.includes(period) ? periods.filter(p => p !== period) : [...periods, period]);
+  };
+
+  const handleJoin = async () => {
+    if (!user) return;
+
+    // As datas são opcionais, digitadas em DD/MM/AAAA e gravadas em ISO; o serviço recusa datas inválidas
+    const start = startDate.trim() ? parseDisplayDate(startDate) || startDate : undefined;
+    const end = endDate.trim() ? parseDisplayDate(endDate) || endDate : undefined;
+
+    try {
+      setSaving(true);
+      await waitlistService.joinWaitlist({
+        patientId: user.id,
+        patientName: user.name,
+        doctorId: doctor.id,
+        doctorName: doctor.name,
+        modality,
+        ...(start && { startDate: start }),
+        ...(end && { endDate: end }),
+        ...(periods.length > 0 && { preferredPeriods: periods }),
+      }, user);
+      Alert.alert('Sucesso', 'Você entrou na lista de espera. Avisaremos quando um horário for liberado.');
+      onClose();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível entrar na lista de espera');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Overlay>
+        <ModalContainer>
+          <Header>
+            <Title>Lista de Espera</Title>
+          </Header>
+
+          <ScrollView contentContainerStyle={styles.content}>
+            <InfoText>
+              Quando uma consulta com {doctor.name} for cancelada, o horário será oferecido aos
+              pacientes da lista, por ordem de inscrição. Consulta {APPOINTMENT_MODALITY_LABELS[modality].toLowerCase()}.
+            </InfoText>
+
+            <SectionTitle>Datas de interesse (opcional)</SectionTitle>
+            <Input
+              label="De"
+              placeholder="DD/MM/AAAA"
+              value={startDate}
+              onChangeText={setStartDate}
+              keyboardType="numeric"
+              maxLength={10}
+              containerStyle={styles.input}
+            />
+            <Input
+              label="Até"
+              placeholder="DD/MM/AAAA"
+              value={endDate}
+              onChangeText={setEndDate}
+              keyboardType="numeric"
+              maxLength={10}
+              containerStyle={styles.input}
+            />
+
+            <SectionTitle>Períodos preferidos (opcional)</SectionTitle>
+            <PeriodOptions>
+              {PERIOD_OPTIONS.map((period) => {
+                const selected = periods.includes(period);
+                return (
+                  <PeriodOption key={period} selected={selected} onPress={() => togglePeriod(period)}>
+                    <PeriodOptionText selected={selected}>{DAY_PERIOD_LABELS[period]}</PeriodOptionText>
+                  </PeriodOption>
+                );
+              })}
+            </PeriodOptions>
+          </ScrollView>
+
+          <ButtonContainer>
+            <Button
+              title="Fechar"
+              onPress={onClose}
+              containerStyle={styles.closeButton as ViewStyle}
+              buttonStyle={styles.closeButtonStyle}
+            />
+            <Button
+              title="Entrar na Lista"
+              onPress={handleJoin}
+              loading={saving}
+              containerStyle={styles.joinButton as ViewStyle}
+              buttonStyle={styles.joinButtonStyle}
+            />
+          </ButtonContainer>
+        </ModalContainer>
+      </Overlay>
+    </Modal>
+  );
+};
+
+const styles = {
+  content: {
+    padding: 20,
+  },
+  input: {
+    marginBottom: 5,
+  },
+  closeButton: {
+    flex: 1,
+    marginRight: 8,
+  },
+  joinButton: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  closeButtonStyle: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  joinButtonStyle: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+};
+
+const Overlay = styled.View`
+  flex: 1;
+  background-color: rgba(0, 0, 0, 0.5);
+  justify-content: center;
+  align-items: center;
+  padding: 20px;
+`;
+
+const ModalContainer = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 12px;
+  width: 100%;
+  max-width: 400px;
+  max-height: 90%;
+  shadow-color: ${theme.colors.text};
+  shadow-offset: 0px 4px;
+  shadow-opacity: 0.25;
+  shadow-radius: 4px;
+  elevation: 5;
+`;
+
+const Header = styled.View`
+  padding: 20px 20px 10px 20px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const Title = styled.Text`
+  font-size: 20px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  text-align: center;
+`;
+
+const InfoText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  opacity: 0.8;
+`;
+
+const SectionTitle = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-top: 16px;
+  margin-bottom: 8px;
+`;
+
+const PeriodOptions = styled.View`
+  flex-direction: row;
+`;
+
+const PeriodOption = styled.TouchableOpacity<{ selected: boolean }>`
+  flex: 1;
+  padding: 8px;
+  margin-right: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+  align-items: center;
+`;
+
+const PeriodOptionText = styled.Text<{ selected: boolean }>`
+  font-size: 14px;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const ButtonContainer = styled.View`
+  flex-direction: row;
+  padding: 20px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+export default WaitlistModal;
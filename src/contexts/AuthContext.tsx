@@ -1,6 +1,8 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { AppState } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { authService } from '../services/auth';
+import { sessionService, REFRESH_THRESHOLD_SECONDS } from '../services/session';
 import { User, LoginCredentials, RegisterData, AuthContextData } from '../types/auth';
 
 // Chaves de armazenamento
@@ -9,22 +11,88 @@ const STORAGE_KEYS = {
   TOKEN: '@MedicalApp:token',
 };
 
+// Intervalo entre verificações da sessão enquanto o usuário está logado
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
 const AuthContext = createContext<AuthContextData>({} as AuthContextData);
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
   useEffect(() => {
     loadStoredUser();
     loadRegisteredUsers();
   }, []);
 
+  // Encerra a sessão expirada e avisa o usuário na tela de login
+  const expireSession = useCallback(async () => {
+    await authService.signOut();
+    setUser(null);
+    setSessionExpired(true);
+  }, []);
+
+  // Verifica o token salvo, renovando-o quando estiver perto de expirar e o app estiver em uso
+  const checkSession = useCallback(async () => {
+    try {
+      const token = await AsyncStorage.getItem(STORAGE_KEYS.TOKEN);
+      const payload = await sessionService.verifyToken(token);
+      if (!payload) {
+        await expireSession();
+        return;
+      }
+
+      if (
+        AppState.currentState === 'active' &&
+        sessionService.getSecondsUntilExpiry(payload) < REFRESH_THRESHOLD_SECONDS
+      ) {
+        // A renovação é recusada quando o usuário foi desativado ou excluído
+        const refreshedToken = await sessionService.refreshToken(token);
+        if (!refreshedToken) {
+          await expireSession();
+          return;
+        }
+        await AsyncStorage.setItem(STORAGE_KEYS.TOKEN, refreshedToken);
+      }
+    } catch (error) {
+      console.error('Erro ao verificar sessão:', error);
+    }
+  }, [expireSession]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL_MS);
+    // Ao voltar para o app, a sessão pode ter expirado enquanto estava em segundo plano
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        checkSession();
+      }
+    });
+
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [user, checkSession]);
+
   const loadStoredUser = async () => {
     try {
       const storedUser = await authService.getStoredUser();
       if (storedUser) {
-        setUser(storedUser);
+        const token = await AsyncStorage.getItem(STORAGE_KEYS.TOKEN);
+        const payload = await sessionService.verifyToken(token);
+        // O perfil vem do cadastro, pelo ID assinado no token; a cópia salva no dispositivo pode ter sido alterada
+        const registeredUser = payload && payload.sub === storedUser.id
+          ? await authService.getUserById(payload.sub)
+          : null;
+        if (registeredUser && registeredUser.active !== false && registeredUser.role === payload?.role) {
+          setUser(registeredUser);
+          await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(registeredUser));
+        } else {
+          await expireSession();
+        }
       }
     } catch (error) {
       console.error('Erro ao carregar usuário:', error);
@@ -44,6 +112,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const signIn = async (credentials: LoginCredentials) => {
     try {
       const response = await authService.signIn(credentials);
+      setSessionExpired(false);
       setUser(response.user);
       await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(response.user));
       await AsyncStorage.setItem(STORAGE_KEYS.TOKEN, response.token);
@@ -55,6 +124,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const register = async (data: RegisterData) => {
     try {
       const response = await authService.register(data);
+      setSessionExpired(false);
       setUser(response.user);
       await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(response.user));
       await AsyncStorage.setItem(STORAGE_KEYS.TOKEN, response.token);
@@ -85,7 +155,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, register, signOut, updateUser }}>
+    <AuthContext.Provider value={{ user, loading, sessionExpired, signIn, register, signOut, updateUser }}>
       {children}
     </AuthContext.Provider>
   );
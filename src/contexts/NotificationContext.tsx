@@ -0,0 +1,68 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useAuth } from './AuthContext';
+import { notificationService, Notification } from '../services/notifications';
+
+/**
+ * Notificações do usuário logado, mantidas em sincronia com o notificationService
+ * @property notifications - Notificações do usuário, da mais recente para a mais antiga
+ * @property unreadCount - Quantidade de notificações não lidas
+ * @property loading - Indica se a primeira leitura ainda não terminou
+ */
+type NotificationContextData = {
+  notifications: Notification[];
+  unreadCount: number;
+  loading: boolean;
+  markAsRead: (notificationId: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  deleteNotification: (notificationId: string) => Promise<void>;
+};
+
+const NotificationContext = createContext<NotificationContextData>({} as NotificationContextData);
+
+export const NotificationProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Recebe a lista atual e cada mudança feita pelo serviço, sem consultar o armazenamento de novo
+  useEffect(() => {
+    setNotifications([]);
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    return notificationService.subscribe(user.id, (userNotifications) => {
+      setNotifications(userNotifications);
+      setLoading(false);
+    });
+  }, [user?.id]);
+
+  const markAsRead = (notificationId: string) => notificationService.markAsRead(notificationId);
+
+  const markAllAsRead = async () => {
+    if (!user) return;
+    await notificationService.markAllAsRead(user.id);
+  };
+
+  const deleteNotification = (notificationId: string) => notificationService.deleteNotification(notificationId);
+
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  return (
+    <NotificationContext.Provider
+      value={{ notifications, unreadCount, loading, markAsRead, markAllAsRead, deleteNotification }}
+    >
+      {children}
+    </NotificationContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
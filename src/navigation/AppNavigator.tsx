@@ -1,14 +1,20 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { useAuth } from '../contexts/AuthContext';
 import { RootStackParamList } from '../types/navigation';
+import { canAccessRoute } from '../utils/permissions';
+import { navigationRef, openAppointment, openPendingAppointment } from './navigationRef';
+import { pushNotificationService } from '../services/pushNotifications';
 
 // Screens
 import LoginScreen from '../screens/LoginScreen';
 import RegisterScreen from '../screens/RegisterScreen';
 import HomeScreen from '../screens/HomeScreen';
 import CreateAppointmentScreen from '../screens/CreateAppointmentScreen';
+import AppointmentDetailsScreen from '../screens/AppointmentDetailsScreen';
+import ClinicalNoteScreen from '../screens/ClinicalNoteScreen';
+import PrescriptionsScreen from '../screens/PrescriptionsScreen';
 import ProfileScreen from '../screens/ProfileScreen';
 import EditProfileScreen from '../screens/EditProfileScreen';
 import AdminDashboardScreen from '../screens/AdminDashboardScreen';
@@ -16,18 +22,51 @@ import DoctorDashboardScreen from '../screens/DoctorDashboardScreen';
 import PatientDashboardScreen from '../screens/PatientDashboardScreen';
 import NotificationsScreen from '../screens/NotificationsScreen';
 import SettingsScreen from '../screens/SettingsScreen';
+import UserManagementScreen from '../screens/UserManagementScreen';
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+// Telas autenticadas, na ordem de registro; o painel do perfil vem primeiro e vira a tela inicial
+const PROTECTED_ROUTES: {
+  name: keyof RootStackParamList;
+  component: React.ComponentType<any>;
+  title: string;
+}[] = [
+  { name: 'AdminDashboard', component: AdminDashboardScreen, title: 'Painel Administrativo' },
+  { name: 'DoctorDashboard', component: DoctorDashboardScreen, title: 'Painel do Médico' },
+  { name: 'PatientDashboard', component: PatientDashboardScreen, title: 'Painel do Paciente' },
+  { name: 'UserManagement', component: UserManagementScreen, title: 'Gerenciar Usuários' },
+  { name: 'Home', component: HomeScreen, title: 'Início' },
+  { name: 'CreateAppointment', component: CreateAppointmentScreen, title: 'Agendar Consulta' },
+  { name: 'AppointmentDetails', component: AppointmentDetailsScreen, title: 'Detalhes da Consulta' },
+  { name: 'ClinicalNote', component: ClinicalNoteScreen, title: 'Prontuário' },
+  { name: 'Prescriptions', component: PrescriptionsScreen, title: 'Minhas Receitas' },
+  { name: 'Profile', component: ProfileScreen, title: 'Perfil' },
+  { name: 'EditProfile', component: EditProfileScreen, title: 'Editar Perfil' },
+  { name: 'Notifications', component: NotificationsScreen, title: 'Notificações' },
+  { name: 'Settings', component: SettingsScreen, title: 'Configurações' },
+];
+
 export const AppNavigator: React.FC = () => {
   const { user, loading } = useAuth();
 
+  // Tocar em uma notificação do aparelho abre a consulta relacionada; na abertura do app,
+  // a navegação ainda não está montada e a consulta é aberta em onReady
+  useEffect(() => {
+    if (!user) return;
+    return pushNotificationService.onNotificationOpened(({ appointmentId }) => {
+      if (appointmentId) {
+        openAppointment(appointmentId);
+      }
+    });
+  }, [user]);
+
   if (loading) {
     return null; // Ou um componente de loading
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef} onReady={openPendingAppointment}>
       <Stack.Navigator
         screenOptions={{
           headerShown: false,
@@ -40,63 +79,18 @@ export const AppNavigator: React.FC = () => {
             <Stack.Screen name="Register" component={RegisterScreen} />
           </>
         ) : (
-          // Rotas protegidas
+          // Rotas protegidas: cada perfil só registra as telas que pode acessar
           <>
-            {user.role === 'admin' && (
-              <Stack.Screen 
-                name="AdminDashboard" 
-                component={AdminDashboardScreen}
-                options={{ title: 'Painel Administrativo' }}
-              />
-            )}
-            
-            {user.role === 'doctor' && (
-              <Stack.Screen 
-                name="DoctorDashboard" 
-                component={DoctorDashboardScreen}
-                options={{ title: 'Painel do Médico' }}
-              />
-            )}
-            
-            {user.role === 'patient' && (
-              <Stack.Screen 
-                name="PatientDashboard" 
-                component={PatientDashboardScreen}
-                options={{ title: 'Painel do Paciente' }}
-              />
-            )}
-
-            {/* Rotas comuns para todos os usuários autenticados */}
-            <Stack.Screen 
-              name="Home" 
-              component={HomeScreen}
-              options={{ title: 'Início' }}
-            />
-            <Stack.Screen 
-              name="CreateAppointment" 
-              component={CreateAppointmentScreen}
-              options={{ title: 'Agendar Consulta' }}
-            />
-            <Stack.Screen 
-              name="Profile" 
-              component={ProfileScreen}
-              options={{ title: 'Perfil' }}
-            />
-            <Stack.Screen 
-              name="EditProfile" 
-              component={EditProfileScreen}
-              options={{ title: 'Editar Perfil' }}
-            />
-            <Stack.Screen 
-              name="Notifications" 
-              component={NotificationsScreen}
-              options={{ title: 'Notificações' }}
-            />
-            <Stack.Screen 
-              name="Settings" 
-              component={SettingsScreen}
-              options={{ title: 'Configurações' }}
-            />
+            {PROTECTED_ROUTES
+              .filter((route) => canAccessRoute(user, route.name))
+              .map((route) => (
+                <Stack.Screen
+                  key={route.name}
+                  name={route.name}
+                  component={route.component}
+                  options={{ title: route.title }}
+                />
+              ))}
           </>
         )}
       </Stack.Navigator>
@@ -0,0 +1,25 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import { RootStackParamList } from '../types/navigation';
+
+// Permite navegar fora das telas, como ao tocar em uma notificação do aparelho
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
+// Consulta tocada antes de a navegação montar, como ao abrir o app pela notificação
+let pendingAppointmentId: string | null = null;
+
+// Abre os detalhes da consulta informada; se a navegação ainda não estiver pronta, guarda para depois
+export const openAppointment = (appointmentId: string) => {
+  if (!navigationRef.isReady()) {
+    pendingAppointmentId = appointmentId;
+    return;
+  }
+  navigationRef.navigate('AppointmentDetails', { appointmentId });
+};
+
+// Chamado quando a navegação fica pronta, para abrir a consulta guardada
+export const openPendingAppointment = () => {
+  if (!pendingAppointmentId) return;
+  const appointmentId = pendingAppointmentId;
+  pendingAppointmentId = null;
+  openAppointment(appointmentId);
+};
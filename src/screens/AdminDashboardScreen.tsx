@@ -10,24 +10,21 @@ import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme';
 import Header from '../components/Header';
 import StatisticsCard from '../components/StatisticsCard';
+import BlockedPeriodsModal from '../components/BlockedPeriodsModal';
+import SpecialtyCatalogModal from '../components/SpecialtyCatalogModal';
+import ClinicUnitsModal from '../components/ClinicUnitsModal';
+import RoomOccupancyModal from '../components/RoomOccupancyModal';
 import { statisticsService, Statistics } from '../services/statistics';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appointmentService } from '../services/appointments';
+import { Appointment } from '../types/appointments';
+import { getStatusColor, getStatusText } from '../utils/appointmentStatus';
+import { formatClinicDateTime } from '../utils/timezone';
+import { authService } from '../services/auth';
 
 type AdminDashboardScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'AdminDashboard'>;
 };
 
-interface Appointment {
-  id: string;
-  patientId: string;
-  doctorId: string;
-  doctorName: string;
-  date: string;
-  time: string;
-  specialty: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
-}
-
 interface User {
   id: string;
   name: string;
@@ -39,28 +36,6 @@ interface StyledProps {
   status: string;
 }
 
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case 'confirmed':
-      return theme.colors.success;
-    case 'cancelled':
-      return theme.colors.error;
-    default:
-      return theme.colors.warning;
-  }
-};
-
-const getStatusText = (status: string) => {
-  switch (status) {
-    case 'confirmed':
-      return 'Confirmada';
-    case 'cancelled':
-      return 'Cancelada';
-    default:
-      return 'Pendente';
-  }
-};
-
 const AdminDashboardScreen: React.FC = () => {
   const { user, signOut } = useAuth();
   const navigation = useNavigation<AdminDashboardScreenProps['navigation']>();
@@ -68,22 +43,20 @@ const AdminDashboardScreen: React.FC = () => {
   const [users, setUsers] = useState<User[]>([]);
   const [statistics, setStatistics] = useState<Statistics | null>(null);
   const [loading, setLoading] = useState(true);
+  const [holidaysModalVisible, setHolidaysModalVisible] = useState(false);
+  const [specialtiesModalVisible, setSpecialtiesModalVisible] = useState(false);
+  const [unitsModalVisible, setUnitsModalVisible] = useState(false);
+  const [occupancyModalVisible, setOccupancyModalVisible] = useState(false);
 
   const loadData = async () => {
     try {
       // Carrega consultas
-      const storedAppointments = await AsyncStorage.getItem('@MedicalApp:appointments');
-      if (storedAppointments) {
-        const allAppointments: Appointment[] = JSON.parse(storedAppointments);
-        setAppointments(allAppointments);
-      }
+      const allAppointments = await appointmentService.getAllAppointments();
+      setAppointments(allAppointments);
 
       // Carrega usuários
-      const storedUsers = await AsyncStorage.getItem('@MedicalApp:users');
-      if (storedUsers) {
-        const allUsers: User[] = JSON.parse(storedUsers);
-        setUsers(allUsers);
-      }
+      const allUsers = await authService.getAllUsers();
+      setUsers(allUsers);
 
       // Carrega estatísticas
       const stats = await statisticsService.getGeneralStatistics();
@@ -103,19 +76,16 @@ const AdminDashboardScreen: React.FC = () => {
   );
 
   const handleUpdateStatus = async (appointmentId: string, newStatus: 'confirmed' | 'cancelled') => {
+    if (!user) return;
+
     try {
-      const storedAppointments = await AsyncStorage.getItem('@MedicalApp:appointments');
-      if (storedAppointments) {
-        const allAppointments: Appointment[] = JSON.parse(storedAppointments);
-        const updatedAppointments = allAppointments.map(appointment => {
-          if (appointment.id === appointmentId) {
-            return { ...appointment, status: newStatus };
-          }
-          return appointment;
-        });
-        await AsyncStorage.setItem('@MedicalApp:appointments', JSON.stringify(updatedAppointments));
-        loadData(); // Recarrega os dados
+      // O serviço atualiza o status e notifica o paciente
+      if (newStatus === 'confirmed') {
+        await appointmentService.confirmAppointment(appointmentId, user);
+      } else {
+        await appointmentService.cancelAppointment(appointmentId, user);
       }
+      loadData(); // Recarrega os dados
     } catch (error) {
       console.error('Erro ao atualizar status:', error);
     }
@@ -134,6 +104,34 @@ const AdminDashboardScreen: React.FC = () => {
           buttonStyle={styles.buttonStyle}
         />
 
+        <Button
+          title="Feriados da Clínica"
+          onPress={() => setHolidaysModalVisible(true)}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.buttonStyle}
+        />
+
+        <Button
+          title="Especialidades"
+          onPress={() => setSpecialtiesModalVisible(true)}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.buttonStyle}
+        />
+
+        <Button
+          title="Unidades e Consultórios"
+          onPress={() => setUnitsModalVisible(true)}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.buttonStyle}
+        />
+
+        <Button
+          title="Ocupação dos Consultórios"
+          onPress={() => setOccupancyModalVisible(true)}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.buttonStyle}
+        />
+
         <Button
           title="Meu Perfil"
           onPress={() => navigation.navigate('Profile')}
@@ -203,7 +201,7 @@ const AdminDashboardScreen: React.FC = () => {
                   {appointment.specialty}
                 </ListItem.Subtitle>
                 <Text style={styles.dateTime as TextStyle}>
-                  {appointment.date} às {appointment.time}
+                  {formatClinicDateTime(appointment)}
                 </Text>
                 <StatusBadge status={appointment.status}>
                   <StatusText status={appointment.status}>
@@ -237,6 +235,29 @@ const AdminDashboardScreen: React.FC = () => {
           containerStyle={styles.button as ViewStyle}
           buttonStyle={styles.logoutButton}
         />
+
+        <BlockedPeriodsModal
+          visible={holidaysModalVisible}
+          onClose={() => setHolidaysModalVisible(false)}
+        />
+
+        <SpecialtyCatalogModal
+          visible={specialtiesModalVisible}
+          onClose={() => {
+            setSpecialtiesModalVisible(false);
+            loadData();
+          }}
+        />
+
+        <ClinicUnitsModal
+          visible={unitsModalVisible}
+          onClose={() => setUnitsModalVisible(false)}
+        />
+
+        <RoomOccupancyModal
+          visible={occupancyModalVisible}
+          onClose={() => setOccupancyModalVisible(false)}
+        />
       </ScrollView>
     </Container>
   );
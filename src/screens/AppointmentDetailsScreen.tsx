@@ -0,0 +1,509 @@
+import React, { useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, Linking, ScrollView, ViewStyle } from 'react-native';
+import { Avatar, Button } from 'react-native-elements';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { RootStackParamList } from '../types/navigation';
+import { Appointment, SeriesScope } from '../types/appointments';
+import { Doctor } from '../types/doctors';
+import { ClinicUnit } from '../types/clinics';
+import { Prescription } from '../types/prescriptions';
+import { UserRole } from '../types/auth';
+import theme from '../styles/theme';
+import Header from '../components/Header';
+import AppointmentActionModal, { RescheduleSelection } from '../components/AppointmentActionModal';
+import { appointmentService, RESCHEDULABLE_STATUSES } from '../services/appointments';
+import { appointmentSeriesService } from '../services/appointmentSeries';
+import { doctorService } from '../services/doctors';
+import { calendarService } from '../services/calendar';
+import { clinicService, getLocationName } from '../services/clinics';
+import { prescriptionService } from '../services/prescriptions';
+import { APPOINTMENT_MODALITY_LABELS, telemedicineService } from '../services/telemedicine';
+import { can } from '../utils/permissions';
+import { canTransition, getStatusColor, getStatusText } from '../utils/appointmentStatus';
+import { formatDate } from '../utils/date';
+import { formatClinicDateTime, formatInstant } from '../utils/timezone';
+
+type AppointmentDetailsScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'AppointmentDetails'>;
+};
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'administrador',
+  doctor: 'médico',
+  patient: 'paciente',
+};
+
+interface HistoryItem {
+  changedAt: string;
+  text: string;
+  changedByRole: UserRole;
+  reason?: string;
+}
+
+// Junta as mudanças de status e as remarcações em uma linha do tempo, da mais antiga para a mais recente
+const getHistory = (appointment: Appointment): HistoryItem[] => {
+  const statusItems = (appointment.statusHistory || []).map((change, index) => ({
+    changedAt: change.changedAt,
+    text: index === 0 && change.status === 'pending' ? 'Agendada' : getStatusText(change.status),
+    changedByRole: change.changedByRole,
+  }));
+  const rescheduleItems = (appointment.history || []).map(change => ({
+    changedAt: change.changedAt,
+    text: `Remarcada de ${formatDate(change.previousDate)} às ${change.previousTime} para ${formatDate(change.newDate)} às ${change.newTime}`,
+    changedByRole: change.changedByRole,
+    reason: change.reason,
+  }));
+
+  return [...statusItems, ...rescheduleItems].sort((a, b) => a.changedAt.localeCompare(b.changedAt));
+};
+
+const AppointmentDetailsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation<AppointmentDetailsScreenProps['navigation']>();
+  const { appointmentId } = useRoute<RouteProp<RootStackParamList, 'AppointmentDetails'>>().params;
+  const [appointment, setAppointment] = useState<Appointment | null>(null);
+  const [doctor, setDoctor] = useState<Doctor | null>(null);
+  const [unit, setUnit] = useState<ClinicUnit | null>(null);
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionType, setActionType] = useState<'cancel' | 'reschedule' | null>(null);
+
+  const loadAppointment = async () => {
+    try {
+      // Só as partes da consulta e o admin podem vê-la
+      const found = await appointmentService.getAppointmentById(appointmentId);
+      const visible = found && can(user, 'appointment:view', found) ? found : null;
+      setAppointment(visible);
+      setDoctor(visible ? await doctorService.getDoctorById(visible.doctorId) : null);
+      setUnit(visible?.unitId ? await clinicService.getUnit(visible.unitId) : null);
+      setPrescriptions(visible && user ? await prescriptionService.getPrescriptionsByAppointment(visible.id, user) : []);
+    } catch (error) {
+      console.error('Erro ao carregar consulta:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadAppointment();
+    }, [appointmentId])
+  );
+
+  const handleAction = async (reason?: string, newSlot?: RescheduleSelection, scope?: SeriesScope) => {
+    if (!appointment || !user) return;
+
+    try {
+      // Os serviços avisam a outra parte e oferecem os horários liberados à lista de espera
+      if (actionType === 'cancel') {
+        if (scope === 'future') {
+          await appointmentService.cancelFutureOccurrences(appointment.id, user, reason);
+        } else {
+          await appointmentService.cancelAppointment(appointment.id, user, reason);
+        }
+      } else if (actionType === 'reschedule' && newSlot) {
+        if (scope === 'future') {
+          await appointmentSeriesService.rescheduleFutureOccurrences(
+            appointment.id,
+            newSlot.date,
+            newSlot.time,
+            user,
+            reason
+          );
+        } else {
+          await appointmentService.rescheduleAppointment(appointment.id, newSlot.date, newSlot.time, user, reason);
+        }
+      }
+      loadAppointment();
+    } catch (error) {
+      console.error('Erro ao atualizar consulta:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível atualizar a consulta');
+    }
+  };
+
+  const handleJoinWaitingRoom = async () => {
+    if (!appointment || !user) return;
+
+    try {
+      // O serviço avisa o médico de que o paciente está aguardando
+      await appointmentService.joinWaitingRoom(appointment.id, user);
+      loadAppointment();
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível entrar na sala de espera');
+    }
+  };
+
+  const handleOpenMeetingRoom = async () => {
+    if (!appointment?.meetingRoom) return;
+
+    try {
+      await Linking.openURL(appointment.meetingRoom.joinUrl);
+    } catch (error) {
+      console.error('Erro ao abrir sala virtual:', error);
+      Alert.alert('Erro', 'Não foi possível abrir a sala virtual');
+    }
+  };
+
+  const handleSharePrescription = async (prescription: Prescription) => {
+    try {
+      await prescriptionService.sharePrescription(prescription);
+    } catch (error) {
+      console.error('Erro ao compartilhar receita:', error);
+      Alert.alert('Erro', 'Não foi possível gerar o PDF da receita');
+    }
+  };
+
+  const handleAddToCalendar = async () => {
+    if (!appointment) return;
+
+    try {
+      await calendarService.addAppointmentToCalendar(appointment);
+    } catch (error) {
+      console.error('Erro ao adicionar consulta ao calendário:', error);
+      Alert.alert('Erro', 'Não foi possível adicionar a consulta ao calendário');
+    }
+  };
+
+  if (loading || !appointment) {
+    return (
+      <Container>
+        <Header />
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <EmptyText>{loading ? 'Carregando consulta...' : 'Consulta não encontrada'}</EmptyText>
+          <Button
+            title="Voltar"
+            onPress={() => navigation.goBack()}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.backButton}
+          />
+        </ScrollView>
+      </Container>
+    );
+  }
+
+  const isUpcoming = RESCHEDULABLE_STATUSES.includes(appointment.status) &&
+    new Date(appointment.startsAt).getTime() > Date.now();
+  const canCancel = can(user, 'appointment:cancel', appointment) && canTransition(appointment.status, 'cancelled');
+  const canReschedule = can(user, 'appointment:reschedule', appointment) &&
+    RESCHEDULABLE_STATUSES.includes(appointment.status);
+  const history = getHistory(appointment);
+  const canJoinWaitingRoom = can(user, 'appointment:join_waiting_room', appointment) &&
+    telemedicineService.canJoinWaitingRoom(appointment);
+  // O link da sala fica disponível a partir da sala de espera até o fim do atendimento
+  const canOpenMeetingRoom = !!appointment.meetingRoom &&
+    (appointment.status === 'waiting_room' || appointment.status === 'in_progress');
+  // O prontuário é do médico da consulta
+  const canOpenClinicalNote = (appointment.status === 'in_progress' || appointment.status === 'completed') &&
+    can(user, 'clinical_note:write', appointment);
+
+  return (
+    <Container>
+      <Header />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Title>Detalhes da Consulta</Title>
+
+        <Section>
+          <DoctorInfo>
+            <Avatar
+              size="large"
+              rounded
+              source={{ uri: doctor?.image || 'https://via.placeholder.com/100' }}
+              containerStyle={styles.avatar}
+            />
+            <DoctorText>
+              <DoctorName>{appointment.doctorName}</DoctorName>
+              <InfoText>{appointment.specialty}</InfoText>
+              {doctor?.email ? <InfoText>{doctor.email}</InfoText> : null}
+            </DoctorText>
+          </DoctorInfo>
+        </Section>
+
+        <Section>
+          <SectionTitle>Consulta</SectionTitle>
+          <InfoText>Paciente: {appointment.patientName}</InfoText>
+          <InfoText>{formatClinicDateTime(appointment)}</InfoText>
+          <InfoText>Modalidade: {APPOINTMENT_MODALITY_LABELS[appointment.modality]}</InfoText>
+          {unit ? (
+            <>
+              <InfoText>Local: {getLocationName([unit], appointment)}</InfoText>
+              <InfoText>{unit.address}</InfoText>
+            </>
+          ) : null}
+          {appointment.meetingRoom ? <InfoText>Sala virtual: {appointment.meetingRoom.joinUrl}</InfoText> : null}
+          {appointment.description ? <InfoText>Motivo: {appointment.description}</InfoText> : null}
+          {appointment.seriesId ? <InfoText>Consulta de uma série recorrente</InfoText> : null}
+          <StatusBadge color={getStatusColor(appointment.status)}>
+            <StatusText color={getStatusColor(appointment.status)}>
+              {getStatusText(appointment.status)}
+            </StatusText>
+          </StatusBadge>
+          {appointment.status === 'cancelled' && (
+            <CancelReason>
+              Motivo do cancelamento: {appointment.cancelReason || 'não informado'}
+            </CancelReason>
+          )}
+        </Section>
+
+        <Section>
+          <SectionTitle>Histórico</SectionTitle>
+          {history.length === 0 ? (
+            <InfoText>Nenhuma alteração registrada</InfoText>
+          ) : (
+            history.map((item, index) => (
+              <HistoryRow key={`${item.changedAt}-${index}`}>
+                <HistoryText>{item.text}</HistoryText>
+                <HistoryMeta>
+                  {formatInstant(item.changedAt)} · por {ROLE_LABELS[item.changedByRole]}
+                </HistoryMeta>
+                {item.reason ? <HistoryMeta>Motivo: {item.reason}</HistoryMeta> : null}
+              </HistoryRow>
+            ))
+          )}
+        </Section>
+
+        {prescriptions.length > 0 && (
+          <Section>
+            <SectionTitle>Receitas</SectionTitle>
+            {prescriptions.map((prescription) => (
+              <HistoryRow key={prescription.id}>
+                <HistoryText>{prescription.items.map(item => item.medication).join(', ')}</HistoryText>
+                <HistoryMeta>Emitida em {formatInstant(prescription.issuedAt)}</HistoryMeta>
+                <Button
+                  title="Compartilhar PDF"
+                  type="clear"
+                  onPress={() => handleSharePrescription(prescription)}
+                  titleStyle={styles.shareTitle}
+                  containerStyle={styles.shareButton as ViewStyle}
+                />
+              </HistoryRow>
+            ))}
+          </Section>
+        )}
+
+        {canJoinWaitingRoom && (
+          <Button
+            title="Entrar na Sala de Espera"
+            onPress={handleJoinWaitingRoom}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.meetingButton}
+          />
+        )}
+
+        {canOpenMeetingRoom && (
+          <Button
+            title="Abrir Sala Virtual"
+            onPress={handleOpenMeetingRoom}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.meetingButton}
+          />
+        )}
+
+        {canOpenClinicalNote && (
+          <Button
+            title="Prontuário"
+            onPress={() => navigation.navigate('ClinicalNote', { appointmentId: appointment.id })}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.meetingButton}
+          />
+        )}
+
+        {isUpcoming && (
+          <Button
+            title="Adicionar ao Calendário"
+            onPress={handleAddToCalendar}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.calendarButton}
+          />
+        )}
+
+        {canReschedule && (
+          <Button
+            title="Remarcar"
+            onPress={() => setActionType('reschedule')}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.rescheduleButton}
+          />
+        )}
+
+        {canCancel && (
+          <Button
+            title="Cancelar Consulta"
+            onPress={() => setActionType('cancel')}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.cancelButton}
+          />
+        )}
+
+        <Button
+          title="Voltar"
+          onPress={() => navigation.goBack()}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.backButton}
+        />
+
+        {actionType && (
+          <AppointmentActionModal
+            visible={!!actionType}
+            onClose={() => setActionType(null)}
+            onConfirm={handleAction}
+            actionType={actionType}
+            isSeriesOccurrence={!!appointment.seriesId}
+            appointmentDetails={{
+              doctorId: appointment.doctorId,
+              patientName: appointment.patientName,
+              doctorName: appointment.doctorName,
+              date: appointment.date,
+              time: appointment.time,
+              startsAt: appointment.startsAt,
+              timeZone: appointment.timeZone,
+              specialty: appointment.specialty,
+            }}
+          />
+        )}
+      </ScrollView>
+    </Container>
+  );
+};
+
+const styles = {
+  scrollContent: {
+    padding: 20,
+  },
+  avatar: {
+    backgroundColor: theme.colors.primary,
+  },
+  button: {
+    marginBottom: 15,
+    width: '100%',
+  },
+  meetingButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+  calendarButton: {
+    backgroundColor: theme.colors.success,
+    paddingVertical: 12,
+  },
+  rescheduleButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+  cancelButton: {
+    backgroundColor: theme.colors.error,
+    paddingVertical: 12,
+  },
+  backButton: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+  shareButton: {
+    alignSelf: 'flex-start',
+  },
+  shareTitle: {
+    color: theme.colors.primary,
+    fontSize: 14,
+  },
+};
+
+const Container = styled.View`
+  flex: 1;
+  background-color: ${theme.colors.background};
+`;
+
+const Title = styled.Text`
+  font-size: 24px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 20px;
+  text-align: center;
+`;
+
+const Section = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 8px;
+  border-width: 1px;
+  border-color: ${theme.colors.border};
+  padding: 15px;
+  margin-bottom: 15px;
+`;
+
+const SectionTitle = styled.Text`
+  font-size: 18px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 10px;
+`;
+
+const DoctorInfo = styled.View`
+  flex-direction: row;
+  align-items: center;
+`;
+
+const DoctorText = styled.View`
+  flex: 1;
+  margin-left: 15px;
+`;
+
+const DoctorName = styled.Text`
+  font-size: 18px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+`;
+
+const InfoText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  margin-top: 4px;
+`;
+
+const StatusBadge = styled.View<{ color: string }>`
+  background-color: ${(props: { color: string }) => props.color + '20'};
+  padding: 4px 8px;
+  border-radius: 4px;
+  align-self: flex-start;
+  margin-top: 8px;
+`;
+
+const StatusText = styled.Text<{ color: string }>`
+  color: ${(props: { color: string }) => props.color};
+  font-size: 12px;
+  font-weight: 500;
+`;
+
+const CancelReason = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.error};
+  margin-top: 8px;
+`;
+
+const HistoryRow = styled.View`
+  padding-vertical: 8px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const HistoryText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  font-weight: 500;
+`;
+
+const HistoryMeta = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  margin-top: 2px;
+`;
+
+const EmptyText = styled.Text`
+  text-align: center;
+  color: ${theme.colors.text};
+  font-size: 16px;
+  margin-top: 20px;
+  margin-bottom: 20px;
+`;
+
+export default AppointmentDetailsScreen;
@@ -0,0 +1,401 @@
+import React, { useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, ScrollView, ViewStyle } from 'react-native';
+import { Button, Input } from 'react-native-elements';
+import { RouteProp, useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { RootStackParamList } from '../types/navigation';
+import { Appointment } from '../types/appointments';
+import { ClinicalNote, ClinicalNoteContent } from '../types/clinicalNotes';
+import theme from '../styles/theme';
+import Header from '../components/Header';
+import { appointmentService } from '../services/appointments';
+import { clinicalNoteService } from '../services/clinicalNotes';
+import { can } from '../utils/permissions';
+import { formatDate } from '../utils/date';
+import { formatClinicDateTime, formatInstant } from '../utils/timezone';
+
+type ClinicalNoteScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'ClinicalNote'>;
+};
+
+const EMPTY_CONTENT: ClinicalNoteContent = {
+  chiefComplaint: '',
+  anamnesis: '',
+  examFindings: '',
+  diagnosis: '',
+  cid10Code: '',
+  plan: '',
+};
+
+const FIELDS: { key: keyof ClinicalNoteContent; label: string; placeholder: string }[] = [
+  { key: 'chiefComplaint', label: 'Queixa Principal', placeholder: 'Motivo relatado pelo paciente' },
+  { key: 'anamnesis', label: 'Anamnese', placeholder: 'História da doença atual, antecedentes, medicações em uso' },
+  { key: 'examFindings', label: 'Exame Físico', placeholder: 'Sinais vitais e achados do exame' },
+  { key: 'diagnosis', label: 'Diagnóstico', placeholder: 'Hipótese diagnóstica' },
+  { key: 'plan', label: 'Conduta', placeholder: 'Tratamento, exames solicitados e orientações' },
+];
+
+const getContent = (note: ClinicalNote): ClinicalNoteContent => ({
+  chiefComplaint: note.chiefComplaint,
+  anamnesis: note.anamnesis,
+  examFindings: note.examFindings,
+  diagnosis: note.diagnosis,
+  cid10Code: note.cid10Code,
+  plan: note.plan,
+});
+
+// Evolução assinada, apenas para leitura, com os adendos registrados depois
+const SignedNote: React.FC<{ note: ClinicalNote }> = ({ note }) => (
+  <>
+    {FIELDS.map((field) => (
+      <FieldBlock key={field.key}>
+        <FieldLabel>{field.key === 'diagnosis' ? `${field.label} (CID-10 ${note.cid10Code})` : field.label}</FieldLabel>
+        <FieldText>{note[field.key] || '—'}</FieldText>
+      </FieldBlock>
+    ))}
+    <MetaText>Assinada por {note.doctorName} em {note.signedAt ? formatInstant(note.signedAt) : '—'}</MetaText>
+    {note.addenda.map((addendum) => (
+      <AddendumRow key={addendum.id}>
+        <FieldLabel>Adendo · {formatInstant(addendum.createdAt)}</FieldLabel>
+        <FieldText>{addendum.text}</FieldText>
+      </AddendumRow>
+    ))}
+  </>
+);
+
+const ClinicalNoteScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation<ClinicalNoteScreenProps['navigation']>();
+  const { appointmentId } = useRoute<RouteProp<RootStackParamList, 'ClinicalNote'>>().params;
+  const [appointment, setAppointment] = useState<Appointment | null>(null);
+  const [note, setNote] = useState<ClinicalNote | null>(null);
+  const [previousNotes, setPreviousNotes] = useState<ClinicalNote[]>([]);
+  const [content, setContent] = useState<ClinicalNoteContent>(EMPTY_CONTENT);
+  const [addendum, setAddendum] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadNote = async () => {
+    if (!user) return;
+
+    try {
+      const found = await appointmentService.getAppointmentById(appointmentId);
+      const visible = found && can(user, 'appointment:view', found) ? found : null;
+      // O serviço devolve só as evoluções que o usuário pode ler
+      const current = visible ? await clinicalNoteService.getNoteByAppointment(visible.id, user) : null;
+      const patientNotes = visible ? await clinicalNoteService.getNotesByPatient(visible.patientId, user) : [];
+      setAppointment(visible);
+      setNote(current);
+      setContent(current ? getContent(current) : EMPTY_CONTENT);
+      setPreviousNotes(patientNotes.filter(n => n.appointmentId !== appointmentId && n.status === 'signed'));
+    } catch (error) {
+      console.error('Erro ao carregar prontuário:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadNote();
+    }, [appointmentId])
+  );
+
+  const updateField = (key: keyof ClinicalNoteContent, value: string) => {
+    setContent({ ...content, [key]: value });
+  };
+
+  const handleSaveDraft = async () => {
+    if (!user) return;
+
+    try {
+      setSaving(true);
+      setNote(await clinicalNoteService.saveDraft(appointmentId, content, user));
+      Alert.alert('Sucesso', 'Rascunho salvo');
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível salvar o rascunho');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSign = () => {
+    if (!user) return;
+
+    Alert.alert(
+      'Assinar Evolução',
+      'Depois de assinada, a evolução não poderá ser alterada, apenas complementada com adendos. Deseja continuar?',
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Assinar',
+          onPress: async () => {
+            try {
+              setSaving(true);
+              setNote(await clinicalNoteService.signNote(appointmentId, content, user));
+            } catch (error) {
+              Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível assinar a evolução');
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAddAddendum = async () => {
+    if (!user || !note) return;
+
+    try {
+      setSaving(true);
+      setNote(await clinicalNoteService.addAddendum(note.id, addendum, user));
+      setAddendum('');
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível registrar o adendo');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !appointment) {
+    return (
+      <Container>
+        <Header />
+        <ScrollView contentContainerStyle={styles.scrollContent}>
+          <EmptyText>{loading ? 'Carregando prontuário...' : 'Consulta não encontrada'}</EmptyText>
+          <Button
+            title="Voltar"
+            onPress={() => navigation.goBack()}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.backButton}
+          />
+        </ScrollView>
+      </Container>
+    );
+  }
+
+  const canWrite = can(user, 'clinical_note:write', appointment) &&
+    (appointment.status === 'in_progress' || appointment.status === 'completed');
+  const isSigned = note?.status === 'signed';
+
+  return (
+    <Container>
+      <Header />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Title>Prontuário</Title>
+
+        <Section>
+          <SectionTitle>{appointment.patientName}</SectionTitle>
+          <InfoText>{formatClinicDateTime(appointment)}</InfoText>
+          <InfoText>{appointment.doctorName} · {appointment.specialty}</InfoText>
+        </Section>
+
+        <Section>
+          <SectionTitle>Evolução</SectionTitle>
+          {isSigned && note ? (
+            <SignedNote note={note} />
+          ) : canWrite ? (
+            <>
+              {note ? <MetaText>Rascunho salvo em {formatInstant(note.updatedAt)}</MetaText> : null}
+              {FIELDS.map((field) => (
+                <React.Fragment key={field.key}>
+                  <Input
+                    label={field.label}
+                    placeholder={field.placeholder}
+                    value={content[field.key]}
+                    onChangeText={(value) => updateField(field.key, value)}
+                    multiline
+                    containerStyle={styles.input}
+                  />
+                  {field.key === 'diagnosis' && (
+                    <Input
+                      label="CID-10"
+                      placeholder="Ex.: J06.9"
+                      value={content.cid10Code}
+                      onChangeText={(value) => updateField('cid10Code', value)}
+                      autoCapitalize="characters"
+                      containerStyle={styles.input}
+                    />
+                  )}
+                </React.Fragment>
+              ))}
+            </>
+          ) : (
+            <InfoText>Nenhuma evolução assinada para esta consulta</InfoText>
+          )}
+        </Section>
+
+        {isSigned && canWrite && (
+          <Section>
+            <SectionTitle>Novo Adendo</SectionTitle>
+            <Input
+              placeholder="Complemento ou correção da evolução"
+              value={addendum}
+              onChangeText={setAddendum}
+              multiline
+              containerStyle={styles.input}
+            />
+            <Button
+              title="Registrar Adendo"
+              onPress={handleAddAddendum}
+              loading={saving}
+              containerStyle={styles.button as ViewStyle}
+              buttonStyle={styles.signButton}
+            />
+          </Section>
+        )}
+
+        {!isSigned && canWrite && (
+          <>
+            <Button
+              title="Salvar Rascunho"
+              onPress={handleSaveDraft}
+              loading={saving}
+              containerStyle={styles.button as ViewStyle}
+              buttonStyle={styles.draftButton}
+            />
+            <Button
+              title="Assinar"
+              onPress={handleSign}
+              disabled={saving}
+              containerStyle={styles.button as ViewStyle}
+              buttonStyle={styles.signButton}
+            />
+          </>
+        )}
+
+        {previousNotes.length > 0 && (
+          <Section>
+            <SectionTitle>Evoluções Anteriores</SectionTitle>
+            {previousNotes.map((previous) => (
+              <PreviousNote key={previous.id}>
+                <FieldLabel>{formatDate(previous.appointmentDate)} · {previous.doctorName}</FieldLabel>
+                <FieldText>{previous.diagnosis} (CID-10 {previous.cid10Code})</FieldText>
+                <MetaText>{previous.plan}</MetaText>
+                {previous.addenda.length > 0 ? (
+                  <MetaText>{previous.addenda.length} adendo(s)</MetaText>
+                ) : null}
+              </PreviousNote>
+            ))}
+          </Section>
+        )}
+
+        <Button
+          title="Voltar"
+          onPress={() => navigation.goBack()}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.backButton}
+        />
+      </ScrollView>
+    </Container>
+  );
+};
+
+const styles = {
+  scrollContent: {
+    padding: 20,
+  },
+  input: {
+    paddingHorizontal: 0,
+  },
+  button: {
+    marginBottom: 15,
+    width: '100%',
+  },
+  draftButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+  signButton: {
+    backgroundColor: theme.colors.success,
+    paddingVertical: 12,
+  },
+  backButton: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+};
+
+const Container = styled.View`
+  flex: 1;
+  background-color: ${theme.colors.background};
+`;
+
+const Title = styled.Text`
+  font-size: 24px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 20px;
+  text-align: center;
+`;
+
+const Section = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 8px;
+  border-width: 1px;
+  border-color: ${theme.colors.border};
+  padding: 15px;
+  margin-bottom: 15px;
+`;
+
+const SectionTitle = styled.Text`
+  font-size: 18px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 10px;
+`;
+
+const InfoText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  margin-top: 4px;
+`;
+
+const FieldBlock = styled.View`
+  margin-bottom: 12px;
+`;
+
+const FieldLabel = styled.Text`
+  font-size: 14px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const FieldText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  margin-top: 2px;
+`;
+
+const MetaText = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  margin-top: 2px;
+  margin-bottom: 8px;
+`;
+
+const AddendumRow = styled.View`
+  padding-vertical: 8px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+`;
+
+const PreviousNote = styled.View`
+  padding-vertical: 8px;
+  border-bottom-width: 1px;
+  border-bottom-color: ${theme.colors.border};
+`;
+
+const EmptyText = styled.Text`
+  text-align: center;
+  color: ${theme.colors.text};
+  font-size: 16px;
+  margin-top: 20px;
+  margin-bottom: 20px;
+`;
+
+export default ClinicalNoteScreen;
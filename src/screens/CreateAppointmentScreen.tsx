@@ -1,7 +1,7 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components/native';
 import { ScrollView, ViewStyle } from 'react-native';
-import { Button, Input } from 'react-native-elements';
+import { Button } from 'react-native-elements';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
@@ -10,115 +10,186 @@ import theme from '../styles/theme';
 import Header from '../components/Header';
 import DoctorList from '../components/DoctorList';
 import TimeSlotList from '../components/TimeSlotList';
-import { notificationService } from '../services/notifications';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import CalendarPicker from '../components/CalendarPicker';
+import WaitlistModal from '../components/WaitlistModal';
+import RecurrenceOptions from '../components/RecurrenceOptions';
+import { appointmentService, BOOKING_HORIZON_MONTHS, SLOT_UNAVAILABLE_MESSAGE } from '../services/appointments';
+import { appointmentSeriesService } from '../services/appointmentSeries';
+import { scheduleService } from '../services/schedules';
+import { blockedPeriodService } from '../services/blockedPeriods';
+import { doctorService } from '../services/doctors';
+import { clinicService } from '../services/clinics';
+import { APPOINTMENT_MODALITY_LABELS } from '../services/telemedicine';
+import { Doctor } from '../types/doctors';
+import { BlockedPeriod, DoctorSchedule } from '../types/schedules';
+import { ClinicUnit } from '../types/clinics';
+import { AppointmentModality, RecurrenceRule } from '../types/appointments';
+import { addMonths, formatDate, todayISO } from '../utils/date';
+
+const MODALITY_OPTIONS: AppointmentModality[] = ['in_person', 'online'];
 
 type CreateAppointmentScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'CreateAppointment'>;
 };
 
-interface Appointment {
-  id: string;
-  patientId: string;
-  patientName: string;
-  doctorId: string;
-  doctorName: string;
-  date: string;
-  time: string;
-  specialty: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
-}
-
-interface Doctor {
-  id: string;
-  name: string;
-  specialty: string;
-  image: string;
-}
-
-// Lista de médicos disponíveis
-const availableDoctors: Doctor[] = [
-  {
-    id: '1',
-    name: 'Dr. João Silva',
-    specialty: 'Cardiologia',
-    image: 'https://randomuser.me/api/portraits/men/1.jpg',
-  },
-  {
-    id: '2',
-    name: 'Dra. Maria Santos',
-    specialty: 'Pediatria',
-    image: 'https://randomuser.me/api/portraits/women/1.jpg',
-  },
-  {
-    id: '3',
-    name: 'Dr. Pedro Oliveira',
-    specialty: 'Ortopedia',
-    image: 'https://randomuser.me/api/portraits/men/2.jpg',
-  },
-  {
-    id: '4',
-    name: 'Dra. Ana Costa',
-    specialty: 'Dermatologia',
-    image: 'https://randomuser.me/api/portraits/women/2.jpg',
-  },
-  {
-    id: '5',
-    name: 'Dr. Carlos Mendes',
-    specialty: 'Oftalmologia',
-    image: 'https://randomuser.me/api/portraits/men/3.jpg',
-  },
-];
-
 const CreateAppointmentScreen: React.FC = () => {
   const { user } = useAuth();
   const navigation = useNavigation<CreateAppointmentScreenProps['navigation']>();
-  const [date, setDate] = useState('');
+  const [date, setDate] = useState<string | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
   const [selectedDoctor, setSelectedDoctor] = useState<Doctor | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [timeSlots, setTimeSlots] = useState<string[]>([]);
+  const [bookedTimes, setBookedTimes] = useState<string[]>([]);
+  const [schedule, setSchedule] = useState<DoctorSchedule | null>(null);
+  const [blockedPeriods, setBlockedPeriods] = useState<BlockedPeriod[]>([]);
+  const [showWaitlist, setShowWaitlist] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [modality, setModality] = useState<AppointmentModality>('in_person');
+  const [units, setUnits] = useState<ClinicUnit[]>([]);
+  // Unidade escolhida pelo paciente; nula para ver os médicos de todas as unidades
+  const [selectedUnit, setSelectedUnit] = useState<ClinicUnit | null>(null);
+  const [doctorSchedules, setDoctorSchedules] = useState<DoctorSchedule[]>([]);
+
+  const today = todayISO();
+  const maxDate = addMonths(today, BOOKING_HORIZON_MONTHS);
+  // Todos os horários da data escolhida já estão ocupados
+  const isDayFull = !!date && timeSlots.length > 0 && timeSlots.every(slot => bookedTimes.includes(slot));
+
+  // Com uma unidade escolhida, só aparecem os médicos que atendem nela em algum dia
+  const unitDoctors = selectedUnit
+    ? doctors.filter(d => doctorSchedules.some(s => s.doctorId === d.id && scheduleService.hasUnit(s, selectedUnit.id)))
+    : doctors;
+
+  // Dias sem expediente do médico (ou fora da unidade escolhida) ou bloqueados por feriado ou ausência ficam indisponíveis
+  const isDateDisabled = (value: string) => {
+    return !schedule ||
+      !scheduleService.isDayAvailable(schedule, blockedPeriods, value) ||
+      (!!selectedUnit && !scheduleService.worksAtUnit(schedule, value, selectedUnit.id));
+  };
+
+  // Carrega a agenda semanal e os bloqueios do médico escolhido
+  const loadDoctorCalendar = async () => {
+    if (!selectedDoctor) {
+      setSchedule(null);
+      setBlockedPeriods([]);
+      return;
+    }
+
+    try {
+      setSchedule(await scheduleService.getSchedule(selectedDoctor.id));
+      setBlockedPeriods(await blockedPeriodService.getBlockedPeriodsForDoctor(selectedDoctor.id));
+    } catch (err) {
+      console.error('Erro ao carregar agenda do médico:', err);
+    }
+  };
+
+  // Carrega os horários da agenda do médico na data escolhida e os já ocupados
+  const loadAvailability = async () => {
+    if (!selectedDoctor || !date) {
+      setTimeSlots([]);
+      setBookedTimes([]);
+      return;
+    }
+
+    try {
+      const slots = await scheduleService.getTimeSlots(selectedDoctor.id, date);
+      const times = await appointmentService.getBookedTimes(selectedDoctor.id, date);
+      setTimeSlots(slots);
+      setBookedTimes(times);
+      if (!slots.includes(selectedTime) || times.includes(selectedTime)) {
+        setSelectedTime('');
+      }
+    } catch (err) {
+      console.error('Erro ao carregar horários disponíveis:', err);
+    }
+  };
+
+  // Lista os médicos ativos do cadastro, as unidades e as agendas usadas no filtro por unidade
+  useEffect(() => {
+    doctorService.getDoctors()
+      .then(setDoctors)
+      .catch((err) => console.error('Erro ao carregar médicos:', err));
+    clinicService.getUnits()
+      .then(setUnits)
+      .catch((err) => console.error('Erro ao carregar unidades:', err));
+    scheduleService.getSchedules()
+      .then(setDoctorSchedules)
+      .catch((err) => console.error('Erro ao carregar agendas:', err));
+  }, []);
+
+  // Ao trocar de unidade, descarta o médico que não atende nela e a data fora dela
+  useEffect(() => {
+    if (selectedDoctor && !unitDoctors.some(d => d.id === selectedDoctor.id)) {
+      setSelectedDoctor(null);
+    } else if (schedule && date && isDateDisabled(date)) {
+      setDate(null);
+    }
+  }, [selectedUnit?.id]);
+
+  useEffect(() => {
+    loadDoctorCalendar();
+  }, [selectedDoctor?.id]);
+
+  // Ao trocar de médico, descarta a data se ela não estiver disponível na nova agenda
+  useEffect(() => {
+    if (schedule && date && isDateDisabled(date)) {
+      setDate(null);
+    }
+  }, [schedule, blockedPeriods]);
+
+  useEffect(() => {
+    loadAvailability();
+  }, [selectedDoctor?.id, date]);
 
   const handleCreateAppointment = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
       setError('');
 
       if (!date || !selectedTime || !selectedDoctor) {
-        setError('Por favor, preencha a data e selecione um médico e horário');
+        setError('Por favor, selecione um médico, a data e o horário');
         return;
       }
 
-      // Recupera consultas existentes
-      const storedAppointments = await AsyncStorage.getItem('@MedicalApp:appointments');
-      const appointments: Appointment[] = storedAppointments ? JSON.parse(storedAppointments) : [];
-
-      // Cria nova consulta
-      const newAppointment: Appointment = {
-        id: Date.now().toString(),
-        patientId: user?.id || '',
-        patientName: user?.name || '',
+      const data = {
+        patientId: user.id,
+        patientName: user.name,
         doctorId: selectedDoctor.id,
         doctorName: selectedDoctor.name,
         date,
         time: selectedTime,
         specialty: selectedDoctor.specialty,
-        status: 'pending',
+        modality,
       };
 
-      // Adiciona nova consulta à lista
-      appointments.push(newAppointment);
-
-      // Salva lista atualizada
-      await AsyncStorage.setItem('@MedicalApp:appointments', JSON.stringify(appointments));
-
-      // Envia notificação para o médico
-      await notificationService.notifyNewAppointment(selectedDoctor.id, newAppointment);
-
-      alert('Consulta agendada com sucesso!');
+      if (recurrence) {
+        // Cria a série no mesmo horário em todas as datas, seguindo a estratégia para conflitos
+        const { created, skipped } = await appointmentSeriesService.createSeries(data, recurrence, user);
+        const skippedText = skipped.map(s => `${formatDate(s.date)}: ${s.reason}`).join('\n');
+        alert(`${created.length} consultas agendadas com sucesso!${skippedText ? `\n\nDatas puladas:\n${skippedText}` : ''}`);
+      } else {
+        // Cria nova consulta (o serviço também notifica o médico)
+        await appointmentService.createAppointment(data, user);
+        alert('Consulta agendada com sucesso!');
+      }
       navigation.goBack();
     } catch (err) {
-      setError('Erro ao agendar consulta. Tente novamente.');
+      if (err instanceof Error && err.message === SLOT_UNAVAILABLE_MESSAGE) {
+        // Outro paciente reservou o horário nesse meio tempo
+        setError(SLOT_UNAVAILABLE_MESSAGE);
+        setSelectedTime('');
+        loadAvailability();
+      } else if (recurrence && err instanceof Error) {
+        // Erros da série explicam qual regra ou data impediu o agendamento
+        setError(err.message);
+      } else {
+        setError('Erro ao agendar consulta. Tente novamente.');
+      }
     } finally {
       setLoading(false);
     }
@@ -130,26 +201,97 @@ const CreateAppointmentScreen: React.FC = () => {
       <ScrollView contentContainerStyle={styles.scrollContent}>
         <Title>Agendar Consulta</Title>
 
-        <Input
-          placeholder="Data (DD/MM/AAAA)"
-          value={date}
-          onChangeText={setDate}
-          containerStyle={styles.input}
-          keyboardType="numeric"
+        {units.length > 0 && (
+          <>
+            <SectionTitle>Selecione uma Unidade</SectionTitle>
+            <UnitOptions>
+              <UnitOption selected={!selectedUnit} onPress={() => setSelectedUnit(null)}>
+                <ModalityOptionText selected={!selectedUnit}>Todas</ModalityOptionText>
+              </UnitOption>
+              {units.map((unit) => (
+                <UnitOption
+                  key={unit.id}
+                  selected={selectedUnit?.id === unit.id}
+                  onPress={() => setSelectedUnit(unit)}
+                >
+                  <ModalityOptionText selected={selectedUnit?.id === unit.id}>{unit.name}</ModalityOptionText>
+                </UnitOption>
+              ))}
+            </UnitOptions>
+            {selectedUnit ? <HintText>{selectedUnit.address}</HintText> : null}
+          </>
+        )}
+
+        <SectionTitle>Selecione um Médico</SectionTitle>
+        {selectedUnit && unitDoctors.length === 0 ? (
+          <HintText>Nenhum médico atende nesta unidade</HintText>
+        ) : null}
+        <DoctorList
+          doctors={unitDoctors}
+          onSelectDoctor={setSelectedDoctor}
+          selectedDoctorId={selectedDoctor?.id}
         />
 
+        <SectionTitle>Selecione uma Data</SectionTitle>
+        {selectedDoctor ? (
+          <>
+            <CalendarPicker
+              value={date}
+              onChange={setDate}
+              minDate={today}
+              maxDate={maxDate}
+              isDateDisabled={isDateDisabled}
+            />
+            {date ? <SelectedDateText>Data escolhida: {formatDate(date)}</SelectedDateText> : null}
+          </>
+        ) : (
+          <HintText>Escolha um médico para ver os dias de atendimento</HintText>
+        )}
+
         <SectionTitle>Selecione um Horário</SectionTitle>
         <TimeSlotList
+          timeSlots={timeSlots}
           onSelectTime={setSelectedTime}
           selectedTime={selectedTime}
+          unavailableTimes={bookedTimes}
+          date={date || undefined}
         />
 
-        <SectionTitle>Selecione um Médico</SectionTitle>
-        <DoctorList
-          doctors={availableDoctors}
-          onSelectDoctor={setSelectedDoctor}
-          selectedDoctorId={selectedDoctor?.id}
-        />
+        {selectedDoctor && (
+          <>
+            {isDayFull ? <HintText>Todos os horários desta data estão ocupados.</HintText> : null}
+            <Button
+              title="Entrar na Lista de Espera"
+              type="outline"
+              onPress={() => setShowWaitlist(true)}
+              containerStyle={styles.button as ViewStyle}
+              buttonStyle={styles.waitlistButton}
+              titleStyle={styles.waitlistTitle}
+            />
+            <WaitlistModal
+              visible={showWaitlist}
+              doctor={selectedDoctor}
+              modality={modality}
+              initialDate={isDayFull ? date : null}
+              onClose={() => setShowWaitlist(false)}
+            />
+          </>
+        )}
+
+        <SectionTitle>Modalidade</SectionTitle>
+        <ModalityOptions>
+          {MODALITY_OPTIONS.map((value) => (
+            <ModalityOption key={value} selected={modality === value} onPress={() => setModality(value)}>
+              <ModalityOptionText selected={modality === value}>{APPOINTMENT_MODALITY_LABELS[value]}</ModalityOptionText>
+            </ModalityOption>
+          ))}
+        </ModalityOptions>
+        {modality === 'online' ? (
+          <HintText>O link da sala virtual será gerado ao agendar e ficará disponível nos detalhes da consulta.</HintText>
+        ) : null}
+
+        <SectionTitle>Repetição</SectionTitle>
+        <RecurrenceOptions startDate={date} onChange={setRecurrence} />
 
         {error ? <ErrorText>{error}</ErrorText> : null}
 
@@ -176,9 +318,6 @@ const styles = {
   scrollContent: {
     padding: 20,
   },
-  input: {
-    marginBottom: 15,
-  },
   button: {
     marginTop: 10,
     width: '100%',
@@ -191,6 +330,13 @@ const styles = {
     backgroundColor: theme.colors.secondary,
     paddingVertical: 12,
   },
+  waitlistButton: {
+    borderColor: theme.colors.primary,
+    paddingVertical: 12,
+  },
+  waitlistTitle: {
+    color: theme.colors.primary,
+  },
 };
 
 const Container = styled.View`
@@ -214,6 +360,55 @@ const SectionTitle = styled.Text`
   margin-top: 10px;
 `;
 
+const HintText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  text-align: center;
+  margin-bottom: 15px;
+`;
+
+const ModalityOptions = styled.View`
+  flex-direction: row;
+  margin-bottom: 15px;
+`;
+
+const UnitOptions = styled.View`
+  flex-direction: row;
+  flex-wrap: wrap;
+  margin-bottom: 15px;
+`;
+
+const ModalityOption = styled.TouchableOpacity<{ selected: boolean }>`
+  flex: 1;
+  padding: 10px;
+  margin-right: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+  align-items: center;
+`;
+
+// Chips de unidade ocupam só a largura do nome, já que podem ser muitas
+const UnitOption = styled(ModalityOption)`
+  flex: 0;
+  padding: 8px 14px;
+  margin-bottom: 6px;
+`;
+
+const ModalityOptionText = styled.Text<{ selected: boolean }>`
+  font-size: 14px;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
+const SelectedDateText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.primary};
+  text-align: center;
+  margin-bottom: 10px;
+`;
+
 const ErrorText = styled.Text`
   color: ${theme.colors.error};
   text-align: center;
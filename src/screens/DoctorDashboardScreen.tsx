@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import styled from 'styled-components/native';
-import { ScrollView, ViewStyle, TextStyle } from 'react-native';
+import { ScrollView, ViewStyle, TextStyle, Alert, Linking } from 'react-native';
 import { Button, ListItem, Text } from 'react-native-elements';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigation } from '@react-navigation/native';
@@ -10,72 +10,51 @@ import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme';
 import Header from '../components/Header';
 import StatisticsCard from '../components/StatisticsCard';
-import AppointmentActionModal from '../components/AppointmentActionModal';
+import AppointmentActionModal, { AppointmentActionType, RescheduleSelection } from '../components/AppointmentActionModal';
+import ScheduleEditorModal from '../components/ScheduleEditorModal';
+import BlockedPeriodsModal from '../components/BlockedPeriodsModal';
+import PrescriptionModal from '../components/PrescriptionModal';
 import { statisticsService, Statistics } from '../services/statistics';
-import { notificationService } from '../services/notifications';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { appointmentService } from '../services/appointments';
+import { appointmentSeriesService } from '../services/appointmentSeries';
+import { clinicService, getLocationName } from '../services/clinics';
+import { APPOINTMENT_MODALITY_LABELS } from '../services/telemedicine';
+import { prescriptionService } from '../services/prescriptions';
+import { Appointment, SeriesScope } from '../types/appointments';
+import { ClinicUnit } from '../types/clinics';
+import { Prescription } from '../types/prescriptions';
+import { getStatusColor, getStatusText } from '../utils/appointmentStatus';
+import { formatClinicDateTime } from '../utils/timezone';
 
 type DoctorDashboardScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'DoctorDashboard'>;
 };
 
-interface Appointment {
-  id: string;
-  patientId: string;
-  patientName: string;
-  doctorId: string;
-  doctorName: string;
-  date: string;
-  time: string;
-  specialty: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
-}
-
 interface StyledProps {
   status: string;
 }
 
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case 'confirmed':
-      return theme.colors.success;
-    case 'cancelled':
-      return theme.colors.error;
-    default:
-      return theme.colors.warning;
-  }
-};
-
-const getStatusText = (status: string) => {
-  switch (status) {
-    case 'confirmed':
-      return 'Confirmada';
-    case 'cancelled':
-      return 'Cancelada';
-    default:
-      return 'Pendente';
-  }
-};
-
 const DoctorDashboardScreen: React.FC = () => {
   const { user, signOut } = useAuth();
   const navigation = useNavigation<DoctorDashboardScreenProps['navigation']>();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [units, setUnits] = useState<ClinicUnit[]>([]);
   const [statistics, setStatistics] = useState<Partial<Statistics> | null>(null);
   const [loading, setLoading] = useState(true);
   const [modalVisible, setModalVisible] = useState(false);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
-  const [actionType, setActionType] = useState<'confirm' | 'cancel'>('confirm');
+  const [actionType, setActionType] = useState<AppointmentActionType>('confirm');
+  const [scheduleModalVisible, setScheduleModalVisible] = useState(false);
+  const [blockedPeriodsModalVisible, setBlockedPeriodsModalVisible] = useState(false);
+  // Consulta para a qual a receita está sendo emitida
+  const [prescriptionAppointment, setPrescriptionAppointment] = useState<Appointment | null>(null);
 
   const loadAppointments = async () => {
     try {
-      const storedAppointments = await AsyncStorage.getItem('@MedicalApp:appointments');
-      if (storedAppointments) {
-        const allAppointments: Appointment[] = JSON.parse(storedAppointments);
-        const doctorAppointments = allAppointments.filter(
-          (appointment) => appointment.doctorId === user?.id
-        );
+      if (user?.id) {
+        const doctorAppointments = await appointmentService.getAppointmentsByDoctor(user.id);
         setAppointments(doctorAppointments);
+        setUnits(await clinicService.getUnits());
       }
 
       // Carrega estatísticas do médico
@@ -90,7 +69,24 @@ const DoctorDashboardScreen: React.FC = () => {
     }
   };
 
-  const handleOpenModal = (appointment: Appointment, action: 'confirm' | 'cancel') => {
+  const handleSharePrescription = async (prescription: Prescription) => {
+    try {
+      await prescriptionService.sharePrescription(prescription);
+    } catch (error) {
+      console.error('Erro ao compartilhar receita:', error);
+      Alert.alert('Erro', 'Não foi possível gerar o PDF da receita');
+    }
+  };
+
+  const handlePrescriptionIssued = (prescription: Prescription) => {
+    setPrescriptionAppointment(null);
+    Alert.alert('Receita emitida', `Receita de ${prescription.patientName} registrada.`, [
+      { text: 'Fechar', style: 'cancel' },
+      { text: 'Compartilhar PDF', onPress: () => handleSharePrescription(prescription) },
+    ]);
+  };
+
+  const handleOpenModal = (appointment: Appointment, action: AppointmentActionType) => {
     setSelectedAppointment(appointment);
     setActionType(action);
     setModalVisible(true);
@@ -101,43 +97,81 @@ const DoctorDashboardScreen: React.FC = () => {
     setSelectedAppointment(null);
   };
 
-  const handleConfirmAction = async (reason?: string) => {
-    if (!selectedAppointment) return;
+  const handleConfirmAction = async (reason?: string, newSlot?: RescheduleSelection, scope?: SeriesScope) => {
+    if (!selectedAppointment || !user) return;
 
     try {
-      const storedAppointments = await AsyncStorage.getItem('@MedicalApp:appointments');
-      if (storedAppointments) {
-        const allAppointments: Appointment[] = JSON.parse(storedAppointments);
-        const updatedAppointments = allAppointments.map(appointment => {
-          if (appointment.id === selectedAppointment.id) {
-            return { 
-              ...appointment, 
-              status: actionType === 'confirm' ? 'confirmed' : 'cancelled',
-              ...(reason && { cancelReason: reason })
-            };
-          }
-          return appointment;
-        });
-        await AsyncStorage.setItem('@MedicalApp:appointments', JSON.stringify(updatedAppointments));
-
-        // Envia notificação para o paciente
-        if (actionType === 'confirm') {
-          await notificationService.notifyAppointmentConfirmed(
-            selectedAppointment.patientId,
-            selectedAppointment
+      // O serviço atualiza o status e notifica o paciente; em séries, pode valer também para as consultas seguintes
+      if (actionType === 'confirm') {
+        await appointmentService.confirmAppointment(selectedAppointment.id, user);
+      } else if (actionType === 'reschedule' && newSlot) {
+        if (scope === 'future') {
+          await appointmentSeriesService.rescheduleFutureOccurrences(
+            selectedAppointment.id,
+            newSlot.date,
+            newSlot.time,
+            user,
+            reason
           );
         } else {
-          await notificationService.notifyAppointmentCancelled(
-            selectedAppointment.patientId,
-            selectedAppointment,
+          await appointmentService.rescheduleAppointment(
+            selectedAppointment.id,
+            newSlot.date,
+            newSlot.time,
+            user,
             reason
           );
         }
+      } else if (scope === 'future') {
+        await appointmentService.cancelFutureOccurrences(selectedAppointment.id, user, reason);
+      } else {
+        await appointmentService.cancelAppointment(selectedAppointment.id, user, reason);
+      }
+
+      loadAppointments(); // Recarrega a lista
+    } catch (error) {
+      console.error('Erro ao atualizar status:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível atualizar a consulta');
+    }
+  };
+
+  // Avança a consulta no ciclo de vida (check-in, atendimento, finalização, falta)
+  const handleStatusChange = async (
+    appointment: Appointment,
+    status: 'checked_in' | 'in_progress' | 'completed' | 'no_show'
+  ) => {
+    if (!user) return;
 
-        loadAppointments(); // Recarrega a lista
+    try {
+      switch (status) {
+        case 'checked_in':
+          await appointmentService.checkInAppointment(appointment.id, user);
+          break;
+        case 'in_progress':
+          await appointmentService.startAppointment(appointment.id, user);
+          break;
+        case 'completed':
+          await appointmentService.completeAppointment(appointment.id, user);
+          break;
+        case 'no_show':
+          await appointmentService.markNoShow(appointment.id, user);
+          break;
       }
+      loadAppointments();
     } catch (error) {
       console.error('Erro ao atualizar status:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível atualizar a consulta');
+    }
+  };
+
+  const handleOpenMeetingRoom = async (appointment: Appointment) => {
+    if (!appointment.meetingRoom) return;
+
+    try {
+      await Linking.openURL(appointment.meetingRoom.joinUrl);
+    } catch (error) {
+      console.error('Erro ao abrir sala virtual:', error);
+      Alert.alert('Erro', 'Não foi possível abrir a sala virtual');
     }
   };
 
@@ -161,6 +195,20 @@ const DoctorDashboardScreen: React.FC = () => {
           buttonStyle={styles.buttonStyle}
         />
 
+        <Button
+          title="Meus Horários de Atendimento"
+          onPress={() => setScheduleModalVisible(true)}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.buttonStyle}
+        />
+
+        <Button
+          title="Ausências e Bloqueios"
+          onPress={() => setBlockedPeriodsModalVisible(true)}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.buttonStyle}
+        />
+
         <Button
           title="Configurações"
           onPress={() => navigation.navigate('Settings')}
@@ -195,6 +243,18 @@ const DoctorDashboardScreen: React.FC = () => {
               color={theme.colors.warning}
               subtitle="Aguardando confirmação"
             />
+            <StatisticsCard
+              title="Realizadas"
+              value={statistics.completedAppointments || 0}
+              color={theme.colors.secondary}
+              subtitle={`${(statistics.statusPercentages?.completed || 0).toFixed(1)}% do total`}
+            />
+            <StatisticsCard
+              title="Faltas"
+              value={statistics.noShowAppointments || 0}
+              color={theme.colors.error}
+              subtitle={`${(statistics.statusPercentages?.no_show || 0).toFixed(1)}% do total`}
+            />
           </StatisticsGrid>
         )}
 
@@ -211,11 +271,26 @@ const DoctorDashboardScreen: React.FC = () => {
                   Paciente: {appointment.patientName || 'Nome não disponível'}
                 </ListItem.Title>
                 <ListItem.Subtitle style={styles.dateTime as TextStyle}>
-                  {appointment.date} às {appointment.time}
+                  {formatClinicDateTime(appointment)}
                 </ListItem.Subtitle>
                 <Text style={styles.specialty as TextStyle}>
-                  {appointment.specialty}
+                  {appointment.specialty} · {APPOINTMENT_MODALITY_LABELS[appointment.modality]}
                 </Text>
+                {appointment.unitId && (
+                  <Text style={styles.history as TextStyle}>Local: {getLocationName(units, appointment)}</Text>
+                )}
+                {appointment.seriesId && (
+                  <Text style={styles.history as TextStyle}>Consulta recorrente</Text>
+                )}
+                {appointment.history && appointment.history.length > 0 && (
+                  <Text style={styles.history as TextStyle}>
+                    Remarcada (antes: {formatClinicDateTime({
+                      date: appointment.history[appointment.history.length - 1].previousDate,
+                      time: appointment.history[appointment.history.length - 1].previousTime,
+                      timeZone: appointment.timeZone,
+                    })})
+                  </Text>
+                )}
                 <StatusBadge status={appointment.status}>
                   <StatusText status={appointment.status}>
                     {getStatusText(appointment.status)}
@@ -237,6 +312,82 @@ const DoctorDashboardScreen: React.FC = () => {
                     />
                   </ButtonContainer>
                 )}
+                {appointment.status === 'confirmed' && appointment.modality === 'in_person' && (
+                  <ButtonContainer>
+                    <Button
+                      title="Check-in"
+                      onPress={() => handleStatusChange(appointment, 'checked_in')}
+                      containerStyle={styles.actionButton as ViewStyle}
+                      buttonStyle={styles.confirmButton}
+                    />
+                    <Button
+                      title="Não Compareceu"
+                      onPress={() => handleStatusChange(appointment, 'no_show')}
+                      containerStyle={styles.actionButton as ViewStyle}
+                      buttonStyle={styles.cancelButton}
+                    />
+                  </ButtonContainer>
+                )}
+                {/* Na consulta online, o paciente entra sozinho na sala de espera virtual */}
+                {appointment.status === 'confirmed' && appointment.modality === 'online' && (
+                  <>
+                    <Text style={styles.history as TextStyle}>Aguardando o paciente entrar na sala de espera</Text>
+                    <Button
+                      title="Não Compareceu"
+                      onPress={() => handleStatusChange(appointment, 'no_show')}
+                      containerStyle={styles.fullWidthButton as ViewStyle}
+                      buttonStyle={styles.cancelButton}
+                    />
+                  </>
+                )}
+                {(appointment.status === 'checked_in' || appointment.status === 'waiting_room') && (
+                  <Button
+                    title="Iniciar Atendimento"
+                    onPress={() => handleStatusChange(appointment, 'in_progress')}
+                    containerStyle={styles.fullWidthButton as ViewStyle}
+                    buttonStyle={styles.confirmButton}
+                  />
+                )}
+                {appointment.meetingRoom && (appointment.status === 'waiting_room' || appointment.status === 'in_progress') && (
+                  <Button
+                    title="Abrir Sala Virtual"
+                    onPress={() => handleOpenMeetingRoom(appointment)}
+                    containerStyle={styles.fullWidthButton as ViewStyle}
+                    buttonStyle={styles.rescheduleButton}
+                  />
+                )}
+                {appointment.status === 'in_progress' && (
+                  <Button
+                    title="Finalizar Consulta"
+                    onPress={() => handleStatusChange(appointment, 'completed')}
+                    containerStyle={styles.fullWidthButton as ViewStyle}
+                    buttonStyle={styles.confirmButton}
+                  />
+                )}
+                {(appointment.status === 'in_progress' || appointment.status === 'completed') && (
+                  <Button
+                    title="Prontuário"
+                    onPress={() => navigation.navigate('ClinicalNote', { appointmentId: appointment.id })}
+                    containerStyle={styles.fullWidthButton as ViewStyle}
+                    buttonStyle={styles.rescheduleButton}
+                  />
+                )}
+                {(appointment.status === 'in_progress' || appointment.status === 'completed') && (
+                  <Button
+                    title="Emitir Receita"
+                    onPress={() => setPrescriptionAppointment(appointment)}
+                    containerStyle={styles.fullWidthButton as ViewStyle}
+                    buttonStyle={styles.confirmButton}
+                  />
+                )}
+                {(appointment.status === 'pending' || appointment.status === 'confirmed') && (
+                  <Button
+                    title="Remarcar"
+                    onPress={() => handleOpenModal(appointment, 'reschedule')}
+                    containerStyle={styles.fullWidthButton as ViewStyle}
+                    buttonStyle={styles.rescheduleButton}
+                  />
+                )}
               </ListItem.Content>
             </AppointmentCard>
           ))
@@ -255,15 +406,42 @@ const DoctorDashboardScreen: React.FC = () => {
             onClose={handleCloseModal}
             onConfirm={handleConfirmAction}
             actionType={actionType}
+            isSeriesOccurrence={!!selectedAppointment.seriesId}
             appointmentDetails={{
+              doctorId: selectedAppointment.doctorId,
               patientName: selectedAppointment.patientName,
               doctorName: selectedAppointment.doctorName,
               date: selectedAppointment.date,
               time: selectedAppointment.time,
+              startsAt: selectedAppointment.startsAt,
+              timeZone: selectedAppointment.timeZone,
               specialty: selectedAppointment.specialty,
             }}
           />
         )}
+
+        <PrescriptionModal
+          visible={!!prescriptionAppointment}
+          appointment={prescriptionAppointment}
+          onClose={() => setPrescriptionAppointment(null)}
+          onIssued={handlePrescriptionIssued}
+        />
+
+        {user && (
+          <ScheduleEditorModal
+            visible={scheduleModalVisible}
+            doctorId={user.id}
+            onClose={() => setScheduleModalVisible(false)}
+          />
+        )}
+
+        {user && (
+          <BlockedPeriodsModal
+            visible={blockedPeriodsModalVisible}
+            doctorId={user.id}
+            onClose={() => setBlockedPeriodsModalVisible(false)}
+          />
+        )}
       </ScrollView>
     </Container>
   );
@@ -301,6 +479,14 @@ const styles = {
     backgroundColor: theme.colors.error,
     paddingVertical: 8,
   },
+  fullWidthButton: {
+    marginTop: 8,
+    width: '100%',
+  },
+  rescheduleButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 8,
+  },
   dateTime: {
     fontSize: 16,
     fontWeight: '700',
@@ -316,6 +502,12 @@ const styles = {
     fontWeight: '500',
     color: theme.colors.text,
   },
+  history: {
+    fontSize: 12,
+    color: theme.colors.text,
+    opacity: 0.7,
+    marginTop: 4,
+  },
 };
 
 const Container = styled.View`
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components/native';
 import { ScrollView, ViewStyle, Alert } from 'react-native';
 import { Button, Input } from 'react-native-elements';
@@ -8,7 +8,10 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme';
 import Header from '../components/Header';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import SpecialtyChips from '../components/SpecialtyChips';
+import { authService } from '../services/auth';
+import { specialtyService, findSpecialty } from '../services/specialties';
+import { Specialty } from '../types/specialties';
 
 type EditProfileScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'EditProfile'>;
@@ -20,10 +23,24 @@ const EditProfileScreen: React.FC = () => {
   
   const [name, setName] = useState(user?.name || '');
   const [email, setEmail] = useState(user?.email || '');
-  const [specialty, setSpecialty] = useState(user?.specialty || '');
+  const [specialty, setSpecialty] = useState<string | null>(null);
+  const [crm, setCrm] = useState(user?.role === 'doctor' ? user.crm || '' : '');
+  const [catalog, setCatalog] = useState<Specialty[]>([]);
   const [loading, setLoading] = useState(false);
 
+  // A especialidade é escolhida no catálogo; cadastros antigos guardam o nome, convertido aqui para o código
+  useEffect(() => {
+    specialtyService.getSpecialties().then((specialties) => {
+      setCatalog(specialties);
+      if (user?.role === 'doctor') {
+        setSpecialty(findSpecialty(specialties, user.specialty)?.code || null);
+      }
+    });
+  }, []);
+
   const handleSaveProfile = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
 
@@ -32,25 +49,27 @@ const EditProfileScreen: React.FC = () => {
         return;
       }
 
-      const updatedUser = {
-        ...user!,
-        name: name.trim(),
-        email: email.trim(),
-        ...(user?.role === 'doctor' && { specialty: specialty.trim() }),
-      };
+      if (user.role === 'doctor' && !specialty) {
+        Alert.alert('Erro', 'Selecione sua especialidade');
+        return;
+      }
+
+      // Salva no cadastro de usuários
+      const updatedUser = await authService.updateUser(user.id, {
+        name,
+        email,
+        ...(user.role === 'doctor' && { specialty: specialty!, crm }),
+      }, user);
 
       // Atualiza no Context
       await updateUser(updatedUser);
 
-      // Salva no AsyncStorage
-      await AsyncStorage.setItem('@MedicalApp:user', JSON.stringify(updatedUser));
-
       Alert.alert('Sucesso', 'Perfil atualizado com sucesso!', [
         { text: 'OK', onPress: () => navigation.goBack() }
       ]);
 
     } catch (error) {
-      Alert.alert('Erro', 'Não foi possível atualizar o perfil');
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível atualizar o perfil');
       console.error('Erro ao atualizar perfil:', error);
     } finally {
       setLoading(false);
@@ -85,13 +104,23 @@ const EditProfileScreen: React.FC = () => {
           />
 
           {user?.role === 'doctor' && (
-            <Input
-              label="Especialidade"
-              value={specialty}
-              onChangeText={setSpecialty}
-              containerStyle={styles.input}
-              placeholder="Digite sua especialidade"
-            />
+            <>
+              <SpecialtyLabel>Especialidade</SpecialtyLabel>
+              <SpecialtyChips
+                specialties={catalog}
+                selectedCode={specialty}
+                onSelect={setSpecialty}
+                style={styles.input}
+              />
+              <Input
+                label="CRM"
+                value={crm}
+                onChangeText={setCrm}
+                containerStyle={styles.input}
+                placeholder="Ex.: 123456/SP"
+                autoCapitalize="characters"
+              />
+            </>
           )}
 
           <RoleBadge role={user?.role || ''}>
@@ -169,6 +198,15 @@ const Avatar = styled.Image`
   margin-bottom: 16px;
 `;
 
+const SpecialtyLabel = styled.Text`
+  align-self: flex-start;
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 8px;
+  margin-left: 10px;
+`;
+
 const RoleBadge = styled.View<{ role: string }>`
   background-color: ${(props: { role: string }) => {
     switch (props.role) {
@@ -6,8 +6,12 @@ import { FontAwesome } from '@expo/vector-icons';
 import { HeaderContainer, HeaderTitle } from '../components/Header';
 import theme from '../styles/theme';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '../contexts/AuthContext';
+import { appointmentService } from '../services/appointments';
+import { doctorService } from '../services/doctors';
 import { Appointment } from '../types/appointments';
+import { getStatusColor, getStatusText } from '../utils/appointmentStatus';
+import { formatClinicDateTime } from '../utils/timezone';
 import { Doctor } from '../types/doctors';
 import { RootStackParamList } from '../types/navigation';
 import { useFocusEffect } from '@react-navigation/native';
@@ -17,28 +21,24 @@ type HomeScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Home'>;
 };
 
-// Mock de dados dos médicos. Em uma aplicação real, isso viria de uma API.
-const doctors: Doctor[] = [
-  { id: '1', name: 'Dr. João Silva', specialty: 'Cardiologista', image: 'https://mighty.tools/mockmind-api/content/human/91.jpg', },
-  { id: '2', name: 'Dra. Maria Santos', specialty: 'Dermatologista', image: 'https://mighty.tools/mockmind-api/content/human/97.jpg', },
-  { id: '3', name: 'Dr. Pedro Oliveira', specialty: 'Oftalmologista', image: 'https://mighty.tools/mockmind-api/content/human/79.jpg', },
-];
-
 // Componente funcional principal da tela Home.
 const HomeScreen: React.FC<HomeScreenProps> = ({ navigation } ) => {
+  // Usuário logado, dono das consultas exibidas.
+  const { user } = useAuth();
   // Estado para armazenar a lista de consultas.
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  // Médicos das consultas, usados para exibir foto e especialidade.
+  const [doctors, setDoctors] = useState<Doctor[]>([]);
   // Estado para controlar a animação de "puxar para atualizar".
   const [refreshing, setRefreshing] = useState(false);
 
-  // Função para carregar as consultas do armazenamento local (AsyncStorage).
+  // Função para carregar as consultas do paciente através do serviço de consultas.
   const loadAppointments = async () => {
     try {
-      const storedAppointments = await AsyncStorage.getItem('appointments');
-      if (storedAppointments) {
-        // Se houver consultas salvas, atualiza o estado.
-        setAppointments(JSON.parse(storedAppointments));
+      if (user?.id) {
+        setAppointments(await appointmentService.getAppointmentsByPatient(user.id));
       }
+      setDoctors(await doctorService.getDoctors());
     } catch (error) {
       console.error('Erro ao carregar consultas:', error);
     }
@@ -69,17 +69,17 @@ const HomeScreen: React.FC<HomeScreenProps> = ({ navigation } ) => {
     // Busca as informações do médico associado à consulta.
     const doctor = getDoctorInfo(item.doctorId);
     return (
-      // Este é o card que representa uma consulta na interface.
-      <AppointmentCard>
+      // Este é o card que representa uma consulta na interface; tocar nele abre os detalhes.
+      <AppointmentCard onPress={() => navigation.navigate('AppointmentDetails', { appointmentId: item.id })}>
         <DoctorImage source={{ uri: doctor?.image || 'https://via.placeholder.com/100' }} />
         <InfoContainer>
-          <DoctorName>{doctor?.name || 'Médico não encontrado'}</DoctorName>
-          <DoctorSpecialty>{doctor?.specialty || 'Especialidade não encontrada'}</DoctorSpecialty>
-          <DateTime>{new Date(item.date ).toLocaleDateString()} - {item.time}</DateTime>
+          <DoctorName>{item.doctorName || doctor?.name || 'Médico não encontrado'}</DoctorName>
+          <DoctorSpecialty>{item.specialty || doctor?.specialty || 'Especialidade não encontrada'}</DoctorSpecialty>
+          <DateTime>{formatClinicDateTime(item)}</DateTime>
           <Description>{item.description}</Description>
-          {/* O status da consulta (Pendente/Confirmado) é exibido aqui. */}
+          {/* O status da consulta (Pendente, Confirmada, Realizada...) é exibido aqui. */}
           <Status status={item.status}>
-            {item.status === 'pending' ? 'Pendente' : 'Confirmado'}
+            {getStatusText(item.status)}
           </Status>
           {/* Botões de ação para editar e excluir a consulta. */}
           <ActionButtons>
@@ -145,7 +145,7 @@ const AppointmentList = styled(FlatList)`
   flex: 1;
 `;
 
-const AppointmentCard = styled.View`
+const AppointmentCard = styled(TouchableOpacity)`
   background-color: ${theme.colors.white};
   border-radius: 8px;
   padding: ${theme.spacing.medium}px;
@@ -198,7 +198,7 @@ const Description = styled.Text`
 
 const Status = styled.Text<{ status: string }>`
   font-size: ${theme.typography.body.fontSize}px;
-  color: ${(props: { status: string }) => props.status === 'pending' ? theme.colors.error : theme.colors.success};
+  color: ${(props: { status: string }) => getStatusColor(props.status)};
   margin-top: 4px;
   font-weight: bold;
 `;
@@ -16,8 +16,8 @@ type LoginScreenProps = {
 
 // Componente funcional que representa a tela de Login.
 const LoginScreen: React.FC = () => {
-  // Extrai a função signIn do contexto de autenticação.
-  const { signIn } = useAuth();
+  // Extrai a função signIn e o aviso de sessão expirada do contexto de autenticação.
+  const { signIn, sessionExpired } = useAuth();
   // Hook para obter o objeto de navegação e poder transitar entre telas.
   const navigation = useNavigation<LoginScreenProps['navigation']>();
   // Estados do componente para armazenar email, senha, status de carregamento e mensagens de erro.
@@ -66,6 +66,11 @@ const LoginScreen: React.FC = () => {
         containerStyle={styles.input}
       />
 
+      {/* Avisa que o usuário foi desconectado por inatividade. */}
+      {sessionExpired && !error ? (
+        <WarningText>Sua sessão expirou. Entre novamente para continuar.</WarningText>
+      ) : null}
+
       {/* Exibe a mensagem de erro, se houver alguma. */}
       {error ? <ErrorText>{error}</ErrorText> : null}
 
@@ -154,5 +159,11 @@ const ErrorText = styled.Text`
   margin-bottom: 10px;
 `;
 
+const WarningText = styled.Text`
+  color: ${theme.colors.warning};
+  text-align: center;
+  margin-bottom: 10px;
+`;
+
 // Exporta o componente LoginScreen para ser utilizado no app.
 export default LoginScreen;
\ No newline at end of file
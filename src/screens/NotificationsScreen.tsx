@@ -1,65 +1,82 @@
 import React, { useState } from 'react';
 import styled from 'styled-components/native';
-import { ScrollView, ViewStyle, Alert } from 'react-native';
+import { SectionList, ViewStyle, Alert } from 'react-native';
 import { Button, ListItem, Badge } from 'react-native-elements';
-import { useAuth } from '../contexts/AuthContext';
+import { useNotifications } from '../contexts/NotificationContext';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
-import { useFocusEffect } from '@react-navigation/native';
 import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme';
 import Header from '../components/Header';
-import { notificationService, Notification } from '../services/notifications';
+import { Notification } from '../services/notifications';
+import { addDays, toISODate, todayISO } from '../utils/date';
 
 type NotificationsScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Notifications'>;
 };
 
-const NotificationsScreen: React.FC = () => {
-  const { user } = useAuth();
-  const navigation = useNavigation<NotificationsScreenProps['navigation']>();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [loading, setLoading] = useState(true);
+// Quantidade de notificações exibidas a cada carregamento da lista
+const PAGE_SIZE = 20;
 
-  const loadNotifications = async () => {
-    if (!user?.id) return;
-    
-    try {
-      const userNotifications = await notificationService.getNotifications(user.id);
-      setNotifications(userNotifications);
-    } catch (error) {
-      console.error('Erro ao carregar notificações:', error);
-    } finally {
-      setLoading(false);
-    }
+// Agrupa as notificações (já ordenadas da mais recente) por dia de criação
+const groupByDay = (notifications: Notification[]) => {
+  const today = todayISO();
+  const yesterday = addDays(today, -1);
+  const weekStart = addDays(today, -6);
+
+  const getGroupTitle = (createdAt: string) => {
+    const day = toISODate(new Date(createdAt));
+    if (day === today) return 'Hoje';
+    if (day === yesterday) return 'Ontem';
+    if (day >= weekStart) return 'Esta semana';
+    return 'Anteriores';
   };
 
-  useFocusEffect(
-    React.useCallback(() => {
-      loadNotifications();
-    }, [user?.id])
-  );
+  const sections: { title: string; data: Notification[] }[] = [];
+  notifications.forEach(notification => {
+    const title = getGroupTitle(notification.createdAt);
+    const last = sections[sections.length - 1];
+    if (last && last.title === title) {
+      last.data.push(notification);
+    } else {
+      sections.push({ title, data: [notification] });
+    }
+  });
+  return sections;
+};
+
+const NotificationsScreen: React.FC = () => {
+  const navigation = useNavigation<NotificationsScreenProps['navigation']>();
+  // A lista é atualizada pelo NotificationContext a cada mudança, sem recarregar
+  const { notifications, loading, markAsRead, markAllAsRead, deleteNotification } = useNotifications();
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
 
   const handleMarkAsRead = async (notificationId: string) => {
     try {
-      await notificationService.markAsRead(notificationId);
-      loadNotifications();
+      await markAsRead(notificationId);
     } catch (error) {
       console.error('Erro ao marcar como lida:', error);
     }
   };
 
   const handleMarkAllAsRead = async () => {
-    if (!user?.id) return;
-    
     try {
-      await notificationService.markAllAsRead(user.id);
-      loadNotifications();
+      await markAllAsRead();
     } catch (error) {
       console.error('Erro ao marcar todas como lidas:', error);
     }
   };
 
+  // Tocar na notificação a marca como lida e abre a consulta relacionada, se houver
+  const handleOpenNotification = (notification: Notification) => {
+    if (!notification.read) {
+      handleMarkAsRead(notification.id);
+    }
+    if (notification.appointmentId) {
+      navigation.navigate('AppointmentDetails', { appointmentId: notification.appointmentId });
+    }
+  };
+
   const handleDeleteNotification = async (notificationId: string) => {
     Alert.alert(
       'Excluir Notificação',
@@ -71,8 +88,7 @@ const NotificationsScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             try {
-              await notificationService.deleteNotification(notificationId);
-              loadNotifications();
+              await deleteNotification(notificationId);
             } catch (error) {
               console.error('Erro ao excluir notificação:', error);
             }
@@ -88,8 +104,16 @@ const NotificationsScreen: React.FC = () => {
         return '✅';
       case 'appointment_cancelled':
         return '❌';
+      case 'appointment_rescheduled':
+        return '🔄';
       case 'appointment_reminder':
         return '⏰';
+      case 'appointment_created':
+        return '📅';
+      case 'waitlist_offer':
+        return '🎟️';
+      case 'waiting_room':
+        return '🎥';
       default:
         return '📩';
     }
@@ -107,69 +131,112 @@ const NotificationsScreen: React.FC = () => {
   };
 
   const unreadCount = notifications.filter(n => !n.read).length;
+  const sections = groupByDay(notifications.slice(0, visibleCount));
+  const hasMore = visibleCount < notifications.length;
 
-  return (
-    <Container>
-      <Header />
-      <ScrollView contentContainerStyle={styles.scrollContent}>
-        <TitleContainer>
-          <Title>Notificações</Title>
-          {unreadCount > 0 && (
-            <Badge
-              value={unreadCount}
-              status="error"
-              containerStyle={styles.badge}
-            />
-          )}
-        </TitleContainer>
+  const handleLoadMore = () => {
+    if (hasMore) {
+      setVisibleCount(count => count + PAGE_SIZE);
+    }
+  };
 
+  const renderHeader = () => (
+    <>
+      <TitleContainer>
+        <Title>Notificações</Title>
         {unreadCount > 0 && (
-          <Button
-            title="Marcar todas como lidas"
-            onPress={handleMarkAllAsRead}
-            containerStyle={styles.markAllButton as ViewStyle}
-            buttonStyle={styles.markAllButtonStyle}
+          <Badge
+            value={unreadCount}
+            status="error"
+            containerStyle={styles.badge}
           />
         )}
+      </TitleContainer>
 
+      {unreadCount > 0 && (
         <Button
-          title="Voltar"
-          onPress={() => navigation.goBack()}
-          containerStyle={styles.button as ViewStyle}
-          buttonStyle={styles.buttonStyle}
+          title="Marcar todas como lidas"
+          onPress={handleMarkAllAsRead}
+          containerStyle={styles.markAllButton as ViewStyle}
+          buttonStyle={styles.markAllButtonStyle}
         />
+      )}
 
-        {loading ? (
-          <LoadingText>Carregando notificações...</LoadingText>
-        ) : notifications.length === 0 ? (
-          <EmptyContainer>
-            <EmptyText>Nenhuma notificação encontrada</EmptyText>
-          </EmptyContainer>
-        ) : (
-          notifications.map((notification) => (
-            <NotificationCard key={notification.id} isRead={notification.read}>
-              <ListItem
-                onPress={() => !notification.read && handleMarkAsRead(notification.id)}
-                onLongPress={() => handleDeleteNotification(notification.id)}
-              >
-                <NotificationIcon>{getNotificationIcon(notification.type)}</NotificationIcon>
-                <ListItem.Content>
-                  <NotificationHeader>
-                    <ListItem.Title style={styles.title}>
-                      {notification.title}
-                    </ListItem.Title>
-                    {!notification.read && <UnreadDot />}
-                  </NotificationHeader>
-                  <ListItem.Subtitle style={styles.message}>
-                    {notification.message}
-                  </ListItem.Subtitle>
-                  <DateText>{formatDate(notification.createdAt)}</DateText>
-                </ListItem.Content>
-              </ListItem>
-            </NotificationCard>
-          ))
-        )}
-      </ScrollView>
+      <Button
+        title="Voltar"
+        onPress={() => navigation.goBack()}
+        containerStyle={styles.button as ViewStyle}
+        buttonStyle={styles.buttonStyle}
+      />
+
+      {loading ? (
+        <LoadingText>Carregando notificações...</LoadingText>
+      ) : notifications.length === 0 ? (
+        <EmptyContainer>
+          <EmptyText>Nenhuma notificação encontrada</EmptyText>
+        </EmptyContainer>
+      ) : (
+        <SwipeHint>Deslize para a direita para marcar como lida e para a esquerda para excluir</SwipeHint>
+      )}
+    </>
+  );
+
+  const renderNotification = ({ item: notification }: { item: Notification }) => (
+    <NotificationCard isRead={notification.read}>
+      <ListItem.Swipeable
+        onPress={() => handleOpenNotification(notification)}
+        onLongPress={() => handleDeleteNotification(notification.id)}
+        leftContent={
+          <Button
+            title="Lida"
+            icon={{ name: 'check', color: theme.colors.white }}
+            onPress={() => handleMarkAsRead(notification.id)}
+            disabled={notification.read}
+            buttonStyle={styles.readAction as ViewStyle}
+          />
+        }
+        rightContent={
+          <Button
+            title="Excluir"
+            icon={{ name: 'delete', color: theme.colors.white }}
+            onPress={() => handleDeleteNotification(notification.id)}
+            buttonStyle={styles.deleteAction as ViewStyle}
+          />
+        }
+        containerStyle={styles.listItem}
+      >
+        <NotificationIcon>{getNotificationIcon(notification.type)}</NotificationIcon>
+        <ListItem.Content>
+          <NotificationHeader>
+            <ListItem.Title style={styles.title}>
+              {notification.title}
+            </ListItem.Title>
+            {!notification.read && <UnreadDot />}
+          </NotificationHeader>
+          <ListItem.Subtitle style={styles.message}>
+            {notification.message}
+          </ListItem.Subtitle>
+          <DateText>{formatDate(notification.createdAt)}</DateText>
+        </ListItem.Content>
+      </ListItem.Swipeable>
+    </NotificationCard>
+  );
+
+  return (
+    <Container>
+      <Header />
+      <SectionList
+        sections={sections}
+        keyExtractor={(item) => item.id}
+        renderItem={renderNotification}
+        renderSectionHeader={({ section }) => <GroupTitle>{section.title}</GroupTitle>}
+        ListHeaderComponent={renderHeader}
+        ListFooterComponent={hasMore ? <LoadingText>Carregando mais...</LoadingText> : null}
+        onEndReached={handleLoadMore}
+        onEndReachedThreshold={0.5}
+        stickySectionHeadersEnabled={false}
+        contentContainerStyle={styles.scrollContent}
+      />
     </Container>
   );
 };
@@ -181,6 +248,17 @@ const styles = {
   badge: {
     marginLeft: 8,
   },
+  listItem: {
+    backgroundColor: 'transparent',
+  },
+  readAction: {
+    minHeight: '100%',
+    backgroundColor: theme.colors.success,
+  },
+  deleteAction: {
+    minHeight: '100%',
+    backgroundColor: theme.colors.error,
+  },
   markAllButton: {
     marginBottom: 15,
     width: '100%',
@@ -248,6 +326,22 @@ const EmptyText = styled.Text`
   opacity: 0.7;
 `;
 
+const SwipeHint = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.6;
+  text-align: center;
+  margin-bottom: 10px;
+`;
+
+const GroupTitle = styled.Text`
+  font-size: 16px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-top: 10px;
+  margin-bottom: 8px;
+`;
+
 const NotificationCard = styled.View<{ isRead: boolean }>`
   background-color: ${(props) => props.isRead ? theme.colors.white : theme.colors.primary + '10'};
   border-radius: 8px;
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import styled from 'styled-components/native';
-import { ScrollView, ViewStyle, TextStyle } from 'react-native';
+import { ScrollView, ViewStyle, TextStyle, Alert } from 'react-native';
 import { Button, ListItem, Text } from 'react-native-elements';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigation } from '@react-navigation/native';
@@ -9,65 +9,57 @@ import { useFocusEffect } from '@react-navigation/native';
 import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme';
 import Header from '../components/Header';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import AppointmentActionModal, { RescheduleSelection } from '../components/AppointmentActionModal';
+import { appointmentService } from '../services/appointments';
+import { appointmentSeriesService } from '../services/appointmentSeries';
+import { waitlistService, DAY_PERIOD_LABELS } from '../services/waitlist';
+import { clinicService, getLocationName } from '../services/clinics';
+import { APPOINTMENT_MODALITY_LABELS, telemedicineService } from '../services/telemedicine';
+import { Appointment, SeriesScope } from '../types/appointments';
+import { ClinicUnit } from '../types/clinics';
+import { WaitlistEntry } from '../types/waitlist';
+import { getStatusColor, getStatusText } from '../utils/appointmentStatus';
+import { formatDate } from '../utils/date';
+import { formatClinicDateTime, formatInstant } from '../utils/timezone';
 
 type PatientDashboardScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'PatientDashboard'>;
 };
 
-interface Appointment {
-  id: string;
-  patientId: string;
-  patientName: string;
-  doctorId: string;
-  doctorName: string;
-  date: string;
-  time: string;
-  specialty: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
-}
-
 interface StyledProps {
   status: string;
 }
 
-const getStatusColor = (status: string) => {
-  switch (status) {
-    case 'confirmed':
-      return theme.colors.success;
-    case 'cancelled':
-      return theme.colors.error;
-    default:
-      return theme.colors.warning;
-  }
-};
-
-const getStatusText = (status: string) => {
-  switch (status) {
-    case 'confirmed':
-      return 'Confirmada';
-    case 'cancelled':
-      return 'Cancelada';
-    default:
-      return 'Pendente';
-  }
+// Resumo do período e dos horários aceitos pelo paciente na lista de espera
+const getWaitlistDescription = (entry: WaitlistEntry) => {
+  const dates = entry.startDate && entry.endDate
+    ? `${formatDate(entry.startDate)} a ${formatDate(entry.endDate)}`
+    : entry.startDate
+      ? `a partir de ${formatDate(entry.startDate)}`
+      : entry.endDate ? `até ${formatDate(entry.endDate)}` : 'qualquer data';
+  const periods = entry.preferredPeriods?.length
+    ? entry.preferredPeriods.map(period => DAY_PERIOD_LABELS[period]).join(', ')
+    : 'qualquer horário';
+  const modality = APPOINTMENT_MODALITY_LABELS[entry.modality || 'in_person'];
+  return `Aguardando vaga · ${modality} · ${dates} · ${periods}`;
 };
 
 const PatientDashboardScreen: React.FC = () => {
   const { user, signOut } = useAuth();
   const navigation = useNavigation<PatientDashboardScreenProps['navigation']>();
   const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [units, setUnits] = useState<ClinicUnit[]>([]);
   const [loading, setLoading] = useState(true);
+  const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
 
   const loadAppointments = async () => {
     try {
-      const storedAppointments = await AsyncStorage.getItem('@MedicalApp:appointments');
-      if (storedAppointments) {
-        const allAppointments: Appointment[] = JSON.parse(storedAppointments);
-        const userAppointments = allAppointments.filter(
-          (appointment) => appointment.patientId === user?.id
-        );
+      if (user?.id) {
+        const userAppointments = await appointmentService.getAppointmentsByPatient(user.id);
         setAppointments(userAppointments);
+        setWaitlist(await waitlistService.getEntriesByPatient(user.id));
+        setUnits(await clinicService.getUnits());
       }
     } catch (error) {
       console.error('Erro ao carregar consultas:', error);
@@ -76,6 +68,87 @@ const PatientDashboardScreen: React.FC = () => {
     }
   };
 
+  const handleReschedule = async (reason?: string, newSlot?: RescheduleSelection, scope?: SeriesScope) => {
+    if (!selectedAppointment || !newSlot || !user) return;
+
+    try {
+      // O serviço registra o histórico e avisa o médico
+      if (scope === 'future') {
+        await appointmentSeriesService.rescheduleFutureOccurrences(
+          selectedAppointment.id,
+          newSlot.date,
+          newSlot.time,
+          user,
+          reason
+        );
+      } else {
+        await appointmentService.rescheduleAppointment(
+          selectedAppointment.id,
+          newSlot.date,
+          newSlot.time,
+          user,
+          reason
+        );
+      }
+      loadAppointments();
+    } catch (error) {
+      console.error('Erro ao remarcar consulta:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível remarcar a consulta');
+    }
+  };
+
+  // Entra na sala de espera virtual; o serviço avisa o médico
+  const handleJoinWaitingRoom = async (appointment: Appointment) => {
+    if (!user) return;
+
+    try {
+      await appointmentService.joinWaitingRoom(appointment.id, user);
+      navigation.navigate('AppointmentDetails', { appointmentId: appointment.id });
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível entrar na sala de espera');
+    } finally {
+      loadAppointments();
+    }
+  };
+
+  // Agenda a vaga oferecida pela lista de espera
+  const handleClaimOffer = async (entry: WaitlistEntry) => {
+    if (!user) return;
+
+    try {
+      await appointmentService.claimWaitlistOffer(entry.id, user);
+      Alert.alert('Sucesso', 'Consulta agendada com a vaga da lista de espera!');
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível aceitar a vaga');
+    } finally {
+      loadAppointments();
+    }
+  };
+
+  const handleDeclineOffer = async (entry: WaitlistEntry) => {
+    if (!user) return;
+
+    try {
+      await waitlistService.declineOffer(entry.id, user);
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível recusar a vaga');
+    } finally {
+      loadAppointments();
+    }
+  };
+
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+    if (!user) return;
+
+    try {
+      await waitlistService.leaveWaitlist(entry.id, user);
+    } catch (error) {
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível sair da lista de espera');
+    } finally {
+      loadAppointments();
+    }
+  };
+
   // Carrega as consultas quando a tela estiver em foco
   useFocusEffect(
     React.useCallback(() => {
@@ -96,6 +169,13 @@ const PatientDashboardScreen: React.FC = () => {
           buttonStyle={styles.buttonStyle}
         />
 
+        <Button
+          title="Minhas Receitas"
+          onPress={() => navigation.navigate('Prescriptions')}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.buttonStyle}
+        />
+
         <Button
           title="Meu Perfil"
           onPress={() => navigation.navigate('Profile')}
@@ -116,36 +196,131 @@ const PatientDashboardScreen: React.FC = () => {
           <EmptyText>Nenhuma consulta agendada</EmptyText>
         ) : (
           appointments.map((appointment) => (
-            <AppointmentCard key={appointment.id}>
+            <AppointmentCard
+              key={appointment.id}
+              onPress={() => navigation.navigate('AppointmentDetails', { appointmentId: appointment.id })}
+            >
               <ListItem.Content>
                 <ListItem.Title style={styles.patientName as TextStyle}>
                   Paciente: {appointment.patientName}
                 </ListItem.Title>
                 <ListItem.Subtitle style={styles.dateTime as TextStyle}>
-                  {appointment.date} às {appointment.time}
+                  {formatClinicDateTime(appointment)}
                 </ListItem.Subtitle>
                 <Text style={styles.doctorName as TextStyle}>
                   {appointment.doctorName}
                 </Text>
                 <Text style={styles.specialty as TextStyle}>
-                  {appointment.specialty}
+                  {appointment.specialty} · {APPOINTMENT_MODALITY_LABELS[appointment.modality]}
                 </Text>
+                {appointment.unitId && (
+                  <Text style={styles.history as TextStyle}>Local: {getLocationName(units, appointment)}</Text>
+                )}
+                {appointment.seriesId && (
+                  <Text style={styles.history as TextStyle}>Consulta recorrente</Text>
+                )}
+                {appointment.history && appointment.history.length > 0 && (
+                  <Text style={styles.history as TextStyle}>
+                    Remarcada (antes: {formatClinicDateTime({
+                      date: appointment.history[appointment.history.length - 1].previousDate,
+                      time: appointment.history[appointment.history.length - 1].previousTime,
+                      timeZone: appointment.timeZone,
+                    })})
+                  </Text>
+                )}
                 <StatusBadge status={appointment.status}>
                   <StatusText status={appointment.status}>
                     {getStatusText(appointment.status)}
                   </StatusText>
                 </StatusBadge>
+                {telemedicineService.canJoinWaitingRoom(appointment) && (
+                  <Button
+                    title="Entrar na Sala de Espera"
+                    onPress={() => handleJoinWaitingRoom(appointment)}
+                    containerStyle={styles.actionButton as ViewStyle}
+                    buttonStyle={styles.acceptButton}
+                  />
+                )}
+                {(appointment.status === 'pending' || appointment.status === 'confirmed') && (
+                  <Button
+                    title="Remarcar"
+                    onPress={() => setSelectedAppointment(appointment)}
+                    containerStyle={styles.actionButton as ViewStyle}
+                    buttonStyle={styles.rescheduleButton}
+                  />
+                )}
               </ListItem.Content>
             </AppointmentCard>
           ))
         )}
 
+        {waitlist.length > 0 && (
+          <>
+            <SectionTitle>Lista de Espera</SectionTitle>
+            {waitlist.map((entry) => (
+              <WaitlistCard key={entry.id}>
+                <Text style={styles.doctorName as TextStyle}>{entry.doctorName}</Text>
+                {entry.status === 'offered' && entry.offer ? (
+                  <>
+                    <OfferText>Vaga disponível: {formatClinicDateTime(entry.offer)}</OfferText>
+                    <Text style={styles.history as TextStyle}>
+                      Responda até {formatInstant(entry.offer.expiresAt)}
+                    </Text>
+                    <Button
+                      title="Aceitar Vaga"
+                      onPress={() => handleClaimOffer(entry)}
+                      containerStyle={styles.actionButton as ViewStyle}
+                      buttonStyle={styles.acceptButton}
+                    />
+                    <Button
+                      title="Recusar"
+                      onPress={() => handleDeclineOffer(entry)}
+                      containerStyle={styles.actionButton as ViewStyle}
+                      buttonStyle={styles.settingsButton}
+                    />
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.history as TextStyle}>{getWaitlistDescription(entry)}</Text>
+                    <Button
+                      title="Sair da Lista"
+                      onPress={() => handleLeaveWaitlist(entry)}
+                      containerStyle={styles.actionButton as ViewStyle}
+                      buttonStyle={styles.settingsButton}
+                    />
+                  </>
+                )}
+              </WaitlistCard>
+            ))}
+          </>
+        )}
+
         <Button
           title="Sair"
           onPress={signOut}
           containerStyle={styles.button as ViewStyle}
           buttonStyle={styles.logoutButton}
         />
+
+        {selectedAppointment && (
+          <AppointmentActionModal
+            visible={!!selectedAppointment}
+            onClose={() => setSelectedAppointment(null)}
+            onConfirm={handleReschedule}
+            actionType="reschedule"
+            isSeriesOccurrence={!!selectedAppointment.seriesId}
+            appointmentDetails={{
+              doctorId: selectedAppointment.doctorId,
+              patientName: selectedAppointment.patientName,
+              doctorName: selectedAppointment.doctorName,
+              date: selectedAppointment.date,
+              time: selectedAppointment.time,
+              startsAt: selectedAppointment.startsAt,
+              timeZone: selectedAppointment.timeZone,
+              specialty: selectedAppointment.specialty,
+            }}
+          />
+        )}
       </ScrollView>
     </Container>
   );
@@ -171,6 +346,24 @@ const styles = {
     backgroundColor: theme.colors.secondary,
     paddingVertical: 12,
   },
+  actionButton: {
+    marginTop: 8,
+    width: '100%',
+  },
+  rescheduleButton: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 8,
+  },
+  acceptButton: {
+    backgroundColor: theme.colors.success,
+    paddingVertical: 8,
+  },
+  history: {
+    fontSize: 12,
+    color: theme.colors.text,
+    opacity: 0.7,
+    marginTop: 4,
+  },
   doctorName: {
     fontSize: 18,
     fontWeight: '700',
@@ -215,6 +408,30 @@ const AppointmentCard = styled(ListItem)`
   border-color: ${theme.colors.border};
 `;
 
+const SectionTitle = styled.Text`
+  font-size: 18px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-top: 10px;
+  margin-bottom: 10px;
+`;
+
+const WaitlistCard = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 8px;
+  margin-bottom: 10px;
+  padding: 15px;
+  border-width: 1px;
+  border-color: ${theme.colors.border};
+`;
+
+const OfferText = styled.Text`
+  font-size: 14px;
+  font-weight: bold;
+  color: ${theme.colors.success};
+  margin-top: 4px;
+`;
+
 const LoadingText = styled.Text`
   text-align: center;
   color: ${theme.colors.text};
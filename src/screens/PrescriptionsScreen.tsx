@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import styled from 'styled-components/native';
+import { Alert, ScrollView, ViewStyle } from 'react-native';
+import { Button } from 'react-native-elements';
+import { useFocusEffect, useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { RootStackParamList } from '../types/navigation';
+import { Prescription } from '../types/prescriptions';
+import theme from '../styles/theme';
+import Header from '../components/Header';
+import { prescriptionService } from '../services/prescriptions';
+import { formatInstant } from '../utils/timezone';
+
+type PrescriptionsScreenProps = {
+  navigation: NativeStackNavigationProp<RootStackParamList, 'Prescriptions'>;
+};
+
+// Histórico de receitas do paciente, da mais recente para a mais antiga
+const PrescriptionsScreen: React.FC = () => {
+  const { user } = useAuth();
+  const navigation = useNavigation<PrescriptionsScreenProps['navigation']>();
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadPrescriptions = async () => {
+    if (!user) return;
+
+    try {
+      setPrescriptions(await prescriptionService.getPrescriptionsByPatient(user.id, user));
+    } catch (error) {
+      console.error('Erro ao carregar receitas:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useFocusEffect(
+    React.useCallback(() => {
+      loadPrescriptions();
+    }, [])
+  );
+
+  const handleShare = async (prescription: Prescription) => {
+    try {
+      await prescriptionService.sharePrescription(prescription);
+    } catch (error) {
+      console.error('Erro ao compartilhar receita:', error);
+      Alert.alert('Erro', 'Não foi possível gerar o PDF da receita');
+    }
+  };
+
+  return (
+    <Container>
+      <Header />
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <Title>Minhas Receitas</Title>
+
+        {loading ? (
+          <EmptyText>Carregando receitas...</EmptyText>
+        ) : prescriptions.length === 0 ? (
+          <EmptyText>Nenhuma receita emitida</EmptyText>
+        ) : (
+          prescriptions.map((prescription) => (
+            <PrescriptionCard key={prescription.id}>
+              <DoctorName>{prescription.doctorName}</DoctorName>
+              <InfoText>{prescription.doctorSpecialty} · CRM {prescription.doctorCrm}</InfoText>
+              <MetaText>Emitida em {formatInstant(prescription.issuedAt)}</MetaText>
+              {prescription.items.map((item, index) => (
+                <ItemRow key={`${prescription.id}-${index}`}>
+                  <ItemName>{index + 1}. {item.medication}</ItemName>
+                  <InfoText>{item.dosage}, {item.frequency}, por {item.duration}</InfoText>
+                  {item.notes ? <MetaText>{item.notes}</MetaText> : null}
+                </ItemRow>
+              ))}
+              <Button
+                title="Compartilhar PDF"
+                onPress={() => handleShare(prescription)}
+                containerStyle={styles.shareButton as ViewStyle}
+                buttonStyle={styles.shareButtonStyle}
+              />
+            </PrescriptionCard>
+          ))
+        )}
+
+        <Button
+          title="Voltar"
+          onPress={() => navigation.goBack()}
+          containerStyle={styles.button as ViewStyle}
+          buttonStyle={styles.backButton}
+        />
+      </ScrollView>
+    </Container>
+  );
+};
+
+const styles = {
+  scrollContent: {
+    padding: 20,
+  },
+  button: {
+    marginBottom: 15,
+    width: '100%',
+  },
+  shareButton: {
+    marginTop: 10,
+    width: '100%',
+  },
+  shareButtonStyle: {
+    backgroundColor: theme.colors.primary,
+    paddingVertical: 8,
+  },
+  backButton: {
+    backgroundColor: theme.colors.secondary,
+    paddingVertical: 12,
+  },
+};
+
+const Container = styled.View`
+  flex: 1;
+  background-color: ${theme.colors.background};
+`;
+
+const Title = styled.Text`
+  font-size: 24px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+  margin-bottom: 20px;
+  text-align: center;
+`;
+
+const PrescriptionCard = styled.View`
+  background-color: ${theme.colors.white};
+  border-radius: 8px;
+  border-width: 1px;
+  border-color: ${theme.colors.border};
+  padding: 15px;
+  margin-bottom: 15px;
+`;
+
+const DoctorName = styled.Text`
+  font-size: 18px;
+  font-weight: bold;
+  color: ${theme.colors.text};
+`;
+
+const InfoText = styled.Text`
+  font-size: 14px;
+  color: ${theme.colors.text};
+  margin-top: 2px;
+`;
+
+const MetaText = styled.Text`
+  font-size: 12px;
+  color: ${theme.colors.text};
+  opacity: 0.7;
+  margin-top: 2px;
+`;
+
+const ItemRow = styled.View`
+  padding-vertical: 8px;
+  border-top-width: 1px;
+  border-top-color: ${theme.colors.border};
+  margin-top: 8px;
+`;
+
+const ItemName = styled.Text`
+  font-size: 14px;
+  font-weight: 500;
+  color: ${theme.colors.text};
+`;
+
+const EmptyText = styled.Text`
+  text-align: center;
+  color: ${theme.colors.text};
+  font-size: 16px;
+  margin-top: 20px;
+  margin-bottom: 20px;
+`;
+
+export default PrescriptionsScreen;
@@ -1,5 +1,5 @@
 // Importações de bibliotecas e componentes necessários.
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import styled from 'styled-components/native';
 import { Button, ListItem } from 'react-native-elements';
 import { useAuth } from '../contexts/AuthContext'; // Hook para acessar dados de usuário e função de logout.
@@ -9,6 +9,7 @@ import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme'; // Tema de cores e estilos do app.
 import Header from '../components/Header'; // Componente de cabeçalho.
 import { ViewStyle } from 'react-native';
+import { specialtyService } from '../services/specialties'; // Catálogo de especialidades.
 
 // Define a tipagem para as propriedades de navegação da tela de Perfil.
 type ProfileScreenProps = {
@@ -21,6 +22,14 @@ const ProfileScreen: React.FC = () => {
   const { user, signOut } = useAuth();
   // Hook para obter o objeto de navegação.
   const navigation = useNavigation<ProfileScreenProps['navigation']>();
+  // Nome de exibição da especialidade do médico, vindo do catálogo.
+  const [specialtyName, setSpecialtyName] = useState('');
+
+  useEffect(() => {
+    if (user?.role === 'doctor') {
+      specialtyService.getDisplayName(user.specialty).then(setSpecialtyName);
+    }
+  }, [user]);
 
   // Função auxiliar para traduzir o tipo de perfil (role) para um texto legível.
   const getRoleText = (role: string) => {
@@ -55,7 +64,7 @@ const ProfileScreen: React.FC = () => {
           
           {/* Exibe a especialidade apenas se o usuário for um médico. */}
           {user?.role === 'doctor' && (
-            <SpecialtyText>Especialidade: {user?.specialty}</SpecialtyText>
+            <SpecialtyText>Especialidade: {specialtyName}</SpecialtyText>
           )}
         </ProfileCard>
 
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import styled from 'styled-components/native';
-import { ScrollView, ViewStyle, Alert, Share } from 'react-native';
+import { ScrollView, ViewStyle, Alert, Share, Linking } from 'react-native';
 import { Button, ListItem, Switch, Text } from 'react-native-elements';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigation } from '@react-navigation/native';
@@ -9,28 +9,32 @@ import { useFocusEffect } from '@react-navigation/native';
 import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme';
 import Header from '../components/Header';
-import { storageService } from '../services/storage';
+import NotificationPreferencesEditor from '../components/NotificationPreferencesEditor';
+import { storageService, DEFAULT_APP_SETTINGS } from '../services/storage';
+import { pushNotificationService } from '../services/pushNotifications';
+import { notificationService } from '../services/notifications';
+import { AppSettings } from '../types/settings';
+import { can } from '../utils/permissions';
 
 type SettingsScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'Settings'>;
 };
 
-interface AppSettings {
-  notifications: boolean;
-  autoBackup: boolean;
-  theme: 'light' | 'dark';
-  language: string;
-}
+// Antecedências de lembrete oferecidas, em horas
+const REMINDER_OFFSET_OPTIONS = [48, 24, 2, 1];
+
+// Prazos oferecidos para manter notificações lidas, em dias
+const RETENTION_OPTIONS = [7, 30, 90];
+
+// Prazos oferecidos para o paciente da lista de espera aceitar uma vaga, em minutos
+const WAITLIST_OFFER_OPTIONS = [30, 60, 120, 240];
+
+const formatMinutes = (minutes: number) => (minutes < 60 ? `${minutes} min` : `${minutes / 60}h`);
 
 const SettingsScreen: React.FC = () => {
   const { user, signOut } = useAuth();
   const navigation = useNavigation<SettingsScreenProps['navigation']>();
-  const [settings, setSettings] = useState<AppSettings>({
-    notifications: true,
-    autoBackup: true,
-    theme: 'light',
-    language: 'pt-BR',
-  });
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_APP_SETTINGS);
   const [loading, setLoading] = useState(true);
   const [storageInfo, setStorageInfo] = useState<any>(null);
 
@@ -54,6 +58,45 @@ const SettingsScreen: React.FC = () => {
     }, [])
   );
 
+  // Ligar pede a permissão ao sistema; desligar interrompe a entrega e limpa os avisos pendentes
+  const handleToggleNotifications = async (value: boolean) => {
+    try {
+      if (!value) {
+        await pushNotificationService.disable();
+        setSettings({ ...settings, notifications: false });
+        return;
+      }
+
+      const granted = await pushNotificationService.enable();
+      setSettings({ ...settings, notifications: granted });
+      if (!granted) {
+        Alert.alert(
+          'Permissão negada',
+          'Para receber notificações, permita o envio nas configurações do aparelho.',
+          [
+            { text: 'Agora não', style: 'cancel' },
+            { text: 'Abrir configurações', onPress: () => Linking.openSettings() },
+          ]
+        );
+      }
+    } catch (error) {
+      console.error('Erro ao atualizar notificações:', error);
+      Alert.alert('Erro', 'Não foi possível atualizar as notificações');
+    }
+  };
+
+  const toggleReminderOffset = (hours: number) => {
+    const offsets = settings.reminderOffsets.includes(hours)
+      ? settings.reminderOffsets.filter(h => h !== hours)
+      : [...settings.reminderOffsets, hours].sort((a, b) => b - a);
+    updateSetting('reminderOffsets', offsets);
+  };
+
+  const handleChangeRetention = async (days: number) => {
+    await updateSetting('notificationRetentionDays', days);
+    await notificationService.pruneReadNotifications();
+  };
+
   const updateSetting = async (key: keyof AppSettings, value: any) => {
     try {
       const updatedSettings = { ...settings, [key]: value };
@@ -66,9 +109,11 @@ const SettingsScreen: React.FC = () => {
   };
 
   const handleCreateBackup = async () => {
+    if (!user) return;
+
     try {
       setLoading(true);
-      const backup = await storageService.createBackup();
+      const backup = await storageService.createBackup(user);
       
       const fileName = `backup_${new Date().toISOString().split('T')[0]}.json`;
       
@@ -130,6 +175,7 @@ const SettingsScreen: React.FC = () => {
                   onPress: async () => {
                     try {
                       await storageService.clearAll();
+                      await notificationService.reload();
                       Alert.alert('Concluído', 'Todos os dados foram apagados. O app será reiniciado.', [
                         { text: 'OK', onPress: () => signOut() }
                       ]);
@@ -172,11 +218,90 @@ const SettingsScreen: React.FC = () => {
             </ListItem.Content>
             <Switch
               value={settings.notifications}
-              onValueChange={(value) => updateSetting('notifications', value)}
+              onValueChange={handleToggleNotifications}
               trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
             />
           </ListItem>
 
+          <ListItem>
+            <ListItem.Content>
+              <ListItem.Title>Lembretes de Consulta</ListItem.Title>
+              <ListItem.Subtitle>Avisar antes das consultas, mesmo sem notificações push</ListItem.Subtitle>
+            </ListItem.Content>
+            <Switch
+              value={settings.reminders}
+              onValueChange={(value) => updateSetting('reminders', value)}
+              trackColor={{ false: theme.colors.border, true: theme.colors.primary }}
+            />
+          </ListItem>
+
+          {settings.reminders && (
+            <ListItem>
+              <ListItem.Content>
+                <ListItem.Title>Antecedência dos Lembretes</ListItem.Title>
+                <ListItem.Subtitle>Quando cada lembrete é enviado</ListItem.Subtitle>
+                <OptionChips>
+                  {REMINDER_OFFSET_OPTIONS.map((hours) => {
+                    const selected = settings.reminderOffsets.includes(hours);
+                    return (
+                      <OptionChip
+                        key={hours}
+                        selected={selected}
+                        onPress={() => toggleReminderOffset(hours)}
+                      >
+                        <OptionChipText selected={selected}>{hours}h antes</OptionChipText>
+                      </OptionChip>
+                    );
+                  })}
+                </OptionChips>
+              </ListItem.Content>
+            </ListItem>
+          )}
+
+          <ListItem>
+            <ListItem.Content>
+              <ListItem.Title>Manter Notificações Lidas</ListItem.Title>
+              <ListItem.Subtitle>Notificações lidas mais antigas são apagadas</ListItem.Subtitle>
+              <OptionChips>
+                {RETENTION_OPTIONS.map((days) => {
+                  const selected = settings.notificationRetentionDays === days;
+                  return (
+                    <OptionChip
+                      key={days}
+                      selected={selected}
+                      onPress={() => handleChangeRetention(days)}
+                    >
+                      <OptionChipText selected={selected}>{days} dias</OptionChipText>
+                    </OptionChip>
+                  );
+                })}
+              </OptionChips>
+            </ListItem.Content>
+          </ListItem>
+
+          {user?.role === 'admin' && (
+            <ListItem>
+              <ListItem.Content>
+                <ListItem.Title>Prazo da Lista de Espera</ListItem.Title>
+                <ListItem.Subtitle>Tempo para aceitar uma vaga antes de ela passar ao próximo paciente</ListItem.Subtitle>
+                <OptionChips>
+                  {WAITLIST_OFFER_OPTIONS.map((minutes) => {
+                    const selected = settings.waitlistOfferMinutes === minutes;
+                    return (
+                      <OptionChip
+                        key={minutes}
+                        selected={selected}
+                        onPress={() => updateSetting('waitlistOfferMinutes', minutes)}
+                      >
+                        <OptionChipText selected={selected}>{formatMinutes(minutes)}</OptionChipText>
+                      </OptionChip>
+                    );
+                  })}
+                </OptionChips>
+              </ListItem.Content>
+            </ListItem>
+          )}
+
           <ListItem>
             <ListItem.Content>
               <ListItem.Title>Backup Automático</ListItem.Title>
@@ -190,6 +315,15 @@ const SettingsScreen: React.FC = () => {
           </ListItem>
         </SettingsCard>
 
+        {user && settings.notifications && (
+          <>
+            <SectionTitle>Notificações por Tipo</SectionTitle>
+            <SettingsCard>
+              <NotificationPreferencesEditor userId={user.id} role={user.role} />
+            </SettingsCard>
+          </>
+        )}
+
         <SectionTitle>Dados e Armazenamento</SectionTitle>
         <SettingsCard>
           {storageInfo && (
@@ -206,13 +340,15 @@ const SettingsScreen: React.FC = () => {
           )}
         </SettingsCard>
 
-        <Button
-          title="Criar Backup"
-          onPress={handleCreateBackup}
-          containerStyle={styles.button as ViewStyle}
-          buttonStyle={styles.backupButton}
-          loading={loading}
-        />
+        {can(user, 'backup:create') && (
+          <Button
+            title="Criar Backup"
+            onPress={handleCreateBackup}
+            containerStyle={styles.button as ViewStyle}
+            buttonStyle={styles.backupButton}
+            loading={loading}
+          />
+        )}
 
         <Button
           title="Limpar Cache"
@@ -326,4 +462,25 @@ const InfoValue = styled.Text`
   color: ${theme.colors.primary};
 `;
 
+const OptionChips = styled.View`
+  flex-direction: row;
+  flex-wrap: wrap;
+  margin-top: 8px;
+`;
+
+const OptionChip = styled.TouchableOpacity<{ selected: boolean }>`
+  padding: 6px 10px;
+  margin-right: 6px;
+  margin-bottom: 6px;
+  border-radius: 16px;
+  border-width: 1px;
+  border-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.border};
+  background-color: ${(props: { selected: boolean }) => props.selected ? theme.colors.primary : theme.colors.white};
+`;
+
+const OptionChipText = styled.Text<{ selected: boolean }>`
+  font-size: 12px;
+  color: ${(props: { selected: boolean }) => props.selected ? theme.colors.white : theme.colors.text};
+`;
+
 export default SettingsScreen;
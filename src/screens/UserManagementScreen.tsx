@@ -1,7 +1,7 @@
 // Importações de bibliotecas e componentes necessários.
 import React, { useState } from 'react';
 import styled from 'styled-components/native';
-import { ScrollView, ViewStyle, TextStyle } from 'react-native';
+import { Alert, ScrollView, ViewStyle, TextStyle } from 'react-native';
 import { Button, ListItem, Text } from 'react-native-elements';
 import { useAuth } from '../contexts/AuthContext'; // Hook para obter o usuário logado.
 import { useNavigation } from '@react-navigation/native';
@@ -10,21 +10,19 @@ import { useFocusEffect } from '@react-navigation/native'; // Hook para executar
 import { RootStackParamList } from '../types/navigation';
 import theme from '../styles/theme'; // Tema de estilos do app.
 import Header from '../components/Header'; // Componente de cabeçalho.
-import AsyncStorage from '@react-native-async-storage/async-storage'; // API para armazenamento local.
+import UserFormModal from '../components/UserFormModal'; // Formulário de cadastro e edição.
+import ScheduleEditorModal from '../components/ScheduleEditorModal'; // Horários, unidades e consultórios do médico.
+import { authService } from '../services/auth'; // Serviço que gerencia usuários e credenciais.
+import { CreateUserData, UpdateUserData, User } from '../types/auth';
+import { Specialty } from '../types/specialties';
+import { specialtyService, getSpecialtyName } from '../services/specialties'; // Catálogo de especialidades.
+import { can, PERMISSION_DENIED_MESSAGE } from '../utils/permissions'; // Regras centrais de permissão.
 
 // Define a tipagem para as propriedades de navegação da tela.
 type UserManagementScreenProps = {
   navigation: NativeStackNavigationProp<RootStackParamList, 'UserManagement'>;
 };
 
-// Interface para definir a estrutura de um objeto de usuário.
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: 'admin' | 'doctor' | 'patient';
-}
-
 // Interface para a tipagem de propriedades em componentes estilizados.
 interface StyledProps {
   role: string;
@@ -39,17 +37,21 @@ const UserManagementScreen: React.FC = () => {
   // Estados para armazenar a lista de usuários e o status de carregamento.
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
+  // Estados do formulário: visibilidade e usuário em edição (nulo ao cadastrar).
+  const [formVisible, setFormVisible] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  // Catálogo usado para exibir o nome da especialidade dos médicos.
+  const [catalog, setCatalog] = useState<Specialty[]>([]);
+  // Médico cuja agenda está aberta no editor de horários.
+  const [scheduleDoctorId, setScheduleDoctorId] = useState<string | null>(null);
 
-  // Função assíncrona para carregar a lista de usuários do AsyncStorage.
+  // Função assíncrona para carregar a lista de usuários do serviço de autenticação.
   const loadUsers = async () => {
     try {
-      const storedUsers = await AsyncStorage.getItem('@MedicalApp:users');
-      if (storedUsers) {
-        const allUsers: User[] = JSON.parse(storedUsers);
-        // Filtra a lista para não exibir o próprio usuário logado.
-        const filteredUsers = allUsers.filter(u => u.id !== user?.id);
-        setUsers(filteredUsers);
-      }
+      const allUsers = await authService.getAllUsers();
+      // Filtra a lista para não exibir o próprio usuário logado.
+      setUsers(allUsers.filter(u => u.id !== user?.id));
+      setCatalog(await specialtyService.getSpecialties());
     } catch (error) {
       console.error('Erro ao carregar usuários:', error);
     } finally {
@@ -57,23 +59,72 @@ const UserManagementScreen: React.FC = () => {
     }
   };
 
-  // Função para deletar um usuário da lista no AsyncStorage.
-  const handleDeleteUser = async (userId: string) => {
+  // Abre o formulário para cadastrar (sem usuário) ou editar um usuário.
+  const openForm = (selected: User | null) => {
+    setEditingUser(selected);
+    setFormVisible(true);
+  };
+
+  const closeForm = () => {
+    setFormVisible(false);
+    setEditingUser(null);
+  };
+
+  // Salva o formulário; erros de validação do serviço são exibidos no próprio modal.
+  const handleSubmitForm = async (data: CreateUserData | UpdateUserData) => {
+    if (!user) return;
+
+    if (editingUser) {
+      await authService.updateUser(editingUser.id, data as UpdateUserData, user);
+    } else {
+      await authService.createUser(data as CreateUserData, user);
+    }
+    closeForm();
+    loadUsers();
+  };
+
+  // Ativa ou desativa o acesso do usuário sem apagar seu histórico.
+  const handleToggleActive = async (target: User) => {
+    if (!user) return;
+
     try {
-      const storedUsers = await AsyncStorage.getItem('@MedicalApp:users');
-      if (storedUsers) {
-        const allUsers: User[] = JSON.parse(storedUsers);
-        // Cria uma nova lista contendo todos os usuários, exceto o que foi deletado.
-        const updatedUsers = allUsers.filter(u => u.id !== userId);
-        // Salva a nova lista de volta no AsyncStorage.
-        await AsyncStorage.setItem('@MedicalApp:users', JSON.stringify(updatedUsers));
-        loadUsers(); // Recarrega a lista na tela para refletir a mudança.
-      }
+      await authService.setUserActive(target.id, target.active === false, user);
+      loadUsers();
     } catch (error) {
-      console.error('Erro ao deletar usuário:', error);
+      Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível atualizar o usuário');
     }
   };
 
+  // Função para excluir um usuário definitivamente, após confirmação.
+  const handleDeleteUser = (target: User) => {
+    // Somente administradores podem excluir usuários.
+    if (!user || !can(user, 'user:delete')) {
+      Alert.alert('Erro', PERMISSION_DENIED_MESSAGE);
+      return;
+    }
+
+    Alert.alert(
+      'Excluir usuário',
+      `Deseja excluir ${target.name}? Esta ação não pode ser desfeita.`,
+      [
+        { text: 'Cancelar', style: 'cancel' },
+        {
+          text: 'Excluir',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await authService.deleteUser(target.id, user);
+              loadUsers(); // Recarrega a lista na tela para refletir a mudança.
+            } catch (error) {
+              console.error('Erro ao deletar usuário:', error);
+              Alert.alert('Erro', error instanceof Error ? error.message : 'Não foi possível excluir o usuário');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   // Hook que chama a função `loadUsers` toda vez que a tela entra em foco.
   useFocusEffect(
     React.useCallback(() => {
@@ -102,10 +153,10 @@ const UserManagementScreen: React.FC = () => {
       <ScrollView contentContainerStyle={styles.scrollContent}>
         <Title>Gerenciar Usuários</Title>
 
-        {/* Botão para adicionar um novo usuário (funcionalidade não implementada). */}
+        {/* Botão para adicionar um novo usuário. */}
         <Button
           title="Adicionar Novo Usuário"
-          onPress={() => {}}
+          onPress={() => openForm(null)}
           containerStyle={styles.button as ViewStyle}
           buttonStyle={styles.buttonStyle}
         />
@@ -117,35 +168,62 @@ const UserManagementScreen: React.FC = () => {
           <EmptyText>Nenhum usuário cadastrado</EmptyText>
         ) : (
           // Mapeia a lista de usuários para renderizar um card para cada um.
-          users.map((user) => (
-            <UserCard key={user.id}>
+          users.map((item) => (
+            <UserCard key={item.id}>
               <ListItem.Content>
                 <ListItem.Title style={styles.userName as TextStyle}>
-                  {user.name}
+                  {item.name}
                 </ListItem.Title>
                 <ListItem.Subtitle style={styles.userEmail as TextStyle}>
-                  {user.email}
+                  {item.email}
                 </ListItem.Subtitle>
-                <RoleBadge role={user.role}>
-                  <RoleText role={user.role}>
-                    {getRoleText(user.role)}
-                  </RoleText>
-                </RoleBadge>
-                {/* Container para os botões de ação (Editar/Excluir). */}
+                {item.role === 'doctor' && (
+                  <ListItem.Subtitle style={styles.userEmail as TextStyle}>
+                    {getSpecialtyName(catalog, item.specialty)}
+                  </ListItem.Subtitle>
+                )}
+                <BadgeRow>
+                  <RoleBadge role={item.role}>
+                    <RoleText role={item.role}>
+                      {getRoleText(item.role)}
+                    </RoleText>
+                  </RoleBadge>
+                  {item.active === false && (
+                    <InactiveBadge>
+                      <InactiveText>Inativo</InactiveText>
+                    </InactiveBadge>
+                  )}
+                </BadgeRow>
+                {/* Container para os botões de ação (Editar/Desativar/Excluir). */}
                 <ButtonContainer>
                   <Button
                     title="Editar"
-                    onPress={() => {}} // Funcionalidade de edição não implementada.
+                    onPress={() => openForm(item)}
                     containerStyle={styles.actionButton as ViewStyle}
                     buttonStyle={styles.editButton}
                   />
+                  <Button
+                    title={item.active === false ? 'Ativar' : 'Desativar'}
+                    onPress={() => handleToggleActive(item)}
+                    containerStyle={styles.actionButton as ViewStyle}
+                    buttonStyle={styles.toggleButton}
+                  />
                   <Button
                     title="Excluir"
-                    onPress={() => handleDeleteUser(user.id)}
+                    onPress={() => handleDeleteUser(item)}
                     containerStyle={styles.actionButton as ViewStyle}
                     buttonStyle={styles.deleteButton}
                   />
                 </ButtonContainer>
+                {/* O admin define em que unidade e consultório o médico atende em cada dia. */}
+                {item.role === 'doctor' && (
+                  <Button
+                    title="Horários e Unidades"
+                    onPress={() => setScheduleDoctorId(item.id)}
+                    containerStyle={styles.fullWidthButton as ViewStyle}
+                    buttonStyle={styles.editButton}
+                  />
+                )}
               </ListItem.Content>
             </UserCard>
           ))
@@ -159,6 +237,21 @@ const UserManagementScreen: React.FC = () => {
           buttonStyle={styles.backButton}
         />
       </ScrollView>
+
+      <UserFormModal
+        visible={formVisible}
+        user={editingUser}
+        onClose={closeForm}
+        onSubmit={handleSubmitForm}
+      />
+
+      {scheduleDoctorId && (
+        <ScheduleEditorModal
+          visible={!!scheduleDoctorId}
+          doctorId={scheduleDoctorId}
+          onClose={() => setScheduleDoctorId(null)}
+        />
+      )}
     </Container>
   );
 };
@@ -182,12 +275,20 @@ const styles = {
   },
   actionButton: {
     marginTop: 8,
-    width: '48%',
+    width: '32%',
+  },
+  fullWidthButton: {
+    marginTop: 8,
+    width: '100%',
   },
   editButton: {
     backgroundColor: theme.colors.primary,
     paddingVertical: 8,
   },
+  toggleButton: {
+    backgroundColor: theme.colors.warning,
+    paddingVertical: 8,
+  },
   deleteButton: {
     backgroundColor: theme.colors.error,
     paddingVertical: 8,
@@ -255,9 +356,26 @@ const RoleBadge = styled.View<StyledProps>`
   padding: 4px 8px;
   border-radius: 4px;
   align-self: flex-start;
+`;
+
+const BadgeRow = styled.View`
+  flex-direction: row;
   margin-top: 8px;
 `;
 
+const InactiveBadge = styled.View`
+  background-color: ${theme.colors.error + '20'};
+  padding: 4px 8px;
+  border-radius: 4px;
+  margin-left: 8px;
+`;
+
+const InactiveText = styled.Text`
+  color: ${theme.colors.error};
+  font-size: 12px;
+  font-weight: 500;
+`;
+
 const RoleText = styled.Text<StyledProps>`
   color: ${(props: StyledProps) => {
     switch (props.role) {
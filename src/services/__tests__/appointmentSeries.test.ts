@@ -0,0 +1,72 @@
+import { RecurrenceRule } from '../../types/appointments';
+import { appointmentSeriesService, MAX_SERIES_OCCURRENCES } from '../appointmentSeries';
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'weekly',
+  onConflict: 'skip',
+  ...overrides,
+});
+
+describe('appointmentSeriesService.getOccurrenceDates', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2026, 0, 10, 12) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('repete semanalmente até a quantidade de consultas', () => {
+    const dates = appointmentSeriesService.getOccurrenceDates('2026-01-12', rule({ occurrences: 3 }));
+
+    expect(dates).toEqual(['2026-01-12', '2026-01-19', '2026-01-26']);
+  });
+
+  it('repete quinzenalmente até a data final, incluindo-a', () => {
+    const dates = appointmentSeriesService.getOccurrenceDates(
+      '2026-01-12',
+      rule({ frequency: 'biweekly', endDate: '2026-02-09' })
+    );
+
+    expect(dates).toEqual(['2026-01-12', '2026-01-26', '2026-02-09']);
+  });
+
+  it('mantém o dia do mês nas séries mensais, caindo no último dia em meses curtos', () => {
+    const dates = appointmentSeriesService.getOccurrenceDates(
+      '2026-01-31',
+      rule({ frequency: 'monthly', occurrences: 3 })
+    );
+
+    expect(dates).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('exige a data final ou a quantidade de consultas', () => {
+    expect(() => appointmentSeriesService.getOccurrenceDates('2026-01-12', rule({}))).toThrow(
+      'Informe a data final ou a quantidade de consultas da série'
+    );
+  });
+
+  it('limita a quantidade de consultas', () => {
+    expect(() => appointmentSeriesService.getOccurrenceDates('2026-01-12', rule({ occurrences: 1 }))).toThrow(
+      `A série deve ter entre 2 e ${MAX_SERIES_OCCURRENCES} consultas`
+    );
+    expect(() =>
+      appointmentSeriesService.getOccurrenceDates('2026-01-12', rule({ occurrences: MAX_SERIES_OCCURRENCES + 1 }))
+    ).toThrow(`A série deve ter entre 2 e ${MAX_SERIES_OCCURRENCES} consultas`);
+  });
+
+  it('recusa datas finais inválidas ou anteriores à primeira consulta', () => {
+    expect(() => appointmentSeriesService.getOccurrenceDates('2026-01-12', rule({ endDate: '12/02/2026' }))).toThrow(
+      'Data final inválida'
+    );
+    expect(() => appointmentSeriesService.getOccurrenceDates('2026-01-12', rule({ endDate: '2026-01-12' }))).toThrow(
+      'A data final deve ser posterior à primeira consulta'
+    );
+  });
+
+  it('não passa do horizonte de agendamento', () => {
+    expect(() =>
+      appointmentSeriesService.getOccurrenceDates('2026-01-12', rule({ frequency: 'monthly', occurrences: 12 }))
+    ).toThrow(/meses à frente/);
+  });
+});
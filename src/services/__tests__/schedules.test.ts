@@ -0,0 +1,45 @@
+import { DaySchedule, DoctorSchedule, Weekday } from '../../types/schedules';
+import { scheduleService } from '../schedules';
+
+const DAY_OFF: DaySchedule = { enabled: false, start: '09:00', end: '18:00' };
+
+const buildSchedule = (monday: DaySchedule, slotDuration = 30): DoctorSchedule => ({
+  doctorId: 'doctor-1',
+  slotDuration,
+  days: { 0: DAY_OFF, 1: monday, 2: DAY_OFF, 3: DAY_OFF, 4: DAY_OFF, 5: DAY_OFF, 6: DAY_OFF } as Record<Weekday, DaySchedule>,
+});
+
+describe('scheduleService.generateTimeSlots', () => {
+  it('divide o expediente em horários da duração da consulta', () => {
+    const schedule = buildSchedule({ enabled: true, start: '09:00', end: '11:00' });
+
+    expect(scheduleService.generateTimeSlots(schedule, 1)).toEqual(['09:00', '09:30', '10:00', '10:30']);
+  });
+
+  it('pula o intervalo de almoço', () => {
+    const schedule = buildSchedule({
+      enabled: true,
+      start: '11:00',
+      end: '14:00',
+      breakStart: '12:00',
+      breakEnd: '13:00',
+    });
+
+    expect(scheduleService.generateTimeSlots(schedule, 1)).toEqual(['11:00', '11:30', '13:00', '13:30']);
+  });
+
+  it('não oferece horários que invadem o intervalo ou passam do fim do expediente', () => {
+    const schedule = buildSchedule(
+      { enabled: true, start: '09:00', end: '12:15', breakStart: '10:30', breakEnd: '11:00' },
+      45
+    );
+
+    expect(scheduleService.generateTimeSlots(schedule, 1)).toEqual(['09:00', '09:45', '11:00']);
+  });
+
+  it('não oferece horários em dias sem atendimento', () => {
+    const schedule = buildSchedule({ enabled: true, start: '09:00', end: '11:00' });
+
+    expect(scheduleService.generateTimeSlots(schedule, 0)).toEqual([]);
+  });
+});
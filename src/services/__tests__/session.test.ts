@@ -0,0 +1,115 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { jwtDecode } from 'jwt-decode';
+import { SessionPayload, User } from '../../types/auth';
+import { sessionService } from '../session';
+import { storageService, STORAGE_KEYS } from '../storage';
+
+const user = { id: 'patient-1', role: 'patient' } as const;
+
+const saveUsers = async (users: Partial<User>[]) => {
+  await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
+};
+
+// Troca um caractere da parte indicada do token
+const tamper = (token: string, part: number) => {
+  const parts = token.split('.');
+  const last = parts[part].slice(-1);
+  parts[part] = parts[part].slice(0, -1) + (last === 'A' ? 'B' : 'A');
+  return parts.join('.');
+};
+
+describe('sessionService', () => {
+  beforeEach(async () => {
+    jest.useRealTimers();
+    await storageService.clearAll();
+  });
+
+  it('emite um token no formato JWT com o usuário e a validade', async () => {
+    const token = await sessionService.createToken(user);
+
+    expect(token.split('.')).toHaveLength(3);
+    const payload = jwtDecode<SessionPayload>(token);
+    expect(payload).toMatchObject({ sub: 'patient-1', role: 'patient' });
+    expect(payload.exp - payload.iat).toBe(30 * 60);
+  });
+
+  it('aceita o token assinado neste dispositivo', async () => {
+    const token = await sessionService.createToken(user);
+
+    const payload = await sessionService.verifyToken(token);
+    expect(payload).toMatchObject({ sub: 'patient-1', role: 'patient' });
+  });
+
+  it('usa o mesmo segredo entre os tokens e o guarda no armazenamento', async () => {
+    const first = await sessionService.createToken(user);
+    await sessionService.createToken(user);
+
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.SESSION_SECRET)).not.toBeNull();
+    expect(await sessionService.verifyToken(first)).not.toBeNull();
+  });
+
+  it('recusa tokens com o conteúdo ou a assinatura alterados', async () => {
+    const token = await sessionService.createToken(user);
+
+    expect(await sessionService.verifyToken(tamper(token, 1))).toBeNull();
+    expect(await sessionService.verifyToken(tamper(token, 2))).toBeNull();
+  });
+
+  it('recusa tokens que trocam o perfil mantendo a assinatura', async () => {
+    const token = await sessionService.createToken(user);
+    const [header, , signature] = token.split('.');
+    const forgedBody = Buffer.from(JSON.stringify({ ...jwtDecode(token), role: 'admin' })).toString('base64url');
+
+    expect(await sessionService.verifyToken(`${header}.${forgedBody}.${signature}`)).toBeNull();
+  });
+
+  it('recusa tokens assinados com outro segredo', async () => {
+    const token = await sessionService.createToken(user);
+    await storageService.clearAll();
+
+    expect(await sessionService.verifyToken(token)).toBeNull();
+  });
+
+  it('recusa valores ausentes ou malformados', async () => {
+    expect(await sessionService.verifyToken(null)).toBeNull();
+    expect(await sessionService.verifyToken('')).toBeNull();
+    expect(await sessionService.verifyToken('a.b')).toBeNull();
+    expect(await sessionService.verifyToken('a.b.c')).toBeNull();
+  });
+
+  it('recusa tokens expirados', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T10:00:00Z') });
+    const token = await sessionService.createToken(user);
+
+    jest.setSystemTime(new Date('2026-01-01T10:31:00Z'));
+    expect(await sessionService.verifyToken(token)).toBeNull();
+  });
+
+  describe('refreshToken', () => {
+    it('renova a sessão de um usuário ativo', async () => {
+      await saveUsers([{ id: 'patient-1', role: 'patient' }]);
+      const token = await sessionService.createToken(user);
+
+      const refreshed = await sessionService.refreshToken(token);
+      expect(refreshed).not.toBeNull();
+      expect(await sessionService.verifyToken(refreshed)).toMatchObject({ sub: 'patient-1' });
+    });
+
+    it('não renova a sessão de usuários desativados ou excluídos', async () => {
+      const token = await sessionService.createToken(user);
+
+      await saveUsers([{ id: 'patient-1', role: 'patient', active: false }]);
+      expect(await sessionService.refreshToken(token)).toBeNull();
+
+      await saveUsers([]);
+      expect(await sessionService.refreshToken(token)).toBeNull();
+    });
+
+    it('não renova tokens inválidos', async () => {
+      await saveUsers([{ id: 'patient-1', role: 'patient' }]);
+      const token = await sessionService.createToken(user);
+
+      expect(await sessionService.refreshToken(tamper(token, 2))).toBeNull();
+    });
+  });
+});
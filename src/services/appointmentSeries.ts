@@ -0,0 +1,98 @@
+import {
+  Appointment,
+  AppointmentMove,
+  CreateAppointmentData,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesBookingResult,
+} from '../types/appointments';
+import { appointmentService, BOOKING_HORIZON_MONTHS } from './appointments';
+import { Actor, assertCan } from '../utils/permissions';
+import { addDays, addMonths, compareDates, daysBetween, isValidISODate, todayISO } from '../utils/date';
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Semanal',
+  biweekly: 'Quinzenal',
+  monthly: 'Mensal',
+};
+
+// Quantidade máxima de consultas em uma série
+export const MAX_SERIES_OCCURRENCES = 24;
+
+// Cada data é calculada a partir da primeira, para que as mensais não se desloquem ao passar por meses curtos
+const getOccurrenceDate = (startDate: string, frequency: RecurrenceFrequency, index: number): string => {
+  switch (frequency) {
+    case 'weekly':
+      return addDays(startDate, index * 7);
+    case 'biweekly':
+      return addDays(startDate, index * 14);
+    default:
+      return addMonths(startDate, index);
+  }
+};
+
+export const appointmentSeriesService = {
+  // Datas da série a partir da primeira, até a data final ou a quantidade de consultas
+  getOccurrenceDates(startDate: string, rule: RecurrenceRule): string[] {
+    if (!rule.endDate && !rule.occurrences) {
+      throw new Error('Informe a data final ou a quantidade de consultas da série');
+    }
+    if (
+      rule.occurrences !== undefined &&
+      (!Number.isInteger(rule.occurrences) || rule.occurrences < 2 || rule.occurrences > MAX_SERIES_OCCURRENCES)
+    ) {
+      throw new Error(`A série deve ter entre 2 e ${MAX_SERIES_OCCURRENCES} consultas`);
+    }
+    if (rule.endDate && !isValidISODate(rule.endDate)) {
+      throw new Error('Data final inválida');
+    }
+    if (rule.endDate && compareDates(rule.endDate, startDate) <= 0) {
+      throw new Error('A data final deve ser posterior à primeira consulta');
+    }
+
+    const dates: string[] = [];
+    for (let index = 0; index < MAX_SERIES_OCCURRENCES; index++) {
+      const date = getOccurrenceDate(startDate, rule.frequency, index);
+      if (rule.endDate && compareDates(date, rule.endDate) > 0) break;
+      if (rule.occurrences && dates.length >= rule.occurrences) break;
+      dates.push(date);
+    }
+
+    if (compareDates(dates[dates.length - 1], addMonths(todayISO(), BOOKING_HORIZON_MONTHS)) > 0) {
+      throw new Error(`Séries só podem ir até ${BOOKING_HORIZON_MONTHS} meses à frente; reduza a quantidade ou a data final`);
+    }
+    return dates;
+  },
+
+  // Agenda a série no mesmo horário em todas as datas; datas fora da agenda do médico, bloqueadas ou
+  // com o horário ocupado seguem a estratégia escolhida
+  async createSeries(data: CreateAppointmentData, rule: RecurrenceRule, actor: Actor): Promise<SeriesBookingResult> {
+    assertCan(actor, 'appointment:create', data);
+    const dates = this.getOccurrenceDates(data.date, rule);
+    return await appointmentService.createAppointmentSeries(data, dates, actor, rule.onConflict);
+  },
+
+  // Remarca a ocorrência e as seguintes com o mesmo deslocamento de dias e o novo horário;
+  // se alguma data não puder mudar, nenhuma muda
+  async rescheduleFutureOccurrences(
+    appointmentId: string,
+    date: string,
+    time: string,
+    changedBy: Actor,
+    reason?: string
+  ): Promise<Appointment[]> {
+    const occurrences = await appointmentService.getReschedulableFutureOccurrences(appointmentId);
+    if (occurrences.length === 0 || occurrences[0].id !== appointmentId) {
+      throw new Error('Só é possível remarcar consultas pendentes ou confirmadas');
+    }
+
+    const shift = daysBetween(occurrences[0].date, date);
+    const moves: AppointmentMove[] = occurrences.map(appointment => ({
+      appointmentId: appointment.id,
+      date: addDays(appointment.date, shift),
+      time,
+    }));
+
+    return await appointmentService.rescheduleOccurrences(moves, changedBy, reason);
+  },
+};
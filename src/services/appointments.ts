@@ -0,0 +1,580 @@
+import {
+  Appointment,
+  AppointmentModality,
+  AppointmentStatus,
+  AppointmentStatusChange,
+  AppointmentMove,
+  CreateAppointmentData,
+  RecurrenceConflictStrategy,
+  SeriesBookingResult,
+  SkippedOccurrence,
+} from '../types/appointments';
+import { storageService } from './storage';
+import { notificationService } from './notifications';
+import { doctorService } from './doctors';
+import { specialtyService } from './specialties';
+import { waitlistService } from './waitlist';
+import { telemedicineService, WAITING_ROOM_OPENS_MINUTES } from './telemedicine';
+import { clinicService } from './clinics';
+import { scheduleService } from './schedules';
+import { APPOINTMENT_STATUSES, canTransition, getStatusText } from '../utils/appointmentStatus';
+import { Actor, PermissionAction, assertCan } from '../utils/permissions';
+import { addMonths, compareDates, formatDate, isPastDate, isValidISODate, todayISO } from '../utils/date';
+import { CLINIC_TIME_ZONE, zonedTimeToInstant } from '../utils/timezone';
+import { generateId } from '../utils/id';
+import { normalizeAppointment } from '../utils/appointmentRecords';
+import { isValidTime } from '../utils/time';
+
+// Status a partir dos quais a consulta pode ser remarcada
+export const RESCHEDULABLE_STATUSES: AppointmentStatus[] = ['pending', 'confirmed'];
+
+// Status em que a consulta ocupa o horário do médico
+const SLOT_OCCUPYING_STATUSES: AppointmentStatus[] = APPOINTMENT_STATUSES.filter(s => s !== 'cancelled');
+
+export const SLOT_UNAVAILABLE_MESSAGE = 'Este horário não está mais disponível. Escolha outro horário.';
+
+// Até quantos meses à frente é possível agendar
+export const BOOKING_HORIZON_MONTHS = 3;
+
+// Fila que serializa as operações de leitura e escrita das consultas,
+// evitando que duas gravações simultâneas ocupem o mesmo horário
+let queue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(operation: () => Promise<T>): Promise<T> => {
+  const result = queue.then(operation);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const loadAppointments = async (): Promise<Appointment[]> => {
+  const appointments = (await storageService.getAppointments()) as Appointment[];
+  return appointments.map(normalizeAppointment);
+};
+
+const findAppointment = (appointments: Appointment[], appointmentId: string): Appointment => {
+  const appointment = appointments.find(a => a.id === appointmentId);
+  if (!appointment) {
+    throw new Error('Consulta não encontrada');
+  }
+  return appointment;
+};
+
+const assertTransition = (appointment: Appointment, to: AppointmentStatus) => {
+  if (!canTransition(appointment.status, to)) {
+    throw new Error(
+      `Não é possível mudar a consulta de "${getStatusText(appointment.status)}" para "${getStatusText(to)}"`
+    );
+  }
+};
+
+const getStatusChange = (status: AppointmentStatus, actor: Actor): AppointmentStatusChange => ({
+  status,
+  changedBy: actor.id,
+  changedByRole: actor.role,
+  changedAt: new Date().toISOString(),
+});
+
+// Recusa datas inválidas, no passado ou além do horizonte de agendamento e horários de hoje que já passaram
+const assertBookableSlot = (date: string, time: string, timeZone: string = CLINIC_TIME_ZONE) => {
+  if (!isValidISODate(date)) {
+    throw new Error('Data inválida');
+  }
+  if (isPastDate(date)) {
+    throw new Error('Não é possível agendar consultas em datas passadas');
+  }
+  if (!isValidTime(time)) {
+    throw new Error('Horário inválido');
+  }
+  if (new Date(zonedTimeToInstant(date, time, timeZone)).getTime() <= Date.now()) {
+    throw new Error('Não é possível agendar consultas em horários que já passaram');
+  }
+  if (compareDates(date, addMonths(todayISO(), BOOKING_HORIZON_MONTHS)) > 0) {
+    throw new Error(`Só é possível agendar consultas até ${BOOKING_HORIZON_MONTHS} meses à frente`);
+  }
+};
+
+// O horário faz parte da agenda do médico na data e não cai em um bloqueio
+const isInSchedule = async (doctorId: string, date: string, time: string): Promise<boolean> => {
+  const slots = await scheduleService.getTimeSlots(doctorId, date);
+  return slots.includes(time);
+};
+
+// A agenda pode ter mudado enquanto o paciente escolhia o horário
+const assertInSchedule = async (doctorId: string, date: string, time: string) => {
+  if (!(await isInSchedule(doctorId, date, time))) {
+    throw new Error(SLOT_UNAVAILABLE_MESSAGE);
+  }
+};
+
+const formatDateList = (dates: string[]) => dates.map(formatDate).join(', ');
+
+const isSlotTaken = (
+  appointments: Appointment[],
+  doctorId: string,
+  date: string,
+  time: string,
+  ignoreAppointmentId?: string
+): boolean => {
+  return appointments.some(a =>
+    a.id !== ignoreAppointmentId &&
+    a.doctorId === doctorId &&
+    a.date === date &&
+    a.time === time &&
+    SLOT_OCCUPYING_STATUSES.includes(a.status)
+  );
+};
+
+type AppointmentLocation = Pick<Appointment, 'unitId' | 'roomId'>;
+
+// Unidade e consultório em que o médico atende na data; consultas online não têm local
+const getLocation = async (
+  doctorId: string,
+  date: string,
+  modality: AppointmentModality
+): Promise<AppointmentLocation> => {
+  const location = modality === 'in_person' ? await clinicService.getDoctorLocation(doctorId, date) : null;
+  return { unitId: location?.unitId, roomId: location?.roomId };
+};
+
+// Nova data, horário e local da consulta, com o registro no histórico; recusa consultas que não podem ser remarcadas
+const getRescheduleChanges = (
+  appointment: Appointment,
+  date: string,
+  time: string,
+  location: AppointmentLocation,
+  changedBy: Actor,
+  reason?: string
+): Partial<Appointment> => {
+  assertCan(changedBy, 'appointment:reschedule', appointment);
+  if (!RESCHEDULABLE_STATUSES.includes(appointment.status)) {
+    throw new Error('Só é possível remarcar consultas pendentes ou confirmadas');
+  }
+  assertBookableSlot(date, time, appointment.timeZone);
+
+  // Remarcação feita pelo paciente volta a aguardar a confirmação do médico
+  const status = changedBy.role === 'patient' ? 'pending' : appointment.status;
+
+  return {
+    date,
+    time,
+    startsAt: zonedTimeToInstant(date, time, appointment.timeZone),
+    ...location,
+    status,
+    ...(status !== appointment.status && {
+      statusHistory: [...(appointment.statusHistory || []), getStatusChange(status, changedBy)],
+    }),
+    history: [
+      ...(appointment.history || []),
+      {
+        previousDate: appointment.date,
+        previousTime: appointment.time,
+        newDate: date,
+        newTime: time,
+        changedBy: changedBy.id,
+        changedByRole: changedBy.role,
+        changedAt: new Date().toISOString(),
+        ...(reason && { reason }),
+      },
+    ],
+  };
+};
+
+// Só é possível agendar com médicos cadastrados e ativos
+const getBookableDoctor = async (doctorId: string) => {
+  const doctor = await doctorService.getDoctorById(doctorId);
+  if (!doctor || doctor.active === false) {
+    throw new Error('Médico não encontrado ou indisponível para agendamento');
+  }
+  return { doctorName: doctor.name, specialty: await specialtyService.getDisplayName(doctor.specialty) };
+};
+
+const buildAppointment = (
+  data: CreateAppointmentData,
+  date: string,
+  doctorData: { doctorName: string; specialty: string },
+  location: AppointmentLocation,
+  actor: Actor,
+  seriesId?: string
+): Appointment => ({
+  ...data,
+  ...doctorData,
+  ...location,
+  date,
+  startsAt: zonedTimeToInstant(date, data.time, CLINIC_TIME_ZONE),
+  timeZone: CLINIC_TIME_ZONE,
+  id: generateId(),
+  status: 'pending',
+  statusHistory: [getStatusChange('pending', actor)],
+  ...(seriesId && { seriesId }),
+});
+
+// Consultas online recebem a sala virtual do provedor de teleconsulta
+const withMeetingRoom = async (appointment: Appointment): Promise<Appointment> => {
+  if (appointment.modality !== 'online') return appointment;
+  return { ...appointment, meetingRoom: await telemedicineService.createRoom(appointment) };
+};
+
+// Ocorrência escolhida e as seguintes da mesma série, em ordem de data
+const getFutureOccurrences = (appointments: Appointment[], appointment: Appointment): Appointment[] => {
+  if (!appointment.seriesId) {
+    throw new Error('Esta consulta não faz parte de uma série');
+  }
+  return appointments
+    .filter(a => a.seriesId === appointment.seriesId && compareDates(a.date, appointment.date) >= 0)
+    .sort((a, b) => compareDates(a.date, b.date));
+};
+
+// Aplica as alterações calculadas a partir da consulta atual; a função pode lançar erro para recusá-las
+const updateAppointment = (
+  appointmentId: string,
+  getChanges: (appointment: Appointment) => Partial<Appointment>
+): Promise<Appointment> => runExclusive(async () => {
+  const appointments = await loadAppointments();
+  const appointment = findAppointment(appointments, appointmentId);
+
+  const changes = getChanges(appointment);
+  const updated: Appointment = { ...appointment, ...changes };
+  const slotChanged = updated.date !== appointment.date || updated.time !== appointment.time;
+  if (
+    slotChanged &&
+    SLOT_OCCUPYING_STATUSES.includes(updated.status) &&
+    isSlotTaken(appointments, updated.doctorId, updated.date, updated.time, updated.id)
+  ) {
+    throw new Error(SLOT_UNAVAILABLE_MESSAGE);
+  }
+
+  await storageService.saveAppointments(
+    appointments.map(a => (a.id === appointmentId ? updated : a))
+  );
+
+  return updated;
+});
+
+// Muda o status após conferir a permissão do usuário sobre a consulta e a regra de transição
+const transitionAppointment = (
+  appointmentId: string,
+  to: AppointmentStatus,
+  action: PermissionAction,
+  actor: Actor,
+  extra: Partial<Appointment> = {}
+): Promise<Appointment> => updateAppointment(appointmentId, (appointment) => {
+  assertCan(actor, action, appointment);
+  assertTransition(appointment, to);
+  return {
+    ...extra,
+    status: to,
+    statusHistory: [...(appointment.statusHistory || []), getStatusChange(to, actor)],
+  };
+});
+
+export const appointmentService = {
+  async getAllAppointments(): Promise<Appointment[]> {
+    return await loadAppointments();
+  },
+
+  async getAppointmentById(appointmentId: string): Promise<Appointment | null> {
+    const appointments = await this.getAllAppointments();
+    return appointments.find(a => a.id === appointmentId) || null;
+  },
+
+  async getAppointmentsByPatient(patientId: string): Promise<Appointment[]> {
+    const appointments = await this.getAllAppointments();
+    return appointments.filter(a => a.patientId === patientId);
+  },
+
+  async getAppointmentsByDoctor(doctorId: string): Promise<Appointment[]> {
+    const appointments = await this.getAllAppointments();
+    return appointments.filter(a => a.doctorId === doctorId);
+  },
+
+  // Horários já ocupados (consultas pendentes ou confirmadas) do médico na data
+  async getBookedTimes(doctorId: string, date: string): Promise<string[]> {
+    const appointments = await this.getAppointmentsByDoctor(doctorId);
+    return appointments
+      .filter(a => a.date === date && SLOT_OCCUPYING_STATUSES.includes(a.status))
+      .map(a => a.time);
+  },
+
+  async createAppointment(data: CreateAppointmentData, actor: Actor): Promise<Appointment> {
+    assertCan(actor, 'appointment:create', data);
+    assertBookableSlot(data.date, data.time);
+    await assertInSchedule(data.doctorId, data.date, data.time);
+
+    const doctorData = await getBookableDoctor(data.doctorId);
+    const location = await getLocation(data.doctorId, data.date, data.modality);
+
+    // A verificação de conflito e a gravação acontecem na mesma operação exclusiva
+    const newAppointment = await runExclusive(async () => {
+      const appointments = await loadAppointments();
+
+      if (isSlotTaken(appointments, data.doctorId, data.date, data.time)) {
+        throw new Error(SLOT_UNAVAILABLE_MESSAGE);
+      }
+
+      const appointment = await withMeetingRoom(buildAppointment(data, data.date, doctorData, location, actor));
+
+      await storageService.saveAppointments([...appointments, appointment]);
+      return appointment;
+    });
+
+    // Avisa o médico sobre a nova consulta
+    await notificationService.notifyNewAppointment(newAppointment.doctorId, newAppointment);
+
+    return newAppointment;
+  },
+
+  async rescheduleAppointment(
+    appointmentId: string,
+    date: string,
+    time: string,
+    changedBy: Actor,
+    reason?: string
+  ): Promise<Appointment> {
+    // O local segue a agenda do médico na nova data
+    const current = findAppointment(await loadAppointments(), appointmentId);
+    await assertInSchedule(current.doctorId, date, time);
+    const location = await getLocation(current.doctorId, date, current.modality);
+
+    const updated = await updateAppointment(appointmentId, (appointment) =>
+      getRescheduleChanges(appointment, date, time, location, changedBy, reason)
+    );
+
+    // Avisa a outra parte sobre a mudança
+    const change = updated.history![updated.history!.length - 1];
+    const recipientId = changedBy.role === 'patient' ? updated.doctorId : updated.patientId;
+    await notificationService.notifyAppointmentRescheduled(recipientId, updated, change);
+
+    return updated;
+  },
+
+  // Cria as consultas de uma série recorrente em uma única operação; datas fora da agenda do médico,
+  // bloqueadas ou com o horário ocupado são puladas ou recusam a série inteira, conforme a estratégia
+  async createAppointmentSeries(
+    data: CreateAppointmentData,
+    dates: string[],
+    actor: Actor,
+    onConflict: RecurrenceConflictStrategy
+  ): Promise<SeriesBookingResult> {
+    assertCan(actor, 'appointment:create', data);
+    dates.forEach(date => assertBookableSlot(date, data.time));
+
+    const doctorData = await getBookableDoctor(data.doctorId);
+    const seriesId = generateId();
+    const locations = await Promise.all(dates.map(date => getLocation(data.doctorId, date, data.modality)));
+
+    const result = await runExclusive(async () => {
+      const appointments = await loadAppointments();
+      const created: Appointment[] = [];
+      const skipped: SkippedOccurrence[] = [];
+      const outOfSchedule: string[] = [];
+      const taken: string[] = [];
+
+      for (const [index, date] of dates.entries()) {
+        if (!(await isInSchedule(data.doctorId, date, data.time))) {
+          outOfSchedule.push(date);
+          skipped.push({ date, reason: 'O médico não atende neste dia e horário' });
+        } else if (isSlotTaken(appointments, data.doctorId, date, data.time)) {
+          taken.push(date);
+          skipped.push({ date, reason: 'Horário já ocupado' });
+        } else {
+          const appointment = buildAppointment(data, date, doctorData, locations[index], actor, seriesId);
+          created.push(await withMeetingRoom(appointment));
+        }
+      }
+
+      if (onConflict === 'fail' && outOfSchedule.length > 0) {
+        throw new Error(`O médico não atende às ${data.time} em ${formatDateList(outOfSchedule)}`);
+      }
+      if (onConflict === 'fail' && taken.length > 0) {
+        throw new Error(`O horário das ${data.time} não está livre em ${formatDateList(taken)}`);
+      }
+      if (created.length === 0) {
+        throw new Error('Nenhuma data da série está disponível');
+      }
+
+      await storageService.saveAppointments([...appointments, ...created]);
+      return { created, skipped };
+    });
+
+    // Avisa o médico uma única vez sobre a série
+    await notificationService.notifyNewAppointmentSeries(data.doctorId, result.created);
+
+    return result;
+  },
+
+  // Move várias ocorrências de uma série em uma única operação; recusa todas se alguma não puder mudar
+  async rescheduleOccurrences(
+    moves: AppointmentMove[],
+    changedBy: Actor,
+    reason?: string
+  ): Promise<Appointment[]> {
+    const movingIds = new Set(moves.map(move => move.appointmentId));
+    const current = await loadAppointments();
+    const locations = await Promise.all(moves.map(move => {
+      const appointment = findAppointment(current, move.appointmentId);
+      return getLocation(appointment.doctorId, move.date, appointment.modality);
+    }));
+
+    const updated = await runExclusive(async () => {
+      const appointments = await loadAppointments();
+      // Os horários atuais das ocorrências movidas ficam livres para as próprias ocorrências
+      const others = appointments.filter(a => !movingIds.has(a.id));
+
+      const changed: Appointment[] = [];
+      const outOfSchedule: AppointmentMove[] = [];
+      for (const [index, move] of moves.entries()) {
+        const appointment = findAppointment(appointments, move.appointmentId);
+        const changes = getRescheduleChanges(appointment, move.date, move.time, locations[index], changedBy, reason);
+        if (!(await isInSchedule(appointment.doctorId, move.date, move.time))) {
+          outOfSchedule.push(move);
+        } else if (isSlotTaken(others, appointment.doctorId, move.date, move.time)) {
+          throw new Error(`O horário de ${formatDate(move.date)} às ${move.time} não está mais disponível`);
+        }
+        changed.push({ ...appointment, ...changes });
+      }
+      if (outOfSchedule.length > 0) {
+        throw new Error(
+          `O médico não atende às ${outOfSchedule[0].time} em ${formatDateList(outOfSchedule.map(move => move.date))}`
+        );
+      }
+
+      await storageService.saveAppointments(
+        appointments.map(a => changed.find(c => c.id === a.id) || a)
+      );
+      return changed;
+    });
+
+    if (updated.length > 0) {
+      const recipientId = changedBy.role === 'patient' ? updated[0].doctorId : updated[0].patientId;
+      await notificationService.notifySeriesRescheduled(recipientId, updated, reason);
+    }
+    return updated;
+  },
+
+  // Cancela a ocorrência escolhida e as seguintes da mesma série que ainda podem ser canceladas
+  async cancelFutureOccurrences(appointmentId: string, actor: Actor, reason?: string): Promise<Appointment[]> {
+    const cancelled = await runExclusive(async () => {
+      const appointments = await loadAppointments();
+      const appointment = findAppointment(appointments, appointmentId);
+      assertCan(actor, 'appointment:cancel', appointment);
+
+      const targets = getFutureOccurrences(appointments, appointment)
+        .filter(a => canTransition(a.status, 'cancelled'));
+      if (targets.length === 0) {
+        throw new Error('Não há consultas desta série para cancelar');
+      }
+
+      const changed: Appointment[] = targets.map(a => ({
+        ...a,
+        status: 'cancelled',
+        ...(reason && { cancelReason: reason }),
+        statusHistory: [...(a.statusHistory || []), getStatusChange('cancelled', actor)],
+      }));
+
+      await storageService.saveAppointments(
+        appointments.map(a => changed.find(c => c.id === a.id) || a)
+      );
+      return changed;
+    });
+
+    const recipientId = actor.role === 'patient' ? cancelled[0].doctorId : cancelled[0].patientId;
+    await notificationService.notifySeriesCancelled(recipientId, cancelled, reason);
+    // Cada horário liberado é oferecido à lista de espera do médico
+    for (const appointment of cancelled) {
+      await waitlistService.offerSlot(appointment.doctorId, appointment.date, appointment.time);
+    }
+    return cancelled;
+  },
+
+  // Ocorrência escolhida e as seguintes da série que ainda podem ser remarcadas
+  async getReschedulableFutureOccurrences(appointmentId: string): Promise<Appointment[]> {
+    const appointments = await loadAppointments();
+    const appointment = findAppointment(appointments, appointmentId);
+    return getFutureOccurrences(appointments, appointment)
+      .filter(a => RESCHEDULABLE_STATUSES.includes(a.status));
+  },
+
+  async confirmAppointment(appointmentId: string, actor: Actor): Promise<Appointment> {
+    const updated = await transitionAppointment(appointmentId, 'confirmed', 'appointment:confirm', actor);
+    await notificationService.notifyAppointmentConfirmed(updated.patientId, updated);
+    return updated;
+  },
+
+  async cancelAppointment(appointmentId: string, actor: Actor, reason?: string): Promise<Appointment> {
+    const updated = await transitionAppointment(appointmentId, 'cancelled', 'appointment:cancel', actor, {
+      ...(reason && { cancelReason: reason }),
+    });
+    // Cancelamento feito pelo paciente avisa o médico; nos demais casos, o paciente
+    const recipientId = actor.role === 'patient' ? updated.doctorId : updated.patientId;
+    await notificationService.notifyAppointmentCancelled(recipientId, updated, reason);
+    // O horário liberado é oferecido aos pacientes da lista de espera do médico
+    await waitlistService.offerSlot(updated.doctorId, updated.date, updated.time);
+    return updated;
+  },
+
+  // Agenda para o paciente a vaga que lhe foi oferecida pela lista de espera
+  async claimWaitlistOffer(entryId: string, actor: Actor): Promise<Appointment> {
+    const entry = await waitlistService.getClaimableOffer(entryId, actor);
+
+    let appointment: Appointment;
+    try {
+      appointment = await this.createAppointment({
+        patientId: entry.patientId,
+        patientName: entry.patientName,
+        doctorId: entry.doctorId,
+        // Nome e especialidade vêm do cadastro atual do médico
+        ...(await getBookableDoctor(entry.doctorId)),
+        date: entry.offer.date,
+        time: entry.offer.time,
+        modality: entry.modality || 'in_person',
+      }, actor);
+    } catch (error) {
+      if (error instanceof Error && error.message === SLOT_UNAVAILABLE_MESSAGE) {
+        // O horário foi ocupado por outro agendamento; a inscrição volta a aguardar
+        await waitlistService.releaseOffer(entry.id);
+      }
+      throw error;
+    }
+
+    await waitlistService.completeOffer(entry.id);
+    return appointment;
+  },
+
+  // Paciente chegou à clínica
+  async checkInAppointment(appointmentId: string, actor: Actor): Promise<Appointment> {
+    return await transitionAppointment(appointmentId, 'checked_in', 'appointment:check_in', actor);
+  },
+
+  // Paciente entrou na sala de espera virtual da consulta online; o médico é avisado
+  async joinWaitingRoom(appointmentId: string, actor: Actor): Promise<Appointment> {
+    const updated = await updateAppointment(appointmentId, (appointment) => {
+      assertCan(actor, 'appointment:join_waiting_room', appointment);
+      if (appointment.modality !== 'online') {
+        throw new Error('Só consultas online têm sala de espera virtual');
+      }
+      assertTransition(appointment, 'waiting_room');
+      if (!telemedicineService.canJoinWaitingRoom(appointment)) {
+        throw new Error(`A sala de espera abre ${WAITING_ROOM_OPENS_MINUTES} minutos antes da consulta`);
+      }
+      return {
+        status: 'waiting_room',
+        statusHistory: [...(appointment.statusHistory || []), getStatusChange('waiting_room', actor)],
+      };
+    });
+    await notificationService.notifyPatientInWaitingRoom(updated.doctorId, updated);
+    return updated;
+  },
+
+  // Médico iniciou o atendimento
+  async startAppointment(appointmentId: string, actor: Actor): Promise<Appointment> {
+    return await transitionAppointment(appointmentId, 'in_progress', 'appointment:attend', actor);
+  },
+
+  async completeAppointment(appointmentId: string, actor: Actor): Promise<Appointment> {
+    return await transitionAppointment(appointmentId, 'completed', 'appointment:attend', actor);
+  },
+
+  async markNoShow(appointmentId: string, actor: Actor): Promise<Appointment> {
+    return await transitionAppointment(appointmentId, 'no_show', 'appointment:attend', actor);
+  },
+};
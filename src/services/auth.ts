@@ -1,21 +1,42 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User, LoginCredentials, RegisterData, AuthResponse } from '../types/auth';
+import {
+  User,
+  Doctor,
+  UserRole,
+  LoginCredentials,
+  RegisterData,
+  AuthResponse,
+  StoredCredential,
+  CreateUserData,
+  UpdateUserData,
+} from '../types/auth';
+import { createCredential, verifyPassword } from '../utils/password';
+import { sessionService } from './session';
+import { storageService } from './storage';
+import { Actor, assertCan } from '../utils/permissions';
 
 // Chaves de armazenamento
 const STORAGE_KEYS = {
   USER: '@MedicalApp:user',
   TOKEN: '@MedicalApp:token',
+  USERS: '@MedicalApp:users',
+  // Lista antiga, só com pacientes; é importada para USERS na primeira carga
   REGISTERED_USERS: '@MedicalApp:registeredUsers',
+  CREDENTIALS: '@MedicalApp:credentials',
 };
 
-// Médicos mockados que podem fazer login
+// Senha inicial dos médicos e do admin cadastrados na primeira execução; é guardada apenas como hash
+const SEED_PASSWORD = '123456';
+
+// Médicos iniciais, cadastrados na primeira execução
 const mockDoctors = [
   {
     id: '1',
     name: 'Dr. João Silva',
     email: 'joao@example.com',
     role: 'doctor' as const,
-    specialty: 'Cardiologia',
+    specialty: 'cardiologia',
+    crm: '123456/SP',
     image: 'https://randomuser.me/api/portraits/men/1.jpg',
   },
   {
@@ -23,7 +44,8 @@ const mockDoctors = [
     name: 'Dra. Maria Santos',
     email: 'maria@example.com',
     role: 'doctor' as const,
-    specialty: 'Pediatria',
+    specialty: 'pediatria',
+    crm: '234567/SP',
     image: 'https://randomuser.me/api/portraits/women/1.jpg',
   },
   {
@@ -31,12 +53,13 @@ const mockDoctors = [
     name: 'Dr. Pedro Oliveira',
     email: 'pedro@example.com',
     role: 'doctor' as const,
-    specialty: 'Ortopedia',
+    specialty: 'ortopedia',
+    crm: '345678/RJ',
     image: 'https://randomuser.me/api/portraits/men/2.jpg',
   },
 ];
 
-// Admin mockado
+// Admin inicial, cadastrado na primeira execução
 const mockAdmin = {
   id: 'admin',
   name: 'Administrador',
@@ -45,81 +68,196 @@ const mockAdmin = {
   image: 'https://randomuser.me/api/portraits/men/3.jpg',
 };
 
-// Lista de usuários cadastrados (pacientes)
-let registeredUsers: (User & { password: string })[] = [];
+const SEEDED_USERS: User[] = [mockAdmin, ...mockDoctors];
 
-export const authService = {
-  async signIn(credentials: LoginCredentials): Promise<AuthResponse> {
-    // Verifica se é o admin
-    if (credentials.email === mockAdmin.email && credentials.password === '123456') {
-      return {
-        user: mockAdmin,
-        token: 'admin-token',
-      };
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// CRM: número de inscrição e UF do conselho regional (ex.: 123456/SP)
+const CRM_REGEX = /^\d{1,7}\/[A-Z]{2}$/;
+const MIN_PASSWORD_LENGTH = 6;
+
+// Todos os usuários do sistema (admins, médicos e pacientes)
+let users: User[] = [];
+
+// Credenciais (salt e hash) de todos os usuários, indexadas pelo ID
+let credentials: StoredCredential[] = [];
+
+// Carregamento único dos usuários e credenciais; as demais operações aguardam sua conclusão
+let loadPromise: Promise<void> | null = null;
+
+const saveUsers = async () => {
+  await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
+};
+
+const saveCredentials = async () => {
+  await AsyncStorage.setItem(STORAGE_KEYS.CREDENTIALS, JSON.stringify(credentials));
+};
+
+const loadUsersAndCredentials = async (): Promise<void> => {
+  const credentialsJson = await AsyncStorage.getItem(STORAGE_KEYS.CREDENTIALS);
+  credentials = credentialsJson ? JSON.parse(credentialsJson) : [];
+
+  let changed = false;
+  const usersJson = await AsyncStorage.getItem(STORAGE_KEYS.USERS);
+
+  if (usersJson) {
+    users = JSON.parse(usersJson);
+  } else {
+    // Primeira execução: cadastra admin e médicos iniciais e importa os pacientes da lista antiga
+    const legacyJson = await AsyncStorage.getItem(STORAGE_KEYS.REGISTERED_USERS);
+    const legacyPatients: (User & { password?: string })[] = legacyJson ? JSON.parse(legacyJson) : [];
+
+    users = [...SEEDED_USERS];
+    for (const { password, ...patient } of legacyPatients) {
+      // Pacientes cadastrados antes do hash tinham a senha em texto puro
+      if (password !== undefined && !credentials.some(c => c.userId === patient.id)) {
+        credentials.push(await createCredential(patient.id, password));
+      }
+      users.push(patient as User);
     }
 
-    // Verifica se é um médico
-    const doctor = mockDoctors.find(
-      (d) => d.email === credentials.email && credentials.password === '123456'
-    );
-    if (doctor) {
-      return {
-        user: doctor,
-        token: `doctor-token-${doctor.id}`,
-      };
+    await AsyncStorage.removeItem(STORAGE_KEYS.REGISTERED_USERS);
+    changed = true;
+  }
+
+  // Gera as credenciais dos usuários iniciais que ainda não têm senha
+  for (const user of users) {
+    const isSeeded = SEEDED_USERS.some(seeded => seeded.id === user.id);
+    if (isSeeded && !credentials.some(c => c.userId === user.id)) {
+      credentials.push(await createCredential(user.id, SEED_PASSWORD));
+      changed = true;
     }
+  }
+
+  if (changed) {
+    await saveCredentials();
+    await saveUsers();
+  }
+};
+
+// Um backup restaurado substitui os usuários gravados; a próxima operação volta a lê-los do armazenamento
+storageService.onRestore(() => {
+  loadPromise = null;
+});
+
+const ensureLoaded = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = loadUsersAndCredentials().catch((error) => {
+      loadPromise = null;
+      throw error;
+    });
+  }
+  return loadPromise;
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const isEmailInUse = (email: string, ignoreUserId?: string): boolean => {
+  return users.some(u => u.id !== ignoreUserId && normalizeEmail(u.email) === normalizeEmail(email));
+};
+
+const findUser = (userId: string): User => {
+  const user = users.find(u => u.id === userId);
+  if (!user) {
+    throw new Error('Usuário não encontrado');
+  }
+  return user;
+};
+
+const getDefaultImage = (role: UserRole): string => {
+  const index = (users.length % 50) + 1;
+  const folder = role === 'patient' && users.length % 2 !== 0 ? 'women' : 'men';
+  return `https://randomuser.me/api/portraits/${folder}/${index}.jpg`;
+};
+
+const normalizeCrm = (crm: string) => crm.trim().toUpperCase().replace(/\s/g, '');
+
+const validateUserFields = (
+  data: { name?: string; email?: string; password?: string; specialty?: string; crm?: string },
+  role: UserRole,
+  ignoreUserId?: string
+) => {
+  if (data.name !== undefined && !data.name.trim()) {
+    throw new Error('Informe o nome do usuário');
+  }
+  if (data.email !== undefined) {
+    if (!EMAIL_REGEX.test(data.email.trim())) {
+      throw new Error('Informe um email válido');
+    }
+    if (isEmailInUse(data.email, ignoreUserId)) {
+      throw new Error('Email já está em uso');
+    }
+  }
+  if (data.password !== undefined && data.password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres`);
+  }
+  if (role === 'doctor' && data.specialty !== undefined && !data.specialty.trim()) {
+    throw new Error('Informe a especialidade do médico');
+  }
+  // O CRM é opcional no cadastro, mas quando informado precisa estar no formato número/UF
+  if (role === 'doctor' && data.crm && !CRM_REGEX.test(normalizeCrm(data.crm))) {
+    throw new Error('Informe o CRM no formato número/UF (ex.: 123456/SP)');
+  }
+};
+
+// Garante que o sistema nunca fique sem um administrador ativo
+const assertKeepsActiveAdmin = (user: User) => {
+  const activeAdmins = users.filter(u => u.role === 'admin' && u.active !== false);
+  if (user.role === 'admin' && user.active !== false && activeAdmins.length <= 1) {
+    throw new Error('O sistema precisa de pelo menos um administrador ativo');
+  }
+};
+
+const replaceCredential = async (userId: string, password: string) => {
+  const credential = await createCredential(userId, password);
+  credentials = [...credentials.filter(c => c.userId !== userId), credential];
+};
 
-    // Verifica se é um paciente registrado
-    const patient = registeredUsers.find(
-      (p) => p.email === credentials.email
-    );
-    if (patient) {
-      // Verifica a senha do paciente
-      if (credentials.password === patient.password) {
-        // Remove a senha do objeto antes de retornar
-        const { password, ...patientWithoutPassword } = patient;
-        return {
-          user: patientWithoutPassword,
-          token: `patient-token-${patient.id}`,
-        };
+export const authService = {
+  async signIn(loginCredentials: LoginCredentials): Promise<AuthResponse> {
+    await ensureLoaded();
+
+    const user = users.find(u => normalizeEmail(u.email) === normalizeEmail(loginCredentials.email));
+    const credential = user && credentials.find(c => c.userId === user.id);
+
+    if (user && credential && (await verifyPassword(loginCredentials.password, credential))) {
+      if (user.active === false) {
+        throw new Error('Usuário desativado. Procure a administração da clínica.');
       }
+      return {
+        user,
+        token: await sessionService.createToken(user),
+      };
     }
 
     throw new Error('Email ou senha inválidos');
   },
 
   async register(data: RegisterData): Promise<AuthResponse> {
-    // Verifica se o email já está em uso
-    if (
-      mockDoctors.some((d) => d.email === data.email) ||
-      mockAdmin.email === data.email ||
-      registeredUsers.some((u) => u.email === data.email)
-    ) {
-      throw new Error('Email já está em uso');
-    }
+    await ensureLoaded();
+
+    // Mesmas regras do cadastro feito pelo admin: nome, email válido e livre e senha mínima
+    validateUserFields(data, 'patient');
 
     // Cria um novo paciente
-    const newPatient: User & { password: string } = {
-      id: `patient-${registeredUsers.length + 1}`,
-      name: data.name,
-      email: data.email,
+    const newPatient: User = {
+      id: `patient-${Date.now()}`,
+      name: data.name.trim(),
+      email: data.email.trim(),
       role: 'patient' as const,
-      image: `https://randomuser.me/api/portraits/${registeredUsers.length % 2 === 0 ? 'men' : 'women'}/${
-        registeredUsers.length + 1
-      }.jpg`,
-      password: data.password,
+      image: getDefaultImage('patient'),
     };
 
-    registeredUsers.push(newPatient);
+    // Guarda somente o hash da senha, separado dos dados do usuário
+    await replaceCredential(newPatient.id, data.password);
+    users.push(newPatient);
 
-    // Salva a lista atualizada de usuários
-    await AsyncStorage.setItem(STORAGE_KEYS.REGISTERED_USERS, JSON.stringify(registeredUsers));
+    // Salva a lista atualizada de usuários e credenciais
+    await saveCredentials();
+    await saveUsers();
 
-    // Remove a senha do objeto antes de retornar
-    const { password, ...patientWithoutPassword } = newPatient;
     return {
-      user: patientWithoutPassword,
-      token: `patient-token-${newPatient.id}`,
+      user: newPatient,
+      token: await sessionService.createToken(newPatient),
     };
   },
 
@@ -144,26 +282,128 @@ export const authService = {
 
   // Funções para o admin
   async getAllUsers(): Promise<User[]> {
-    return [...mockDoctors, ...registeredUsers];
+    await ensureLoaded();
+    return [...users];
   },
 
-  async getAllDoctors(): Promise<User[]> {
-    return mockDoctors;
+  // Versão atual do usuário no cadastro; a sessão confia nela, e não na cópia salva junto com o token
+  async getUserById(userId: string): Promise<User | null> {
+    await ensureLoaded();
+    return users.find(u => u.id === userId) || null;
+  },
+
+  async getAllDoctors(): Promise<Doctor[]> {
+    await ensureLoaded();
+    return users.filter((u): u is Doctor => u.role === 'doctor' && u.active !== false);
   },
 
   async getPatients(): Promise<User[]> {
-    return registeredUsers;
+    await ensureLoaded();
+    return users.filter(u => u.role === 'patient');
+  },
+
+  async createUser(data: CreateUserData, actor: Actor): Promise<User> {
+    assertCan(actor, 'user:manage');
+    await ensureLoaded();
+
+    validateUserFields(data, data.role);
+    if (data.role === 'doctor' && !data.specialty?.trim()) {
+      throw new Error('Informe a especialidade do médico');
+    }
+
+    const base = {
+      id: `${data.role}-${Date.now()}`,
+      name: data.name.trim(),
+      email: data.email.trim(),
+      image: getDefaultImage(data.role),
+      active: true,
+    };
+    const newUser: User = data.role === 'doctor'
+      ? { ...base, role: 'doctor', specialty: data.specialty!.trim(), ...(data.crm && { crm: normalizeCrm(data.crm) }) }
+      : { ...base, role: data.role };
+
+    await replaceCredential(newUser.id, data.password);
+    users.push(newUser);
+
+    await saveCredentials();
+    await saveUsers();
+    return newUser;
+  },
+
+  // Atualiza os dados do usuário; a senha só muda quando uma nova é informada.
+  // O próprio usuário também pode editar seu perfil.
+  async updateUser(userId: string, data: UpdateUserData, actor: Actor): Promise<User> {
+    if (actor.id !== userId) {
+      assertCan(actor, 'user:manage');
+    }
+    await ensureLoaded();
+
+    const user = findUser(userId);
+    const { password, ...fields } = data;
+    validateUserFields(data, user.role, userId);
+
+    const updated = {
+      ...user,
+      ...(fields.name !== undefined && { name: fields.name.trim() }),
+      ...(fields.email !== undefined && { email: fields.email.trim() }),
+      ...(fields.image !== undefined && { image: fields.image }),
+      ...(user.role === 'doctor' && fields.specialty !== undefined && { specialty: fields.specialty.trim() }),
+      ...(user.role === 'doctor' && fields.crm !== undefined && { crm: normalizeCrm(fields.crm) }),
+    } as User;
+
+    users = users.map(u => (u.id === userId ? updated : u));
+
+    if (password) {
+      await replaceCredential(userId, password);
+      await saveCredentials();
+    }
+    await saveUsers();
+    return updated;
+  },
+
+  // Usuários desativados continuam no histórico de consultas, mas não conseguem entrar
+  async setUserActive(userId: string, active: boolean, actor: Actor): Promise<User> {
+    assertCan(actor, 'user:manage');
+    await ensureLoaded();
+
+    if (userId === actor.id && !active) {
+      throw new Error('Você não pode desativar a própria conta');
+    }
+
+    const user = findUser(userId);
+    if (!active) {
+      assertKeepsActiveAdmin(user);
+    }
+
+    const updated = { ...user, active } as User;
+    users = users.map(u => (u.id === userId ? updated : u));
+    await saveUsers();
+    return updated;
+  },
+
+  async deleteUser(userId: string, actor: Actor): Promise<void> {
+    assertCan(actor, 'user:delete');
+    await ensureLoaded();
+
+    if (userId === actor.id) {
+      throw new Error('Você não pode excluir a própria conta');
+    }
+
+    const user = findUser(userId);
+    assertKeepsActiveAdmin(user);
+
+    users = users.filter(u => u.id !== userId);
+    credentials = credentials.filter(c => c.userId !== userId);
+    await saveCredentials();
+    await saveUsers();
   },
 
   // Função para carregar usuários registrados ao iniciar o app
   async loadRegisteredUsers(): Promise<void> {
     try {
-      const usersJson = await AsyncStorage.getItem(STORAGE_KEYS.REGISTERED_USERS);
-      if (usersJson) {
-        registeredUsers = JSON.parse(usersJson);
-      }
+      await ensureLoaded();
     } catch (error) {
       console.error('Erro ao carregar usuários registrados:', error);
     }
   },
-}; 
\ No newline at end of file
+};
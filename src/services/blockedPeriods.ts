@@ -0,0 +1,107 @@
+import { BlockedPeriod } from '../types/schedules';
+import { Appointment } from '../types/appointments';
+import { storageService, STORAGE_KEYS } from './storage';
+import { notificationService } from './notifications';
+import { Actor, assertCan } from '../utils/permissions';
+import { compareDates, formatDate, isDateInRange, isValidISODate, normalizeDate } from '../utils/date';
+import { generateId } from '../utils/id';
+import { normalizeAppointment } from '../utils/appointmentRecords';
+
+// Bloqueios gravados antes da migração usam DD/MM/AAAA; converte para ISO na leitura
+const normalizePeriod = (period: BlockedPeriod): BlockedPeriod => ({
+  ...period,
+  startDate: normalizeDate(period.startDate) || period.startDate,
+  endDate: normalizeDate(period.endDate) || period.endDate,
+});
+
+const coversDate = (period: BlockedPeriod, date: string): boolean => {
+  return isDateInRange(date, period.startDate, period.endDate);
+};
+
+// Um bloqueio sem médico vale para todos (feriado da clínica)
+const appliesToDoctor = (period: BlockedPeriod, doctorId: string): boolean => {
+  return !period.doctorId || period.doctorId === doctorId;
+};
+
+export const blockedPeriodService = {
+  async getBlockedPeriods(): Promise<BlockedPeriod[]> {
+    const periods = (await storageService.getItem<BlockedPeriod[]>(STORAGE_KEYS.BLOCKED_PERIODS, [])) || [];
+    return periods.map(normalizePeriod);
+  },
+
+  // Bloqueios do médico, incluindo os feriados da clínica
+  async getBlockedPeriodsForDoctor(doctorId: string): Promise<BlockedPeriod[]> {
+    const periods = await this.getBlockedPeriods();
+    return periods.filter(p => appliesToDoctor(p, doctorId));
+  },
+
+  async getClinicHolidays(): Promise<BlockedPeriod[]> {
+    const periods = await this.getBlockedPeriods();
+    return periods.filter(p => !p.doctorId);
+  },
+
+  // Retorna o bloqueio que impede atendimentos na data ISO; sem médico, considera apenas feriados
+  async findBlockingPeriod(date: string, doctorId?: string): Promise<BlockedPeriod | null> {
+    if (!isValidISODate(date)) return null;
+
+    const periods = doctorId
+      ? await this.getBlockedPeriodsForDoctor(doctorId)
+      : await this.getClinicHolidays();
+    return periods.find(p => coversDate(p, date)) || null;
+  },
+
+  async addBlockedPeriod(data: Omit<BlockedPeriod, 'id' | 'createdAt'>, actor: Actor): Promise<BlockedPeriod> {
+    assertCan(actor, 'blocked_period:manage', data);
+
+    if (!isValidISODate(data.startDate) || !isValidISODate(data.endDate)) {
+      throw new Error('Informe datas válidas no formato AAAA-MM-DD');
+    }
+    if (compareDates(data.startDate, data.endDate) > 0) {
+      throw new Error('A data inicial deve ser anterior ou igual à data final');
+    }
+    if (!data.reason.trim()) {
+      throw new Error('Informe o motivo do bloqueio');
+    }
+
+    const period: BlockedPeriod = {
+      ...data,
+      reason: data.reason.trim(),
+      id: generateId(),
+      createdAt: new Date().toISOString(),
+    };
+
+    const periods = await this.getBlockedPeriods();
+    await storageService.setItem(STORAGE_KEYS.BLOCKED_PERIODS, [...periods, period]);
+
+    // Avisa os pacientes com consultas ativas no período para que possam remarcar.
+    // As consultas são lidas direto do armazenamento, pois o serviço de consultas consulta os bloqueios pela agenda;
+    // a normalização completa os registros antigos antes do aviso
+    const stored = (await storageService.getAppointments()) as Appointment[];
+    const appointments = stored.map(normalizeAppointment);
+    const affected = appointments.filter(a =>
+      (a.status === 'pending' || a.status === 'confirmed') &&
+      appliesToDoctor(period, a.doctorId) &&
+      coversDate(period, a.date)
+    );
+
+    for (const appointment of affected) {
+      await notificationService.notifyAppointmentBlocked(appointment.patientId, appointment, period.reason);
+    }
+
+    return period;
+  },
+
+  async removeBlockedPeriod(periodId: string, actor: Actor): Promise<void> {
+    const periods = await this.getBlockedPeriods();
+    const period = periods.find(p => p.id === periodId);
+    if (!period) {
+      throw new Error('Bloqueio não encontrado');
+    }
+    assertCan(actor, 'blocked_period:manage', period);
+
+    await storageService.setItem(
+      STORAGE_KEYS.BLOCKED_PERIODS,
+      periods.filter(p => p.id !== periodId)
+    );
+  },
+};
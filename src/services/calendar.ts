@@ -0,0 +1,26 @@
+import * as Calendar from 'expo-calendar';
+import { Appointment } from '../types/appointments';
+import { scheduleService } from './schedules';
+import { clinicService, getLocationName } from './clinics';
+
+export const calendarService = {
+  // Abre o editor de eventos do sistema já preenchido; o usuário confirma ou descarta por lá
+  async addAppointmentToCalendar(appointment: Appointment): Promise<void> {
+    // A duração segue o tamanho do horário na agenda do médico
+    const schedule = await scheduleService.getSchedule(appointment.doctorId);
+    const startDate = new Date(appointment.startsAt);
+    const endDate = new Date(startDate.getTime() + schedule.slotDuration * 60 * 1000);
+    const unit = appointment.unitId ? await clinicService.getUnit(appointment.unitId) : null;
+
+    await Calendar.createEventInCalendarAsync({
+      title: `Consulta com ${appointment.doctorName}`,
+      startDate,
+      endDate,
+      timeZone: appointment.timeZone,
+      notes: [appointment.specialty, appointment.description].filter(Boolean).join('\n'),
+      // Consultas presenciais levam o endereço da unidade; as online, o link da sala virtual
+      ...(unit && { location: `${getLocationName([unit], appointment)} - ${unit.address}` }),
+      ...(appointment.meetingRoom && { url: appointment.meetingRoom.joinUrl }),
+    });
+  },
+};
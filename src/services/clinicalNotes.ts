@@ -0,0 +1,203 @@
+import { ClinicalNote, ClinicalNoteContent } from '../types/clinicalNotes';
+import { Appointment, AppointmentStatus } from '../types/appointments';
+import { storageService, STORAGE_KEYS } from './storage';
+import { appointmentService } from './appointments';
+import { Actor, assertCan } from '../utils/permissions';
+import { generateId } from '../utils/id';
+
+// Código CID-10: letra, dois dígitos e subcategoria opcional (ex.: 'J06' ou 'J06.9')
+const CID10_REGEX = /^[A-Z]\d{2}(\.\d{1,2})?$/;
+
+// O prontuário só é escrito depois que o atendimento começa
+const ATTENDED_STATUSES: AppointmentStatus[] = ['in_progress', 'completed'];
+
+// Consultas canceladas ou com falta não tornam o médico responsável pelo paciente
+const TREATING_STATUSES: AppointmentStatus[] = ['confirmed', 'checked_in', 'waiting_room', 'in_progress', 'completed'];
+
+const REQUIRED_FIELDS: { key: keyof ClinicalNoteContent; label: string }[] = [
+  { key: 'chiefComplaint', label: 'a queixa principal' },
+  { key: 'anamnesis', label: 'a anamnese' },
+  { key: 'examFindings', label: 'o exame físico' },
+  { key: 'diagnosis', label: 'o diagnóstico' },
+  { key: 'cid10Code', label: 'o CID-10' },
+  { key: 'plan', label: 'a conduta' },
+];
+
+// Fila que serializa as alterações do prontuário, para que um rascunho não seja salvo por cima da assinatura
+let queue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(operation: () => Promise<T>): Promise<T> => {
+  const result = queue.then(operation);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const loadNotes = async (): Promise<ClinicalNote[]> => {
+  return (await storageService.getItem<ClinicalNote[]>(STORAGE_KEYS.CLINICAL_NOTES, [])) || [];
+};
+
+const saveNotes = async (notes: ClinicalNote[]): Promise<void> => {
+  await storageService.setItem(STORAGE_KEYS.CLINICAL_NOTES, notes);
+};
+
+const normalizeContent = (content: ClinicalNoteContent): ClinicalNoteContent => ({
+  chiefComplaint: content.chiefComplaint.trim(),
+  anamnesis: content.anamnesis.trim(),
+  examFindings: content.examFindings.trim(),
+  diagnosis: content.diagnosis.trim(),
+  cid10Code: content.cid10Code.trim().toUpperCase(),
+  plan: content.plan.trim(),
+});
+
+const findAppointment = async (appointmentId: string): Promise<Appointment> => {
+  const appointment = await appointmentService.getAppointmentById(appointmentId);
+  if (!appointment) {
+    throw new Error('Consulta não encontrada');
+  }
+  return appointment;
+};
+
+// Só o médico da consulta escreve a evolução, e apenas depois de iniciado o atendimento
+const assertCanWrite = (appointment: Appointment, actor: Actor) => {
+  assertCan(actor, 'clinical_note:write', appointment);
+  if (!ATTENDED_STATUSES.includes(appointment.status)) {
+    throw new Error('O prontuário só pode ser preenchido depois de iniciado o atendimento');
+  }
+};
+
+const assertDraft = (note: ClinicalNote) => {
+  if (note.status === 'signed') {
+    throw new Error('A evolução já foi assinada e não pode ser alterada; registre um adendo');
+  }
+};
+
+// O médico autor vê seus rascunhos; as evoluções assinadas ficam visíveis aos médicos que
+// atendem o paciente. Administradores e pacientes não leem o prontuário
+const canViewNote = (note: ClinicalNote, actor: Actor, treatingDoctorIds: Set<string>): boolean => {
+  if (actor.role !== 'doctor') return false;
+  if (note.doctorId === actor.id) return true;
+  return note.status === 'signed' && treatingDoctorIds.has(actor.id);
+};
+
+const getTreatingDoctorIds = async (patientId: string): Promise<Set<string>> => {
+  const appointments = await appointmentService.getAppointmentsByPatient(patientId);
+  return new Set(appointments.filter(a => TREATING_STATUSES.includes(a.status)).map(a => a.doctorId));
+};
+
+const filterVisible = async (notes: ClinicalNote[], actor: Actor): Promise<ClinicalNote[]> => {
+  const treatingByPatient = new Map<string, Set<string>>();
+  const visible: ClinicalNote[] = [];
+  for (const note of notes) {
+    if (!treatingByPatient.has(note.patientId)) {
+      treatingByPatient.set(note.patientId, await getTreatingDoctorIds(note.patientId));
+    }
+    if (canViewNote(note, actor, treatingByPatient.get(note.patientId)!)) {
+      visible.push(note);
+    }
+  }
+  return visible;
+};
+
+export const clinicalNoteService = {
+  // Evolução da consulta, se existir e o usuário puder vê-la
+  async getNoteByAppointment(appointmentId: string, actor: Actor): Promise<ClinicalNote | null> {
+    const note = (await loadNotes()).find(n => n.appointmentId === appointmentId);
+    if (!note) return null;
+    const [visible] = await filterVisible([note], actor);
+    return visible || null;
+  },
+
+  // Evoluções do paciente visíveis ao usuário, da consulta mais recente para a mais antiga
+  async getNotesByPatient(patientId: string, actor: Actor): Promise<ClinicalNote[]> {
+    const notes = (await loadNotes()).filter(n => n.patientId === patientId);
+    const visible = await filterVisible(notes, actor);
+    return visible.sort((a, b) =>
+      b.appointmentDate.localeCompare(a.appointmentDate) || b.createdAt.localeCompare(a.createdAt)
+    );
+  },
+
+  // Cria ou atualiza o rascunho da evolução; os campos podem ficar incompletos até a assinatura
+  saveDraft(appointmentId: string, content: ClinicalNoteContent, actor: Actor): Promise<ClinicalNote> {
+    return runExclusive(async () => {
+      const appointment = await findAppointment(appointmentId);
+      assertCanWrite(appointment, actor);
+
+      const notes = await loadNotes();
+      const existing = notes.find(n => n.appointmentId === appointmentId);
+      if (existing) {
+        assertDraft(existing);
+      }
+
+      const now = new Date().toISOString();
+      const note: ClinicalNote = {
+        id: existing?.id || generateId(),
+        appointmentId,
+        patientId: appointment.patientId,
+        patientName: appointment.patientName,
+        doctorId: appointment.doctorId,
+        doctorName: appointment.doctorName,
+        appointmentDate: appointment.date,
+        ...normalizeContent(content),
+        status: 'draft',
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+        addenda: [],
+      };
+
+      await saveNotes(existing ? notes.map(n => (n.id === note.id ? note : n)) : [...notes, note]);
+      return note;
+    });
+  },
+
+  // Salva o conteúdo e assina; a partir daqui a evolução só recebe adendos
+  async signNote(appointmentId: string, content: ClinicalNoteContent, actor: Actor): Promise<ClinicalNote> {
+    const normalized = normalizeContent(content);
+    const missing = REQUIRED_FIELDS.find(field => !normalized[field.key]);
+    if (missing) {
+      throw new Error(`Informe ${missing.label} antes de assinar`);
+    }
+    if (!CID10_REGEX.test(normalized.cid10Code)) {
+      throw new Error('Informe um código CID-10 válido (ex.: J06.9)');
+    }
+
+    const draft = await this.saveDraft(appointmentId, normalized, actor);
+    return runExclusive(async () => {
+      const notes = await loadNotes();
+      const current = notes.find(n => n.id === draft.id);
+      if (!current) {
+        throw new Error('Evolução não encontrada');
+      }
+      assertDraft(current);
+
+      const signed: ClinicalNote = { ...current, status: 'signed', signedAt: new Date().toISOString() };
+      await saveNotes(notes.map(n => (n.id === signed.id ? signed : n)));
+      return signed;
+    });
+  },
+
+  // Complementa uma evolução assinada sem alterar o que já foi registrado
+  addAddendum(noteId: string, text: string, actor: Actor): Promise<ClinicalNote> {
+    return runExclusive(async () => {
+      const notes = await loadNotes();
+      const note = notes.find(n => n.id === noteId);
+      if (!note) {
+        throw new Error('Evolução não encontrada');
+      }
+      assertCan(actor, 'clinical_note:write', note);
+      if (note.status !== 'signed') {
+        throw new Error('Assine a evolução antes de registrar adendos; o rascunho ainda pode ser editado');
+      }
+      const trimmed = text.trim();
+      if (!trimmed) {
+        throw new Error('Escreva o texto do adendo');
+      }
+
+      const updated: ClinicalNote = {
+        ...note,
+        addenda: [...note.addenda, { id: generateId(), text: trimmed, createdAt: new Date().toISOString() }],
+      };
+      await saveNotes(notes.map(n => (n.id === updated.id ? updated : n)));
+      return updated;
+    });
+  },
+};
@@ -0,0 +1,211 @@
+import { ClinicLocation, ClinicRoom, ClinicUnit, OpeningHours, RoomOccupancy } from '../types/clinics';
+import { DoctorSchedule, Weekday } from '../types/schedules';
+import { storageService, STORAGE_KEYS } from './storage';
+import { Actor, assertCan } from '../utils/permissions';
+import { getWeekday, WEEKDAY_NAMES } from '../utils/date';
+import { generateId } from '../utils/id';
+import { normalizeText } from '../utils/text';
+import { isValidTime, toMinutes } from '../utils/time';
+
+const WEEKDAYS: Weekday[] = [0, 1, 2, 3, 4, 5, 6];
+
+// As agendas são lidas direto do armazenamento: o serviço de agendas valida os locais por aqui
+const loadSchedules = async (): Promise<DoctorSchedule[]> => {
+  return (await storageService.getItem<DoctorSchedule[]>(STORAGE_KEYS.DOCTOR_SCHEDULES, [])) || [];
+};
+
+const validateOpeningHours = (hours: OpeningHours, name: string) => {
+  if (!hours.enabled) return;
+
+  if (!isValidTime(hours.start) || !isValidTime(hours.end)) {
+    throw new Error(`${name}: informe o funcionamento no formato HH:mm`);
+  }
+  if (toMinutes(hours.start) >= toMinutes(hours.end)) {
+    throw new Error(`${name}: a abertura deve ser antes do fechamento`);
+  }
+};
+
+const validateRooms = (rooms: ClinicRoom[]) => {
+  if (rooms.length === 0) {
+    throw new Error('Cadastre ao menos um consultório');
+  }
+  const names = new Set<string>();
+  rooms.forEach(room => {
+    const name = normalizeText(room.name);
+    if (!name) {
+      throw new Error('Informe o nome de todos os consultórios');
+    }
+    if (names.has(name)) {
+      throw new Error(`O consultório "${room.name.trim()}" está repetido`);
+    }
+    names.add(name);
+  });
+};
+
+export const clinicService = {
+  // Funcionamento padrão: segunda a sexta, das 8h às 19h
+  getDefaultOpeningHours(): Record<Weekday, OpeningHours> {
+    const open: OpeningHours = { enabled: true, start: '08:00', end: '19:00' };
+    const closed: OpeningHours = { enabled: false, start: '08:00', end: '19:00' };
+    return {
+      0: { ...closed },
+      1: { ...open },
+      2: { ...open },
+      3: { ...open },
+      4: { ...open },
+      5: { ...open },
+      6: { ...closed },
+    };
+  },
+
+  async getUnits(): Promise<ClinicUnit[]> {
+    return (await storageService.getItem<ClinicUnit[]>(STORAGE_KEYS.CLINIC_UNITS, [])) || [];
+  },
+
+  async getUnit(unitId: string): Promise<ClinicUnit | null> {
+    const units = await this.getUnits();
+    return units.find(u => u.id === unitId) || null;
+  },
+
+  // Cria (sem ID) ou atualiza uma unidade; salas e horários em uso pelos médicos não podem ser removidos
+  async saveUnit(unit: ClinicUnit, actor: Actor): Promise<ClinicUnit> {
+    assertCan(actor, 'clinic:manage');
+
+    const name = unit.name.trim();
+    const address = unit.address.trim();
+    if (!name) {
+      throw new Error('Informe o nome da unidade');
+    }
+    if (!address) {
+      throw new Error('Informe o endereço da unidade');
+    }
+    WEEKDAYS.forEach(weekday => validateOpeningHours(unit.openingHours[weekday], WEEKDAY_NAMES[weekday]));
+    validateRooms(unit.rooms);
+
+    const units = await this.getUnits();
+    const duplicate = units.find(u => u.id !== unit.id && normalizeText(u.name) === normalizeText(name));
+    if (duplicate) {
+      throw new Error(`Já existe a unidade "${duplicate.name}"`);
+    }
+
+    const saved: ClinicUnit = {
+      ...unit,
+      id: unit.id || generateId(),
+      name,
+      address,
+      rooms: unit.rooms.map(room => ({ id: room.id || generateId(), name: room.name.trim() })),
+    };
+
+    // Cada dia em que um médico atende na unidade precisa continuar com sala e funcionamento
+    const schedules = await loadSchedules();
+    schedules.forEach(schedule => {
+      WEEKDAYS.forEach(weekday => {
+        const day = schedule.days[weekday];
+        if (!day?.enabled || day.unitId !== saved.id) return;
+
+        if (!saved.rooms.some(room => room.id === day.roomId)) {
+          throw new Error('Há médicos atendendo em um consultório removido; mude a agenda deles antes');
+        }
+        const hours = saved.openingHours[weekday];
+        if (!hours.enabled || toMinutes(day.start) < toMinutes(hours.start) || toMinutes(day.end) > toMinutes(hours.end)) {
+          throw new Error(`${WEEKDAY_NAMES[weekday]}: há médicos atendendo fora do novo horário de funcionamento`);
+        }
+      });
+    });
+
+    await storageService.setItem(
+      STORAGE_KEYS.CLINIC_UNITS,
+      units.some(u => u.id === saved.id)
+        ? units.map(u => (u.id === saved.id ? saved : u))
+        : [...units, saved]
+    );
+    return saved;
+  },
+
+  async removeUnit(unitId: string, actor: Actor): Promise<void> {
+    assertCan(actor, 'clinic:manage');
+
+    const schedules = await loadSchedules();
+    const inUse = schedules.some(schedule =>
+      WEEKDAYS.some(weekday => schedule.days[weekday]?.enabled && schedule.days[weekday].unitId === unitId)
+    );
+    if (inUse) {
+      throw new Error('Há médicos atendendo nesta unidade');
+    }
+
+    const units = await this.getUnits();
+    await storageService.setItem(STORAGE_KEYS.CLINIC_UNITS, units.filter(u => u.id !== unitId));
+  },
+
+  // Confere os locais da agenda: sala existente, dentro do funcionamento da unidade e sem outro médico no mesmo horário
+  async assertScheduleLocations(schedule: DoctorSchedule): Promise<void> {
+    const units = await this.getUnits();
+    const others = (await loadSchedules()).filter(s => s.doctorId !== schedule.doctorId);
+
+    WEEKDAYS.forEach(weekday => {
+      const day = schedule.days[weekday];
+      const name = WEEKDAY_NAMES[weekday];
+      if (!day?.enabled || !day.unitId) return;
+
+      const unit = units.find(u => u.id === day.unitId);
+      if (!unit) {
+        throw new Error(`${name}: unidade não encontrada`);
+      }
+      if (!unit.rooms.some(room => room.id === day.roomId)) {
+        throw new Error(`${name}: escolha um consultório da ${unit.name}`);
+      }
+      const hours = unit.openingHours[weekday];
+      if (!hours.enabled) {
+        throw new Error(`${name}: a ${unit.name} não abre neste dia`);
+      }
+      if (toMinutes(day.start) < toMinutes(hours.start) || toMinutes(day.end) > toMinutes(hours.end)) {
+        throw new Error(`${name}: a ${unit.name} funciona das ${hours.start} às ${hours.end}`);
+      }
+
+      const conflict = others.find(other => {
+        const otherDay = other.days[weekday];
+        return otherDay?.enabled &&
+          otherDay.roomId === day.roomId &&
+          toMinutes(otherDay.start) < toMinutes(day.end) &&
+          toMinutes(day.start) < toMinutes(otherDay.end);
+      });
+      if (conflict) {
+        const otherDay = conflict.days[weekday];
+        throw new Error(`${name}: o consultório já está ocupado das ${otherDay.start} às ${otherDay.end} por outro médico`);
+      }
+    });
+  },
+
+  // Unidade e consultório em que o médico atende na data ISO, se a agenda tiver local definido
+  async getDoctorLocation(doctorId: string, date: string): Promise<ClinicLocation | null> {
+    const weekday = getWeekday(date) as Weekday | null;
+    if (weekday === null) return null;
+
+    const schedule = (await loadSchedules()).find(s => s.doctorId === doctorId);
+    const day = schedule?.days[weekday];
+    return day?.enabled && day.unitId && day.roomId ? { unitId: day.unitId, roomId: day.roomId } : null;
+  },
+
+  // Expedientes de cada consultório da unidade, por dia da semana e horário de início
+  async getRoomOccupancy(unitId: string): Promise<RoomOccupancy[]> {
+    const schedules = await loadSchedules();
+    const occupancy: RoomOccupancy[] = [];
+    schedules.forEach(schedule => {
+      WEEKDAYS.forEach(weekday => {
+        const day = schedule.days[weekday];
+        if (day?.enabled && day.unitId === unitId && day.roomId) {
+          occupancy.push({ weekday, roomId: day.roomId, doctorId: schedule.doctorId, start: day.start, end: day.end });
+        }
+      });
+    });
+    return occupancy.sort((a, b) => a.weekday - b.weekday || a.start.localeCompare(b.start));
+  },
+};
+
+// Nome da unidade e do consultório, para exibição
+export const getLocationName = (units: ClinicUnit[], location: Partial<ClinicLocation>): string | null => {
+  const unit = units.find(u => u.id === location.unitId);
+  if (!unit) return null;
+  const room = unit.rooms.find(r => r.id === location.roomId);
+  return room ? `${unit.name} · ${room.name}` : unit.name;
+};
@@ -0,0 +1,48 @@
+import { Doctor, DoctorSearchParams } from '../types/doctors';
+import { User } from '../types/auth';
+import { authService } from './auth';
+import { specialtyService, findSpecialty, getSpecialtyName } from './specialties';
+import { normalizeText } from '../utils/text';
+
+const isDoctor = (user: User): user is Doctor => user.role === 'doctor';
+
+
+// Cadastro de médicos; todo médico listado aqui é um usuário que consegue entrar no app
+export const doctorService = {
+  // Médicos ativos, disponíveis para agendamento
+  async getDoctors(): Promise<Doctor[]> {
+    const users = await authService.getAllUsers();
+    return users.filter(isDoctor).filter(d => d.active !== false);
+  },
+
+  // Perfil do médico, incluindo desativados, para exibir consultas antigas
+  async getDoctorById(doctorId: string): Promise<Doctor | null> {
+    const users = await authService.getAllUsers();
+    return users.filter(isDoctor).find(d => d.id === doctorId) || null;
+  },
+
+  // Aceita o código ou o nome da especialidade, inclusive nomes antigos
+  async getDoctorsBySpecialty(specialty: string): Promise<Doctor[]> {
+    const catalog = await specialtyService.getSpecialties();
+    const code = findSpecialty(catalog, specialty)?.code;
+    const doctors = await this.getDoctors();
+    return doctors.filter(d =>
+      code ? findSpecialty(catalog, d.specialty)?.code === code : normalizeText(d.specialty) === normalizeText(specialty)
+    );
+  },
+
+  async searchDoctors(params: DoctorSearchParams): Promise<Doctor[]> {
+    const doctors = params.specialty
+      ? await this.getDoctorsBySpecialty(params.specialty)
+      : await this.getDoctors();
+
+    if (!params.query?.trim()) return doctors;
+
+    const catalog = await specialtyService.getSpecialties();
+    const query = normalizeText(params.query);
+    return doctors.filter(d =>
+      normalizeText(d.name).includes(query) ||
+      normalizeText(getSpecialtyName(catalog, d.specialty)).includes(query)
+    );
+  },
+};
@@ -0,0 +1,61 @@
+import { storageService, STORAGE_KEYS } from './storage';
+import { NotificationPreferences } from '../types/notifications';
+import { isValidTime, toMinutes } from '../utils/time';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: {
+    appointment_confirmed: 'in_app_push',
+    appointment_cancelled: 'in_app_push',
+    appointment_rescheduled: 'in_app_push',
+    appointment_reminder: 'in_app_push',
+    appointment_created: 'in_app_push',
+    waitlist_offer: 'in_app_push',
+    waiting_room: 'in_app_push',
+    general: 'in_app_push',
+  },
+  quietHours: {
+    enabled: false,
+    start: '22:00',
+    end: '07:00',
+  },
+};
+
+type StoredPreferences = Record<string, NotificationPreferences>;
+
+const loadAll = async (): Promise<StoredPreferences> => {
+  return (await storageService.getItem<StoredPreferences>(STORAGE_KEYS.NOTIFICATION_PREFERENCES, {})) || {};
+};
+
+export const notificationPreferenceService = {
+  // Preferências do usuário, completadas com o padrão para tipos ainda não configurados
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const stored = (await loadAll())[userId];
+    return {
+      channels: { ...DEFAULT_NOTIFICATION_PREFERENCES.channels, ...stored?.channels },
+      quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours, ...stored?.quietHours },
+    };
+  },
+
+  async savePreferences(userId: string, preferences: NotificationPreferences): Promise<void> {
+    const { quietHours } = preferences;
+    if (quietHours.enabled && (!isValidTime(quietHours.start) || !isValidTime(quietHours.end))) {
+      throw new Error('Informe o horário de silêncio no formato HH:mm');
+    }
+
+    const all = await loadAll();
+    await storageService.setItem(STORAGE_KEYS.NOTIFICATION_PREFERENCES, { ...all, [userId]: preferences });
+  },
+
+  // Indica se o momento cai no horário de silêncio, inclusive quando ele atravessa a meia-noite
+  isQuietTime(preferences: NotificationPreferences, date: Date = new Date()): boolean {
+    const { enabled, start, end } = preferences.quietHours;
+    if (!enabled) return false;
+
+    const now = date.getHours() * 60 + date.getMinutes();
+    const startMinutes = toMinutes(start);
+    const endMinutes = toMinutes(end);
+    return startMinutes <= endMinutes
+      ? now >= startMinutes && now < endMinutes
+      : now >= startMinutes || now < endMinutes;
+  },
+};
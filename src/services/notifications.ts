@@ -1,11 +1,21 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Appointment, AppointmentChange } from '../types/appointments';
+import { addDays, formatDate, todayISO } from '../utils/date';
+import { formatClinicDateTime, formatInstant, getDeviceTimeZone, instantToZonedTime, toDisplayDateTime } from '../utils/timezone';
+import { pushNotificationService } from './pushNotifications';
+import { notificationPreferenceService } from './notificationPreferences';
+import { NotificationType } from '../types/notifications';
+import { WaitlistEntry, WaitlistOffer } from '../types/waitlist';
+import { storageService } from './storage';
+import { WAITING_ROOM_OPENS_MINUTES } from './telemedicine';
+import { generateId } from '../utils/id';
 
 export interface Notification {
   id: string;
   userId: string;
   title: string;
   message: string;
-  type: 'appointment_confirmed' | 'appointment_cancelled' | 'appointment_reminder' | 'general';
+  type: NotificationType;
   read: boolean;
   createdAt: string;
   appointmentId?: string;
@@ -13,34 +23,114 @@ export interface Notification {
 
 const STORAGE_KEY = '@MedicalApp:notifications';
 
+// Modalidade por extenso, usada no meio das mensagens; consultas antigas não a informam e são presenciais
+const modalityText = (appointmentDetails: { modality?: string }, plural = false) =>
+  appointmentDetails.modality === 'online' ? 'online' : plural ? 'presenciais' : 'presencial';
+
+type NotificationListener = (notifications: Notification[]) => void;
+
+// Cópia em memória de todas as notificações; o armazenamento é lido uma única vez
+// e cada alteração é gravada e avisada aos assinantes
+let store: Notification[] | null = null;
+let loadPromise: Promise<Notification[]> | null = null;
+const listeners = new Set<NotificationListener>();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Notificações lidas mais antigas que o prazo de retenção são descartadas
+const removeExpired = (notifications: Notification[], retentionDays: number): Notification[] => {
+  const limit = Date.now() - retentionDays * DAY_MS;
+  return notifications.filter(n => !n.read || new Date(n.createdAt).getTime() >= limit);
+};
+
+// Na primeira leitura, já descarta as notificações lidas fora do prazo de retenção
+const loadStore = (): Promise<Notification[]> => {
+  if (store) return Promise.resolve(store);
+  if (!loadPromise) {
+    loadPromise = Promise.all([AsyncStorage.getItem(STORAGE_KEY), storageService.getAppSettings()])
+      .then(async ([stored, settings]) => {
+        const notifications: Notification[] = stored ? JSON.parse(stored) : [];
+        store = removeExpired(notifications, settings.notificationRetentionDays);
+        if (store.length !== notifications.length) {
+          await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+        }
+        return store;
+      })
+      .catch(error => {
+        console.error('Erro ao carregar notificações:', error);
+        store = [];
+        return store;
+      })
+      .finally(() => {
+        loadPromise = null;
+      });
+  }
+  return loadPromise;
+};
+
+const sortByNewest = (notifications: Notification[]) =>
+  [...notifications].sort((a, b) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+
+// Aplica a alteração sobre a lista em memória mais recente, avisa os assinantes na hora e grava em seguida
+const update = async (change: (notifications: Notification[]) => Notification[]): Promise<void> => {
+  await loadStore();
+  const notifications = change(store || []);
+  store = notifications;
+  listeners.forEach(listener => listener(notifications));
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(notifications));
+};
+
 export const notificationService = {
   async getNotifications(userId: string): Promise<Notification[]> {
-    try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
-      const allNotifications: Notification[] = stored ? JSON.parse(stored) : [];
-      return allNotifications.filter(n => n.userId === userId).sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-      );
-    } catch (error) {
-      console.error('Erro ao carregar notificações:', error);
-      return [];
-    }
+    const allNotifications = await loadStore();
+    return sortByNewest(allNotifications.filter(n => n.userId === userId));
+  },
+
+  // Assina as notificações do usuário; o callback recebe a lista atual e cada mudança. Retorna a função que encerra
+  subscribe(userId: string, callback: (notifications: Notification[]) => void): () => void {
+    const listener: NotificationListener = (allNotifications) => {
+      callback(sortByNewest(allNotifications.filter(n => n.userId === userId)));
+    };
+    listeners.add(listener);
+    loadStore().then(allNotifications => {
+      if (listeners.has(listener)) {
+        listener(allNotifications);
+      }
+    });
+    return () => {
+      listeners.delete(listener);
+    };
   },
 
+  // Descarta a memória e relê o armazenamento, após mudanças feitas fora do serviço (ex.: limpeza dos dados)
+  async reload(): Promise<void> {
+    store = null;
+    const allNotifications = await loadStore();
+    listeners.forEach(listener => listener(allNotifications));
+  },
+
+  // Cria a notificação conforme as preferências do destinatário para o tipo: silenciada, só no app ou também no aparelho
   async createNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'read'>): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
-      const allNotifications: Notification[] = stored ? JSON.parse(stored) : [];
-      
+      const preferences = await notificationPreferenceService.getPreferences(notification.userId);
+      const channel = preferences.channels[notification.type];
+      if (channel === 'muted') return;
+
       const newNotification: Notification = {
         ...notification,
-        id: Date.now().toString(),
+        id: generateId(),
         createdAt: new Date().toISOString(),
         read: false,
       };
 
-      allNotifications.push(newNotification);
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(allNotifications));
+      await update(allNotifications => [...allNotifications, newNotification]);
+
+      // Também avisa pelo sistema do aparelho, quando permitido e fora do horário de silêncio
+      if (channel === 'in_app_push' && !notificationPreferenceService.isQuietTime(preferences)) {
+        await pushNotificationService.deliver(newNotification);
+      }
     } catch (error) {
       console.error('Erro ao criar notificação:', error);
     }
@@ -48,14 +138,9 @@ export const notificationService = {
 
   async markAsRead(notificationId: string): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
-      const allNotifications: Notification[] = stored ? JSON.parse(stored) : [];
-      
-      const updatedNotifications = allNotifications.map(n => 
+      await update(allNotifications => allNotifications.map(n =>
         n.id === notificationId ? { ...n, read: true } : n
-      );
-
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedNotifications));
+      ));
     } catch (error) {
       console.error('Erro ao marcar notificação como lida:', error);
     }
@@ -63,14 +148,9 @@ export const notificationService = {
 
   async markAllAsRead(userId: string): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
-      const allNotifications: Notification[] = stored ? JSON.parse(stored) : [];
-      
-      const updatedNotifications = allNotifications.map(n => 
+      await update(allNotifications => allNotifications.map(n =>
         n.userId === userId ? { ...n, read: true } : n
-      );
-
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(updatedNotifications));
+      ));
     } catch (error) {
       console.error('Erro ao marcar todas notificações como lidas:', error);
     }
@@ -78,43 +158,61 @@ export const notificationService = {
 
   async deleteNotification(notificationId: string): Promise<void> {
     try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY);
-      const allNotifications: Notification[] = stored ? JSON.parse(stored) : [];
-      
-      const filteredNotifications = allNotifications.filter(n => n.id !== notificationId);
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filteredNotifications));
+      await update(allNotifications => allNotifications.filter(n => n.id !== notificationId));
     } catch (error) {
       console.error('Erro ao deletar notificação:', error);
     }
   },
 
-  async getUnreadCount(userId: string): Promise<number> {
+  // Aplica o prazo de retenção atual, por exemplo logo depois de ele ser alterado nas configurações
+  async pruneReadNotifications(): Promise<void> {
     try {
-      const notifications = await this.getNotifications(userId);
-      return notifications.filter(n => !n.read).length;
+      const settings = await storageService.getAppSettings();
+      await update(allNotifications => removeExpired(allNotifications, settings.notificationRetentionDays));
     } catch (error) {
-      console.error('Erro ao contar notificações não lidas:', error);
-      return 0;
+      console.error('Erro ao remover notificações antigas:', error);
     }
   },
 
+  async getUnreadCount(userId: string): Promise<number> {
+    const notifications = await this.getNotifications(userId);
+    return notifications.filter(n => !n.read).length;
+  },
+
   // Notificações específicas para eventos do sistema
   async notifyAppointmentConfirmed(patientId: string, appointmentDetails: any): Promise<void> {
     await this.createNotification({
       userId: patientId,
       type: 'appointment_confirmed',
       title: 'Consulta Confirmada',
-      message: `Sua consulta com ${appointmentDetails.doctorName} foi confirmada para ${appointmentDetails.date} às ${appointmentDetails.time}.`,
+      message: `Sua consulta ${modalityText(appointmentDetails)} com ${appointmentDetails.doctorName} foi confirmada para ${formatClinicDateTime(appointmentDetails)}.`,
       appointmentId: appointmentDetails.id,
     });
   },
 
-  async notifyAppointmentCancelled(patientId: string, appointmentDetails: any, reason?: string): Promise<void> {
+  // O médico é avisado quando o paciente cancela; nos demais casos, o paciente
+  async notifyAppointmentCancelled(userId: string, appointmentDetails: Appointment, reason?: string): Promise<void> {
+    const message = userId === appointmentDetails.doctorId
+      ? `A consulta ${modalityText(appointmentDetails)} de ${appointmentDetails.patientName} em ${formatClinicDateTime(appointmentDetails)} foi cancelada pelo paciente.`
+      : `Sua consulta ${modalityText(appointmentDetails)} com ${appointmentDetails.doctorName} foi cancelada.`;
     await this.createNotification({
-      userId: patientId,
+      userId,
       type: 'appointment_cancelled',
       title: 'Consulta Cancelada',
-      message: `Sua consulta com ${appointmentDetails.doctorName} foi cancelada.${reason ? ` Motivo: ${reason}` : ''}`,
+      message: `${message}${reason ? ` Motivo: ${reason}` : ''}`,
+      appointmentId: appointmentDetails.id,
+    });
+  },
+
+  async notifyAppointmentRescheduled(userId: string, appointmentDetails: Appointment, change: AppointmentChange): Promise<void> {
+    const timeZone = appointmentDetails.timeZone;
+    const previous = formatClinicDateTime({ date: change.previousDate, time: change.previousTime, timeZone });
+    const next = formatClinicDateTime({ date: change.newDate, time: change.newTime, timeZone });
+    await this.createNotification({
+      userId,
+      type: 'appointment_rescheduled',
+      title: 'Consulta Remarcada',
+      message: `A consulta ${modalityText(appointmentDetails)} de ${previous} entre ${appointmentDetails.patientName} e ${appointmentDetails.doctorName} foi remarcada para ${next}.${change.reason ? ` Motivo: ${change.reason}` : ''}`,
       appointmentId: appointmentDetails.id,
     });
   },
@@ -122,20 +220,99 @@ export const notificationService = {
   async notifyNewAppointment(doctorId: string, appointmentDetails: any): Promise<void> {
     await this.createNotification({
       userId: doctorId,
-      type: 'general',
+      type: 'appointment_created',
       title: 'Nova Consulta Agendada',
-      message: `${appointmentDetails.patientName} agendou uma consulta para ${appointmentDetails.date} às ${appointmentDetails.time}.`,
+      message: `${appointmentDetails.patientName} agendou uma consulta ${modalityText(appointmentDetails)} para ${formatClinicDateTime(appointmentDetails)}.`,
+      appointmentId: appointmentDetails.id,
+    });
+  },
+
+  // Avisos de séries recorrentes: uma notificação por operação, apontando para a primeira consulta afetada
+  async notifyNewAppointmentSeries(doctorId: string, appointments: Appointment[]): Promise<void> {
+    const [first] = appointments;
+    await this.createNotification({
+      userId: doctorId,
+      type: 'appointment_created',
+      title: 'Nova Série de Consultas',
+      message: `${first.patientName} agendou ${appointments.length} consultas recorrentes ${modalityText(first, true)}, a partir de ${formatClinicDateTime(first)}.`,
+      appointmentId: first.id,
+    });
+  },
+
+  async notifySeriesRescheduled(userId: string, appointments: Appointment[], reason?: string): Promise<void> {
+    const [first] = appointments;
+    await this.createNotification({
+      userId,
+      type: 'appointment_rescheduled',
+      title: 'Série de Consultas Remarcada',
+      message: `${appointments.length} consultas ${modalityText(first, true)} entre ${first.patientName} e ${first.doctorName} foram remarcadas, a partir de ${formatClinicDateTime(first)}.${reason ? ` Motivo: ${reason}` : ''}`,
+      appointmentId: first.id,
+    });
+  },
+
+  async notifySeriesCancelled(userId: string, appointments: Appointment[], reason?: string): Promise<void> {
+    const [first] = appointments;
+    await this.createNotification({
+      userId,
+      type: 'appointment_cancelled',
+      title: 'Série de Consultas Cancelada',
+      message: `${appointments.length} consultas ${modalityText(first, true)} com ${first.doctorName}, a partir de ${formatClinicDateTime(first)}, foram canceladas.${reason ? ` Motivo: ${reason}` : ''}`,
+      appointmentId: first.id,
+    });
+  },
+
+  async notifyAppointmentBlocked(patientId: string, appointmentDetails: Appointment, reason: string): Promise<void> {
+    await this.createNotification({
+      userId: patientId,
+      type: 'general',
+      title: 'Consulta Precisa Ser Remarcada',
+      message: `${appointmentDetails.doctorName} não atenderá em ${formatDate(appointmentDetails.date)} (${reason}). Por favor, remarque sua consulta ${modalityText(appointmentDetails)} de ${formatClinicDateTime(appointmentDetails)}.`,
       appointmentId: appointmentDetails.id,
     });
   },
 
   async notifyAppointmentReminder(userId: string, appointmentDetails: any): Promise<void> {
+    // O horário do lembrete segue o fuso de quem recebe, com o horário da clínica quando difere
+    const display = toDisplayDateTime(appointmentDetails);
+    const localDate = instantToZonedTime(appointmentDetails.startsAt, getDeviceTimeZone()).date;
+    const today = todayISO();
+    const when = localDate === today
+      ? 'hoje'
+      : localDate === addDays(today, 1) ? 'amanhã' : display.date;
+    const counterpart = userId === appointmentDetails.patientId
+      ? appointmentDetails.doctorName
+      : appointmentDetails.patientName;
+    // O paciente de consulta online é lembrado de como entrar na sala
+    const waitingRoomNote = appointmentDetails.modality === 'online' && userId === appointmentDetails.patientId
+      ? ` Entre na sala de espera pelo app a partir de ${WAITING_ROOM_OPENS_MINUTES} minutos antes.`
+      : '';
+
     await this.createNotification({
       userId: userId,
       type: 'appointment_reminder',
       title: 'Lembrete de Consulta',
-      message: `Você tem uma consulta agendada para amanhã às ${appointmentDetails.time} com ${appointmentDetails.doctorName || appointmentDetails.patientName}.`,
+      message: `Você tem uma consulta ${modalityText(appointmentDetails)} agendada para ${when} às ${display.time} com ${counterpart}${display.timeZoneNote ? ` (${display.timeZoneNote})` : ''}.${waitingRoomNote}`,
+      appointmentId: appointmentDetails.id,
+    });
+  },
+
+  async notifyPatientInWaitingRoom(doctorId: string, appointmentDetails: Appointment): Promise<void> {
+    await this.createNotification({
+      userId: doctorId,
+      type: 'waiting_room',
+      title: 'Paciente na Sala de Espera',
+      message: `${appointmentDetails.patientName} entrou na sala de espera da consulta online de ${formatClinicDateTime(appointmentDetails)}.`,
       appointmentId: appointmentDetails.id,
     });
   },
+
+  // Vaga liberada por cancelamento oferecida a um paciente da lista de espera
+  async notifyWaitlistOffer(patientId: string, entry: WaitlistEntry, offer: WaitlistOffer): Promise<void> {
+    await this.createNotification({
+      userId: patientId,
+      type: 'waitlist_offer',
+      title: 'Vaga Disponível',
+      message: `Abriu uma vaga com ${entry.doctorName} para ${formatClinicDateTime(offer)}. Aceite no seu painel até ${formatInstant(offer.expiresAt)}; depois disso, a vaga será oferecida ao próximo da lista de espera.`,
+    });
+  },
 };
@@ -0,0 +1,181 @@
+import { Platform, Share } from 'react-native';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Prescription, PrescriptionItem } from '../types/prescriptions';
+import { Appointment } from '../types/appointments';
+import { storageService, STORAGE_KEYS } from './storage';
+import { appointmentService } from './appointments';
+import { doctorService } from './doctors';
+import { specialtyService, getSpecialtyName } from './specialties';
+import { Actor, assertCan, can } from '../utils/permissions';
+import { formatDate } from '../utils/date';
+import { CLINIC_TIME_ZONE, instantToZonedTime } from '../utils/timezone';
+import { generateId } from '../utils/id';
+
+const REQUIRED_FIELDS: { key: keyof PrescriptionItem; label: string }[] = [
+  { key: 'medication', label: 'o medicamento' },
+  { key: 'dosage', label: 'a dose' },
+  { key: 'frequency', label: 'a frequência' },
+  { key: 'duration', label: 'a duração' },
+];
+
+const loadPrescriptions = async (): Promise<Prescription[]> => {
+  return (await storageService.getItem<Prescription[]>(STORAGE_KEYS.PRESCRIPTIONS, [])) || [];
+};
+
+const normalizeItems = (items: PrescriptionItem[]): PrescriptionItem[] => {
+  if (items.length === 0) {
+    throw new Error('Inclua ao menos um medicamento na receita');
+  }
+  return items.map((item, index) => {
+    const missing = REQUIRED_FIELDS.find(field => !item[field.key]?.trim());
+    if (missing) {
+      throw new Error(`Medicamento ${index + 1}: informe ${missing.label}`);
+    }
+    const notes = item.notes?.trim();
+    return {
+      medication: item.medication.trim(),
+      dosage: item.dosage.trim(),
+      frequency: item.frequency.trim(),
+      duration: item.duration.trim(),
+      ...(notes && { notes }),
+    };
+  });
+};
+
+const findAppointment = async (appointmentId: string): Promise<Appointment> => {
+  const appointment = await appointmentService.getAppointmentById(appointmentId);
+  if (!appointment) {
+    throw new Error('Consulta não encontrada');
+  }
+  return appointment;
+};
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Receituário simples: identificação do médico no cabeçalho, paciente, medicamentos
+// numerados com a posologia e, no rodapé, data e assinatura com o CRM
+const renderPrescriptionHtml = (prescription: Prescription): string => {
+  const issuedOn = formatDate(instantToZonedTime(prescription.issuedAt, CLINIC_TIME_ZONE).date);
+  const items = prescription.items.map(item => `
+    <li>
+      <div class="medication"><span>${escapeHtml(item.medication)}</span><span class="dots"></span><span>${escapeHtml(item.duration)}</span></div>
+      <div class="posology">${escapeHtml(item.dosage)}, ${escapeHtml(item.frequency)}.</div>
+      ${item.notes ? `<div class="notes">${escapeHtml(item.notes)}</div>` : ''}
+    </li>`).join('');
+
+  return `
+    <html>
+      <head>
+        <meta charset="utf-8" />
+        <style>
+          body { font-family: Helvetica, Arial, sans-serif; color: #222; margin: 48px; }
+          header { text-align: center; border-bottom: 2px solid #222; padding-bottom: 12px; }
+          header h1 { font-size: 22px; margin: 0; }
+          header p { margin: 4px 0 0; font-size: 14px; }
+          h2 { text-align: center; font-size: 18px; letter-spacing: 4px; margin: 28px 0 20px; }
+          .patient { font-size: 15px; margin-bottom: 24px; }
+          ol { padding-left: 20px; font-size: 15px; }
+          li { margin-bottom: 18px; }
+          .medication { display: flex; font-weight: bold; }
+          .dots { flex: 1; border-bottom: 1px dotted #222; margin: 0 6px 4px; }
+          .posology { margin-top: 4px; }
+          .notes { margin-top: 2px; font-style: italic; }
+          footer { margin-top: 80px; text-align: center; font-size: 14px; }
+          .signature { width: 60%; margin: 48px auto 6px; border-top: 1px solid #222; }
+        </style>
+      </head>
+      <body>
+        <header>
+          <h1>${escapeHtml(prescription.doctorName)}</h1>
+          <p>${escapeHtml(prescription.doctorSpecialty)}</p>
+          <p>CRM ${escapeHtml(prescription.doctorCrm)}</p>
+        </header>
+        <h2>RECEITUÁRIO</h2>
+        <div class="patient"><strong>Paciente:</strong> ${escapeHtml(prescription.patientName)}</div>
+        <ol>${items}</ol>
+        <footer>
+          <div>${issuedOn}</div>
+          <div class="signature"></div>
+          <div>${escapeHtml(prescription.doctorName)}</div>
+          <div>CRM ${escapeHtml(prescription.doctorCrm)}</div>
+        </footer>
+      </body>
+    </html>`;
+};
+
+export const prescriptionService = {
+  // Receitas do paciente, da mais recente para a mais antiga
+  async getPrescriptionsByPatient(patientId: string, actor: Actor): Promise<Prescription[]> {
+    const prescriptions = (await loadPrescriptions()).filter(p => p.patientId === patientId);
+    return prescriptions
+      .filter(p => can(actor, 'prescription:view', p))
+      .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+  },
+
+  async getPrescriptionsByAppointment(appointmentId: string, actor: Actor): Promise<Prescription[]> {
+    const prescriptions = (await loadPrescriptions()).filter(p => p.appointmentId === appointmentId);
+    return prescriptions
+      .filter(p => can(actor, 'prescription:view', p))
+      .sort((a, b) => a.issuedAt.localeCompare(b.issuedAt));
+  },
+
+  // Emite a receita com os dados do médico no momento da emissão; exige o CRM cadastrado
+  async issuePrescription(appointmentId: string, items: PrescriptionItem[], actor: Actor): Promise<Prescription> {
+    const appointment = await findAppointment(appointmentId);
+    assertCan(actor, 'prescription:issue', appointment);
+    if (appointment.status !== 'in_progress' && appointment.status !== 'completed') {
+      throw new Error('A receita só pode ser emitida depois de iniciado o atendimento');
+    }
+
+    const doctor = await doctorService.getDoctorById(appointment.doctorId);
+    if (!doctor?.crm) {
+      throw new Error('Cadastre seu CRM no perfil antes de emitir receitas');
+    }
+    const catalog = await specialtyService.getSpecialties();
+
+    const prescription: Prescription = {
+      id: generateId(),
+      appointmentId,
+      patientId: appointment.patientId,
+      patientName: appointment.patientName,
+      doctorId: doctor.id,
+      doctorName: doctor.name,
+      doctorSpecialty: getSpecialtyName(catalog, doctor.specialty),
+      doctorCrm: doctor.crm,
+      items: normalizeItems(items),
+      issuedAt: new Date().toISOString(),
+    };
+
+    const prescriptions = await loadPrescriptions();
+    await storageService.setItem(STORAGE_KEYS.PRESCRIPTIONS, [...prescriptions, prescription]);
+    return prescription;
+  },
+
+  // Gera o PDF da receita e abre o compartilhamento do sistema, como no backup das configurações.
+  // No Android o Share do React Native só envia texto, então o arquivo segue pelo expo-sharing
+  async sharePrescription(prescription: Prescription): Promise<void> {
+    const { uri } = await Print.printToFileAsync({ html: renderPrescriptionHtml(prescription) });
+    const issuedOn = formatDate(instantToZonedTime(prescription.issuedAt, CLINIC_TIME_ZONE).date);
+    const title = `Receita - ${prescription.patientName}`;
+
+    if (Platform.OS === 'android') {
+      if (!(await Sharing.isAvailableAsync())) {
+        throw new Error('O compartilhamento de arquivos não está disponível neste dispositivo');
+      }
+      await Sharing.shareAsync(uri, { mimeType: 'application/pdf', dialogTitle: title });
+      return;
+    }
+
+    await Share.share({
+      url: uri,
+      message: `Receita de ${prescription.doctorName} para ${prescription.patientName} (${issuedOn})`,
+      title,
+    });
+  },
+};
@@ -0,0 +1,123 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { storageService, STORAGE_KEYS } from './storage';
+
+// Canal Android usado para os avisos de consultas
+const ANDROID_CHANNEL_ID = 'appointments';
+
+/**
+ * Dados anexados à notificação do aparelho para abrir a consulta ao tocar
+ */
+export type PushNotificationData = {
+  notificationId: string;
+  appointmentId?: string;
+};
+
+/**
+ * Conteúdo mínimo necessário para exibir uma notificação no aparelho
+ */
+type DeliverableNotification = {
+  id: string;
+  userId: string;
+  title: string;
+  message: string;
+  appointmentId?: string;
+};
+
+// Exibe as notificações mesmo com o app aberto
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+const ensureAndroidChannel = async () => {
+  if (Platform.OS !== 'android') return;
+  await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+    name: 'Consultas',
+    importance: Notifications.AndroidImportance.HIGH,
+  });
+};
+
+// O app é local: só quem está logado neste aparelho recebe os avisos dele
+const getSignedInUserId = async (): Promise<string | null> => {
+  const userJson = await AsyncStorage.getItem(STORAGE_KEYS.USER);
+  return userJson ? JSON.parse(userJson).id : null;
+};
+
+// Notificação tocada que já foi tratada; a última resposta continua disponível após novo login
+let lastOpenedId: string | null = null;
+
+export const pushNotificationService = {
+  async hasPermission(): Promise<boolean> {
+    const { granted } = await Notifications.getPermissionsAsync();
+    return granted;
+  },
+
+  // Pede a permissão ao sistema; retorna falso se o usuário recusar
+  async requestPermission(): Promise<boolean> {
+    await ensureAndroidChannel();
+    if (await this.hasPermission()) return true;
+
+    const { granted } = await Notifications.requestPermissionsAsync();
+    return granted;
+  },
+
+  // Liga as notificações do aparelho; sem permissão, a configuração continua desligada
+  async enable(): Promise<boolean> {
+    const granted = await this.requestPermission();
+    await storageService.updateAppSettings({ notifications: granted });
+    return granted;
+  },
+
+  // Desliga as notificações do aparelho e descarta as que ainda estão pendentes ou na bandeja
+  async disable(): Promise<void> {
+    await storageService.updateAppSettings({ notifications: false });
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    await Notifications.dismissAllNotificationsAsync();
+  },
+
+  // Exibe a notificação no aparelho se ela for do usuário logado e a entrega estiver ligada
+  async deliver(notification: DeliverableNotification): Promise<void> {
+    try {
+      const settings = await storageService.getAppSettings();
+      if (!settings.notifications) return;
+      if ((await getSignedInUserId()) !== notification.userId) return;
+      if (!(await this.hasPermission())) return;
+
+      const data: PushNotificationData = {
+        notificationId: notification.id,
+        ...(notification.appointmentId && { appointmentId: notification.appointmentId }),
+      };
+
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: notification.title,
+          body: notification.message,
+          data,
+        },
+        trigger: Platform.OS === 'android' ? { channelId: ANDROID_CHANNEL_ID } : null,
+      });
+    } catch (error) {
+      console.error('Erro ao exibir notificação no aparelho:', error);
+    }
+  },
+
+  // Chama o callback ao tocar em uma notificação, inclusive a que abriu o app; retorna a função que encerra
+  onNotificationOpened(callback: (data: PushNotificationData) => void): () => void {
+    const handle = (response: Notifications.NotificationResponse | null) => {
+      const data = response?.notification.request.content.data as PushNotificationData | undefined;
+      if (data?.notificationId && data.notificationId !== lastOpenedId) {
+        lastOpenedId = data.notificationId;
+        callback(data);
+      }
+    };
+
+    Notifications.getLastNotificationResponseAsync().then(handle);
+    const subscription = Notifications.addNotificationResponseReceivedListener(handle);
+    return () => subscription.remove();
+  },
+};
@@ -0,0 +1,85 @@
+import { AppState } from 'react-native';
+import { Appointment, AppointmentStatus } from '../types/appointments';
+import { storageService, STORAGE_KEYS } from './storage';
+import { appointmentService } from './appointments';
+import { notificationService } from './notifications';
+
+// Status em que a consulta ainda vai acontecer e merece lembrete
+const REMINDABLE_STATUSES: AppointmentStatus[] = ['pending', 'confirmed'];
+
+// Evita que duas verificações simultâneas (início e retorno ao app) enviem o mesmo lembrete
+let running: Promise<void> | null = null;
+
+// A chave inclui o instante da consulta, para que uma remarcação gere novos lembretes
+const getReminderKey = (appointment: Appointment, offsetHours: number) =>
+  `${appointment.id}:${appointment.startsAt}:${offsetHours}`;
+
+const getStartTime = (appointment: Appointment): number | null => {
+  const time = new Date(appointment.startsAt).getTime();
+  return isNaN(time) ? null : time;
+};
+
+const processDueReminders = async (): Promise<void> => {
+  const settings = await storageService.getAppSettings();
+  if (!settings.reminders) return;
+
+  const offsets = [...settings.reminderOffsets].sort((a, b) => b - a);
+  if (offsets.length === 0) return;
+
+  const now = Date.now();
+  const appointments = (await appointmentService.getAllAppointments()).filter(a => {
+    const start = getStartTime(a);
+    return REMINDABLE_STATUSES.includes(a.status) && start !== null && start > now;
+  });
+
+  const sent = new Set(
+    (await storageService.getItem<string[]>(STORAGE_KEYS.SENT_REMINDERS, [])) || []
+  );
+
+  for (const appointment of appointments) {
+    const start = getStartTime(appointment)!;
+    const dueOffsets = offsets.filter(hours => now >= start - hours * 60 * 60 * 1000);
+    if (dueOffsets.length === 0) continue;
+
+    // Com o app fechado por muito tempo, vários lembretes podem vencer juntos;
+    // envia apenas o mais próximo da consulta e marca os anteriores como enviados
+    const closest = dueOffsets[dueOffsets.length - 1];
+    if (!sent.has(getReminderKey(appointment, closest))) {
+      await notificationService.notifyAppointmentReminder(appointment.patientId, appointment);
+      await notificationService.notifyAppointmentReminder(appointment.doctorId, appointment);
+    }
+    dueOffsets.forEach(hours => sent.add(getReminderKey(appointment, hours)));
+  }
+
+  // Guarda apenas as chaves de consultas futuras para a lista não crescer indefinidamente
+  const upcomingIds = new Set(appointments.map(a => a.id));
+  await storageService.setItem(
+    STORAGE_KEYS.SENT_REMINDERS,
+    Array.from(sent).filter(key => upcomingIds.has(key.split(':')[0]))
+  );
+};
+
+export const reminderService = {
+  // Cria os lembretes que já venceram e ainda não foram enviados
+  async processDueReminders(): Promise<void> {
+    if (!running) {
+      running = processDueReminders()
+        .catch(error => console.error('Erro ao processar lembretes:', error))
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  },
+
+  // Verifica os lembretes agora e sempre que o app volta ao primeiro plano; retorna a função que encerra
+  start(): () => void {
+    this.processDueReminders();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        this.processDueReminders();
+      }
+    });
+    return () => subscription.remove();
+  },
+};
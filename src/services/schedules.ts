@@ -0,0 +1,155 @@
+import { BlockedPeriod, DaySchedule, DoctorSchedule, Weekday } from '../types/schedules';
+import { storageService, STORAGE_KEYS } from './storage';
+import { blockedPeriodService } from './blockedPeriods';
+import { clinicService } from './clinics';
+import { Actor, assertCan } from '../utils/permissions';
+import { getWeekday, isDateInRange, WEEKDAY_NAMES } from '../utils/date';
+import { isValidTime, toMinutes, toTime } from '../utils/time';
+
+// Expediente padrão: segunda a sexta, das 9h às 18h, com almoço das 12h às 13h
+const WEEKDAY_DEFAULT: DaySchedule = {
+  enabled: true,
+  start: '09:00',
+  end: '18:00',
+  breakStart: '12:00',
+  breakEnd: '13:00',
+};
+
+const DAY_OFF: DaySchedule = {
+  enabled: false,
+  start: '09:00',
+  end: '18:00',
+};
+
+const validateDay = (day: DaySchedule, name: string) => {
+  if (!day.enabled) return;
+
+  if (!isValidTime(day.start) || !isValidTime(day.end)) {
+    throw new Error(`${name}: informe os horários no formato HH:mm`);
+  }
+  if (toMinutes(day.start) >= toMinutes(day.end)) {
+    throw new Error(`${name}: o início do expediente deve ser antes do fim`);
+  }
+
+  if (day.breakStart || day.breakEnd) {
+    if (!day.breakStart || !day.breakEnd || !isValidTime(day.breakStart) || !isValidTime(day.breakEnd)) {
+      throw new Error(`${name}: informe o início e o fim do intervalo no formato HH:mm`);
+    }
+    if (
+      toMinutes(day.breakStart) >= toMinutes(day.breakEnd) ||
+      toMinutes(day.breakStart) < toMinutes(day.start) ||
+      toMinutes(day.breakEnd) > toMinutes(day.end)
+    ) {
+      throw new Error(`${name}: o intervalo deve estar dentro do expediente`);
+    }
+  }
+};
+
+export const scheduleService = {
+  getDefaultSchedule(doctorId: string): DoctorSchedule {
+    return {
+      doctorId,
+      slotDuration: 30,
+      days: {
+        0: { ...DAY_OFF },
+        1: { ...WEEKDAY_DEFAULT },
+        2: { ...WEEKDAY_DEFAULT },
+        3: { ...WEEKDAY_DEFAULT },
+        4: { ...WEEKDAY_DEFAULT },
+        5: { ...WEEKDAY_DEFAULT },
+        6: { ...DAY_OFF },
+      },
+    };
+  },
+
+  async getSchedules(): Promise<DoctorSchedule[]> {
+    return (await storageService.getItem<DoctorSchedule[]>(STORAGE_KEYS.DOCTOR_SCHEDULES, [])) || [];
+  },
+
+  async getSchedule(doctorId: string): Promise<DoctorSchedule> {
+    const schedules = await this.getSchedules();
+    return schedules.find(s => s.doctorId === doctorId) || this.getDefaultSchedule(doctorId);
+  },
+
+  async saveSchedule(schedule: DoctorSchedule, actor: Actor): Promise<void> {
+    assertCan(actor, 'schedule:manage', schedule);
+
+    if (!Number.isInteger(schedule.slotDuration) || schedule.slotDuration < 5 || schedule.slotDuration > 240) {
+      throw new Error('A duração da consulta deve ser entre 5 e 240 minutos');
+    }
+    (Object.keys(schedule.days) as unknown as Weekday[]).forEach(weekday => {
+      validateDay(schedule.days[weekday], WEEKDAY_NAMES[weekday]);
+    });
+    await clinicService.assertScheduleLocations(schedule);
+
+    const schedules = await this.getSchedules();
+    const updatedSchedules = [
+      ...schedules.filter(s => s.doctorId !== schedule.doctorId),
+      schedule,
+    ];
+    await storageService.setItem(STORAGE_KEYS.DOCTOR_SCHEDULES, updatedSchedules);
+  },
+
+  // Indica se o médico tem expediente no dia da semana da data ISO
+  worksOn(schedule: DoctorSchedule, date: string): boolean {
+    const weekday = getWeekday(date) as Weekday | null;
+    return weekday !== null && !!schedule.days[weekday]?.enabled;
+  },
+
+  // Indica se o médico atende na unidade em algum dia da semana
+  hasUnit(schedule: DoctorSchedule, unitId: string): boolean {
+    return Object.values(schedule.days).some(day => day.enabled && day.unitId === unitId);
+  },
+
+  // Indica se o médico atende na unidade no dia da semana da data ISO
+  worksAtUnit(schedule: DoctorSchedule, date: string, unitId: string): boolean {
+    const weekday = getWeekday(date) as Weekday | null;
+    return weekday !== null && this.worksOn(schedule, date) && schedule.days[weekday].unitId === unitId;
+  },
+
+  // Dia em que o médico atende e que não cai em nenhum bloqueio informado
+  isDayAvailable(schedule: DoctorSchedule, blockedPeriods: BlockedPeriod[], date: string): boolean {
+    return this.worksOn(schedule, date) &&
+      !blockedPeriods.some(p => isDateInRange(date, p.startDate, p.endDate));
+  },
+
+  // Gera os horários de um dia a partir do modelo semanal, pulando o intervalo
+  generateTimeSlots(schedule: DoctorSchedule, weekday: Weekday): string[] {
+    const day = schedule.days[weekday];
+    if (!day || !day.enabled) return [];
+
+    const slots: string[] = [];
+    const end = toMinutes(day.end);
+    const breakStart = day.breakStart ? toMinutes(day.breakStart) : null;
+    const breakEnd = day.breakEnd ? toMinutes(day.breakEnd) : null;
+
+    let start = toMinutes(day.start);
+    while (start + schedule.slotDuration <= end) {
+      const overlapsBreak =
+        breakStart !== null && breakEnd !== null &&
+        start < breakEnd && start + schedule.slotDuration > breakStart;
+
+      if (overlapsBreak) {
+        // Retoma os horários a partir do fim do intervalo
+        start = breakEnd as number;
+        continue;
+      }
+
+      slots.push(toTime(start));
+      start += schedule.slotDuration;
+    }
+
+    return slots;
+  },
+
+  // Horários do médico para uma data ISO (AAAA-MM-DD), vazio se a data estiver bloqueada
+  async getTimeSlots(doctorId: string, date: string): Promise<string[]> {
+    const weekday = getWeekday(date) as Weekday | null;
+    if (weekday === null) return [];
+
+    if (await blockedPeriodService.findBlockingPeriod(date, doctorId)) return [];
+
+    const schedule = await this.getSchedule(doctorId);
+    return this.generateTimeSlots(schedule, weekday);
+  },
+};
@@ -0,0 +1,123 @@
+import * as Crypto from 'expo-crypto';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { jwtDecode } from 'jwt-decode';
+import { SessionPayload, User } from '../types/auth';
+import { storageService, STORAGE_KEYS } from './storage';
+
+// Duração de cada token de sessão
+const SESSION_DURATION_SECONDS = 30 * 60;
+
+// Tokens com menos tempo restante que isso são renovados enquanto o usuário usa o app
+export const REFRESH_THRESHOLD_SECONDS = 5 * 60;
+
+const HMAC_BLOCK_SIZE = 64;
+const SECRET_BYTES = 32;
+
+const TOKEN_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+const nowInSeconds = () => Math.floor(Date.now() / 1000);
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const encodeJson = (value: object): string => {
+  return base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+};
+
+const concatBytes = (a: Uint8Array, b: Uint8Array): Uint8Array => {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+};
+
+const sha256 = async (data: Uint8Array): Promise<Uint8Array> => {
+  return new Uint8Array(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, data));
+};
+
+// HMAC-SHA256 (RFC 2104) sobre o conteúdo do token
+const hmacSha256 = async (key: Uint8Array, message: string): Promise<Uint8Array> => {
+  const paddedKey = new Uint8Array(HMAC_BLOCK_SIZE);
+  paddedKey.set(key.length > HMAC_BLOCK_SIZE ? await sha256(key) : key);
+
+  const innerPad = paddedKey.map(byte => byte ^ 0x36);
+  const outerPad = paddedKey.map(byte => byte ^ 0x5c);
+
+  const inner = await sha256(concatBytes(innerPad, new TextEncoder().encode(message)));
+  return await sha256(concatBytes(outerPad, inner));
+};
+
+// Segredo de assinatura gerado uma única vez por dispositivo; não entra no backup
+const getSecret = async (): Promise<Uint8Array> => {
+  let secret = await storageService.getItem<number[]>(STORAGE_KEYS.SESSION_SECRET);
+  if (!secret) {
+    secret = Array.from(Crypto.getRandomBytes(SECRET_BYTES));
+    await storageService.setItem(STORAGE_KEYS.SESSION_SECRET, secret);
+  }
+  return new Uint8Array(secret);
+};
+
+const sign = async (content: string): Promise<string> => {
+  return base64UrlEncode(await hmacSha256(await getSecret(), content));
+};
+
+// Os usuários são lidos direto do armazenamento, como faz o authService, que depende deste serviço
+const findActiveUser = async (userId: string): Promise<User | null> => {
+  const usersJson = await AsyncStorage.getItem(STORAGE_KEYS.USERS);
+  const users: User[] = usersJson ? JSON.parse(usersJson) : [];
+  const user = users.find(u => u.id === userId);
+  return user && user.active !== false ? user : null;
+};
+
+export const sessionService = {
+  async createToken(user: Pick<User, 'id' | 'role'>): Promise<string> {
+    const issuedAt = nowInSeconds();
+    const payload: SessionPayload = {
+      sub: user.id,
+      role: user.role,
+      iat: issuedAt,
+      exp: issuedAt + SESSION_DURATION_SECONDS,
+    };
+
+    const content = `${encodeJson(TOKEN_HEADER)}.${encodeJson(payload)}`;
+    return `${content}.${await sign(content)}`;
+  },
+
+  // Retorna o conteúdo do token se a assinatura for válida e ele não tiver expirado
+  async verifyToken(token: string | null): Promise<SessionPayload | null> {
+    if (!token) return null;
+
+    const parts = token.split('.');
+    if (parts.length !== 3) return null;
+
+    try {
+      const [header, body, signature] = parts;
+      if ((await sign(`${header}.${body}`)) !== signature) {
+        return null;
+      }
+
+      const payload = jwtDecode<SessionPayload>(token);
+      return payload.exp > nowInSeconds() ? payload : null;
+    } catch (error) {
+      return null;
+    }
+  },
+
+  // Emite um novo token para uma sessão ainda válida; sessões expiradas e usuários
+  // desativados ou excluídos depois do login não podem ser renovados
+  async refreshToken(token: string | null): Promise<string | null> {
+    const payload = await this.verifyToken(token);
+    if (!payload) return null;
+
+    const user = await findActiveUser(payload.sub);
+    if (!user) return null;
+
+    return await this.createToken(user);
+  },
+
+  getSecondsUntilExpiry(payload: SessionPayload): number {
+    return payload.exp - nowInSeconds();
+  },
+};
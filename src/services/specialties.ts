@@ -0,0 +1,118 @@
+import { Specialty } from '../types/specialties';
+import { storageService, STORAGE_KEYS } from './storage';
+import { authService } from './auth';
+import { Actor, assertCan } from '../utils/permissions';
+import { normalizeText } from '../utils/text';
+
+const CODE_REGEX = /^[a-z0-9_]+$/;
+
+// Catálogo inicial, gravado na primeira leitura
+const DEFAULT_SPECIALTIES: Specialty[] = [
+  { code: 'cardiologia', name: 'Cardiologia', description: 'Coração e sistema circulatório', aliases: ['Cardiologista'] },
+  { code: 'clinica_geral', name: 'Clínica Geral', description: 'Atendimento geral e encaminhamentos', aliases: ['Clínico Geral'] },
+  { code: 'dermatologia', name: 'Dermatologia', description: 'Pele, cabelos e unhas', aliases: ['Dermatologista'] },
+  { code: 'ginecologia', name: 'Ginecologia', description: 'Saúde da mulher', aliases: ['Ginecologista'] },
+  { code: 'neurologia', name: 'Neurologia', description: 'Cérebro e sistema nervoso', aliases: ['Neurologista'] },
+  { code: 'oftalmologia', name: 'Oftalmologia', description: 'Olhos e visão', aliases: ['Oftalmologista'] },
+  { code: 'ortopedia', name: 'Ortopedia', description: 'Ossos, músculos e articulações', aliases: ['Ortopedista'] },
+  { code: 'pediatria', name: 'Pediatria', description: 'Saúde de crianças e adolescentes', aliases: ['Pediatra'] },
+  { code: 'psiquiatria', name: 'Psiquiatria', description: 'Saúde mental', aliases: ['Psiquiatra'] },
+];
+
+
+// Encontra a especialidade pelo código, pelo nome ou por um nome antigo
+export const findSpecialty = (catalog: Specialty[], value: string): Specialty | undefined => {
+  const normalized = normalizeText(value);
+  return catalog.find(s =>
+    s.code === value ||
+    normalizeText(s.name) === normalized ||
+    (s.aliases || []).some(alias => normalizeText(alias) === normalized)
+  );
+};
+
+// Nome de exibição; valores fora do catálogo são mostrados como estão
+export const getSpecialtyName = (catalog: Specialty[], value: string): string => {
+  return findSpecialty(catalog, value)?.name || value;
+};
+
+export const specialtyService = {
+  async getSpecialties(): Promise<Specialty[]> {
+    const stored = await storageService.getItem<Specialty[]>(STORAGE_KEYS.SPECIALTIES);
+    if (stored) return stored;
+
+    await storageService.setItem(STORAGE_KEYS.SPECIALTIES, DEFAULT_SPECIALTIES);
+    return DEFAULT_SPECIALTIES;
+  },
+
+  async getSpecialty(code: string): Promise<Specialty | null> {
+    const specialties = await this.getSpecialties();
+    return specialties.find(s => s.code === code) || null;
+  },
+
+  // Converte um texto livre antigo ou um código no código do catálogo
+  async resolveCode(value: string): Promise<string | null> {
+    const specialties = await this.getSpecialties();
+    return findSpecialty(specialties, value)?.code || null;
+  },
+
+  async getDisplayName(value: string): Promise<string> {
+    return getSpecialtyName(await this.getSpecialties(), value);
+  },
+
+  // Cria ou atualiza uma especialidade; ao renomear, o nome anterior passa a ser um apelido
+  async saveSpecialty(specialty: Specialty, actor: Actor): Promise<Specialty> {
+    assertCan(actor, 'specialty:manage');
+
+    const code = specialty.code.trim();
+    const name = specialty.name.trim();
+    if (!CODE_REGEX.test(code)) {
+      throw new Error('O código deve conter apenas letras minúsculas, números e _');
+    }
+    if (!name) {
+      throw new Error('Informe o nome da especialidade');
+    }
+
+    const specialties = await this.getSpecialties();
+    const existing = specialties.find(s => s.code === code);
+    const duplicate = specialties.find(s => s.code !== code && normalizeText(s.name) === normalizeText(name));
+    if (duplicate) {
+      throw new Error(`Já existe a especialidade "${duplicate.name}"`);
+    }
+
+    const aliases = new Set(existing?.aliases || []);
+    if (existing && existing.name !== name) {
+      aliases.add(existing.name);
+    }
+
+    const saved: Specialty = {
+      code,
+      name,
+      description: specialty.description.trim(),
+      ...(aliases.size > 0 && { aliases: Array.from(aliases) }),
+    };
+
+    await storageService.setItem(
+      STORAGE_KEYS.SPECIALTIES,
+      existing
+        ? specialties.map(s => (s.code === code ? saved : s))
+        : [...specialties, saved]
+    );
+    return saved;
+  },
+
+  async removeSpecialty(code: string, actor: Actor): Promise<void> {
+    assertCan(actor, 'specialty:manage');
+
+    const specialties = await this.getSpecialties();
+    const users = await authService.getAllUsers();
+    const inUse = users.some(u => u.role === 'doctor' && findSpecialty(specialties, u.specialty)?.code === code);
+    if (inUse) {
+      throw new Error('Há médicos cadastrados nesta especialidade');
+    }
+
+    await storageService.setItem(
+      STORAGE_KEYS.SPECIALTIES,
+      specialties.filter(s => s.code !== code)
+    );
+  },
+};
@@ -1,47 +1,56 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-
-interface Appointment {
-  id: string;
-  patientId: string;
-  patientName: string;
-  doctorId: string;
-  doctorName: string;
-  date: string;
-  time: string;
-  specialty: string;
-  status: 'pending' | 'confirmed' | 'cancelled';
-}
+import { appointmentService } from './appointments';
+import { Appointment, AppointmentStatus } from '../types/appointments';
+import { APPOINTMENT_STATUSES } from '../utils/appointmentStatus';
+import { specialtyService, getSpecialtyName } from './specialties';
+import { Specialty } from '../types/specialties';
+import { parseISODate } from '../utils/date';
 
 export interface Statistics {
   totalAppointments: number;
   confirmedAppointments: number;
   pendingAppointments: number;
   cancelledAppointments: number;
+  completedAppointments: number;
+  noShowAppointments: number;
   totalPatients: number;
   totalDoctors: number;
   specialties: { [key: string]: number };
   appointmentsByMonth: { [key: string]: number };
-  statusPercentages: {
-    confirmed: number;
-    pending: number;
-    cancelled: number;
-  };
+  statusPercentages: Record<AppointmentStatus, number>;
 }
 
+// Percentual de consultas em cada status
+const getStatusPercentages = (appointments: Appointment[]): Record<AppointmentStatus, number> => {
+  const percentages = {} as Record<AppointmentStatus, number>;
+  APPOINTMENT_STATUSES.forEach(status => {
+    const count = appointments.filter(a => a.status === status).length;
+    percentages[status] = appointments.length > 0 ? (count / appointments.length) * 100 : 0;
+  });
+  return percentages;
+};
+
+// Conta as consultas por especialidade usando o nome do catálogo
+const countBySpecialty = (list: Appointment[], catalog: Specialty[]): { [key: string]: number } => {
+  const counts: { [key: string]: number } = {};
+  list.forEach(appointment => {
+    const name = getSpecialtyName(catalog, appointment.specialty);
+    counts[name] = (counts[name] || 0) + 1;
+  });
+  return counts;
+};
+
 export const statisticsService = {
   async getGeneralStatistics(): Promise<Statistics> {
     try {
-      const appointmentsData = await AsyncStorage.getItem('@MedicalApp:appointments');
-      const appointments: Appointment[] = appointmentsData ? JSON.parse(appointmentsData) : [];
-      
-      const registeredUsersData = await AsyncStorage.getItem('@MedicalApp:registeredUsers');
-      const registeredUsers = registeredUsersData ? JSON.parse(registeredUsersData) : [];
+      const appointments = await appointmentService.getAllAppointments();
 
       // Estatísticas básicas
       const totalAppointments = appointments.length;
       const confirmedAppointments = appointments.filter(a => a.status === 'confirmed').length;
       const pendingAppointments = appointments.filter(a => a.status === 'pending').length;
       const cancelledAppointments = appointments.filter(a => a.status === 'cancelled').length;
+      const completedAppointments = appointments.filter(a => a.status === 'completed').length;
+      const noShowAppointments = appointments.filter(a => a.status === 'no_show').length;
 
       // Contagem de pacientes únicos
       const uniquePatients = new Set(appointments.map(a => a.patientId));
@@ -51,44 +60,32 @@ export const statisticsService = {
       const uniqueDoctors = new Set(appointments.map(a => a.doctorId));
       const totalDoctors = uniqueDoctors.size;
 
-      // Especialidades mais acessadas
-      const specialties: { [key: string]: number } = {};
-      appointments.forEach(appointment => {
-        if (specialties[appointment.specialty]) {
-          specialties[appointment.specialty]++;
-        } else {
-          specialties[appointment.specialty] = 1;
-        }
-      });
+      // Especialidades mais acessadas, agrupadas pelo catálogo para unir grafias diferentes
+      const catalog = await specialtyService.getSpecialties();
+      const specialties = countBySpecialty(appointments, catalog);
 
       // Consultas por mês
       const appointmentsByMonth: { [key: string]: number } = {};
       appointments.forEach(appointment => {
-        try {
-          const [day, month, year] = appointment.date.split('/');
-          const monthKey = `${month}/${year}`;
-          if (appointmentsByMonth[monthKey]) {
-            appointmentsByMonth[monthKey]++;
-          } else {
-            appointmentsByMonth[monthKey] = 1;
-          }
-        } catch (error) {
+        const date = parseISODate(appointment.date);
+        if (!date) {
           console.warn('Data inválida encontrada:', appointment.date);
+          return;
         }
+        const monthKey = `${(date.getMonth() + 1).toString().padStart(2, '0')}/${date.getFullYear()}`;
+        appointmentsByMonth[monthKey] = (appointmentsByMonth[monthKey] || 0) + 1;
       });
 
       // Percentuais de status
-      const statusPercentages = {
-        confirmed: totalAppointments > 0 ? (confirmedAppointments / totalAppointments) * 100 : 0,
-        pending: totalAppointments > 0 ? (pendingAppointments / totalAppointments) * 100 : 0,
-        cancelled: totalAppointments > 0 ? (cancelledAppointments / totalAppointments) * 100 : 0,
-      };
+      const statusPercentages = getStatusPercentages(appointments);
 
       return {
         totalAppointments,
         confirmedAppointments,
         pendingAppointments,
         cancelledAppointments,
+        completedAppointments,
+        noShowAppointments,
         totalPatients,
         totalDoctors,
         specialties,
@@ -103,30 +100,27 @@ export const statisticsService = {
 
   async getDoctorStatistics(doctorId: string): Promise<Partial<Statistics>> {
     try {
-      const appointmentsData = await AsyncStorage.getItem('@MedicalApp:appointments');
-      const allAppointments: Appointment[] = appointmentsData ? JSON.parse(appointmentsData) : [];
-      
-      const doctorAppointments = allAppointments.filter(a => a.doctorId === doctorId);
+      const doctorAppointments = await appointmentService.getAppointmentsByDoctor(doctorId);
 
       const totalAppointments = doctorAppointments.length;
       const confirmedAppointments = doctorAppointments.filter(a => a.status === 'confirmed').length;
       const pendingAppointments = doctorAppointments.filter(a => a.status === 'pending').length;
       const cancelledAppointments = doctorAppointments.filter(a => a.status === 'cancelled').length;
+      const completedAppointments = doctorAppointments.filter(a => a.status === 'completed').length;
+      const noShowAppointments = doctorAppointments.filter(a => a.status === 'no_show').length;
 
       const uniquePatients = new Set(doctorAppointments.map(a => a.patientId));
       const totalPatients = uniquePatients.size;
 
-      const statusPercentages = {
-        confirmed: totalAppointments > 0 ? (confirmedAppointments / totalAppointments) * 100 : 0,
-        pending: totalAppointments > 0 ? (pendingAppointments / totalAppointments) * 100 : 0,
-        cancelled: totalAppointments > 0 ? (cancelledAppointments / totalAppointments) * 100 : 0,
-      };
+      const statusPercentages = getStatusPercentages(doctorAppointments);
 
       return {
         totalAppointments,
         confirmedAppointments,
         pendingAppointments,
         cancelledAppointments,
+        completedAppointments,
+        noShowAppointments,
         totalPatients,
         statusPercentages,
       };
@@ -138,39 +132,30 @@ export const statisticsService = {
 
   async getPatientStatistics(patientId: string): Promise<Partial<Statistics>> {
     try {
-      const appointmentsData = await AsyncStorage.getItem('@MedicalApp:appointments');
-      const allAppointments: Appointment[] = appointmentsData ? JSON.parse(appointmentsData) : [];
-      
-      const patientAppointments = allAppointments.filter(a => a.patientId === patientId);
+      const patientAppointments = await appointmentService.getAppointmentsByPatient(patientId);
 
       const totalAppointments = patientAppointments.length;
       const confirmedAppointments = patientAppointments.filter(a => a.status === 'confirmed').length;
       const pendingAppointments = patientAppointments.filter(a => a.status === 'pending').length;
       const cancelledAppointments = patientAppointments.filter(a => a.status === 'cancelled').length;
+      const completedAppointments = patientAppointments.filter(a => a.status === 'completed').length;
+      const noShowAppointments = patientAppointments.filter(a => a.status === 'no_show').length;
 
-      const specialties: { [key: string]: number } = {};
-      patientAppointments.forEach(appointment => {
-        if (specialties[appointment.specialty]) {
-          specialties[appointment.specialty]++;
-        } else {
-          specialties[appointment.specialty] = 1;
-        }
-      });
+      const catalog = await specialtyService.getSpecialties();
+      const specialties = countBySpecialty(patientAppointments, catalog);
 
       const uniqueDoctors = new Set(patientAppointments.map(a => a.doctorId));
       const totalDoctors = uniqueDoctors.size;
 
-      const statusPercentages = {
-        confirmed: totalAppointments > 0 ? (confirmedAppointments / totalAppointments) * 100 : 0,
-        pending: totalAppointments > 0 ? (pendingAppointments / totalAppointments) * 100 : 0,
-        cancelled: totalAppointments > 0 ? (cancelledAppointments / totalAppointments) * 100 : 0,
-      };
+      const statusPercentages = getStatusPercentages(patientAppointments);
 
       return {
         totalAppointments,
         confirmedAppointments,
         pendingAppointments,
         cancelledAppointments,
+        completedAppointments,
+        noShowAppointments,
         totalDoctors,
         specialties,
         statusPercentages,
@@ -1,4 +1,7 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { APPOINTMENT_STATUSES } from '../utils/appointmentStatus';
+import { AppSettings } from '../types/settings';
+import { Actor, assertCan } from '../utils/permissions';
 
 export interface StorageData {
   [key: string]: any;
@@ -13,17 +16,42 @@ interface CacheItem<T> {
 // Cache em memória para melhor performance
 const cache = new Map<string, CacheItem<any>>();
 
+// Serviços que mantêm dados em memória e precisam recarregá-los após restaurar um backup
+const restoreListeners = new Set<() => void>();
+
 // Chaves de armazenamento centralizadas
 export const STORAGE_KEYS = {
   USER: '@MedicalApp:user',
   TOKEN: '@MedicalApp:token',
   APPOINTMENTS: '@MedicalApp:appointments',
   NOTIFICATIONS: '@MedicalApp:notifications',
-  REGISTERED_USERS: '@MedicalApp:registeredUsers',
+  USERS: '@MedicalApp:users',
   APP_SETTINGS: '@MedicalApp:settings',
   STATISTICS_CACHE: '@MedicalApp:statisticsCache',
+  DOCTOR_SCHEDULES: '@MedicalApp:doctorSchedules',
+  BLOCKED_PERIODS: '@MedicalApp:blockedPeriods',
+  CREDENTIALS: '@MedicalApp:credentials',
+  SESSION_SECRET: '@MedicalApp:sessionSecret',
+  SPECIALTIES: '@MedicalApp:specialties',
+  SENT_REMINDERS: '@MedicalApp:sentReminders',
+  NOTIFICATION_PREFERENCES: '@MedicalApp:notificationPreferences',
+  WAITLIST: '@MedicalApp:waitlist',
+  CLINIC_UNITS: '@MedicalApp:clinicUnits',
+  CLINICAL_NOTES: '@MedicalApp:clinicalNotes',
+  PRESCRIPTIONS: '@MedicalApp:prescriptions',
 } as const;
 
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  theme: 'light',
+  notifications: true,
+  reminders: true,
+  language: 'pt-BR',
+  autoBackup: true,
+  reminderOffsets: [24, 2],
+  notificationRetentionDays: 30,
+  waitlistOfferMinutes: 120,
+};
+
 export const storageService = {
   // Operações básicas com cache
   async setItem<T>(key: string, value: T, expiryMinutes?: number): Promise<void> {
@@ -127,21 +155,6 @@ export const storageService = {
     await this.saveAppointments(filteredAppointments);
   },
 
-  // Operações para usuários
-  async getRegisteredUsers(): Promise<any[]> {
-    return await this.getItem(STORAGE_KEYS.REGISTERED_USERS, []);
-  },
-
-  async saveRegisteredUsers(users: any[]): Promise<void> {
-    await this.setItem(STORAGE_KEYS.REGISTERED_USERS, users);
-  },
-
-  async addUser(user: any): Promise<void> {
-    const users = await this.getRegisteredUsers();
-    users.push(user);
-    await this.saveRegisteredUsers(users);
-  },
-
   // Operações para notificações
   async getNotifications(): Promise<any[]> {
     return await this.getItem(STORAGE_KEYS.NOTIFICATIONS, []);
@@ -158,15 +171,25 @@ export const storageService = {
   },
 
   // Backup e restore
-  async createBackup(): Promise<string> {
+  // O backup nunca inclui credenciais: as senhas ficam apenas neste dispositivo.
+  // O prontuário e as receitas também ficam de fora, pois o arquivo é compartilhado fora do app e não respeita quem pode lê-lo
+  async createBackup(actor: Actor): Promise<string> {
+    assertCan(actor, 'backup:create');
     try {
+      // Os usuários são gravados pelo authService direto no AsyncStorage; descarta o cache para ler a versão atual
+      cache.delete(STORAGE_KEYS.USERS);
+      const users = (await this.getItem<any[]>(STORAGE_KEYS.USERS, [])) || [];
       const backup = {
         timestamp: new Date().toISOString(),
         data: {
           appointments: await this.getItem(STORAGE_KEYS.APPOINTMENTS, []),
           notifications: await this.getItem(STORAGE_KEYS.NOTIFICATIONS, []),
-          registeredUsers: await this.getItem(STORAGE_KEYS.REGISTERED_USERS, []),
+          users: users.map(({ password, ...user }) => user),
           settings: await this.getItem(STORAGE_KEYS.APP_SETTINGS, {}),
+          doctorSchedules: await this.getItem(STORAGE_KEYS.DOCTOR_SCHEDULES, []),
+          blockedPeriods: await this.getItem(STORAGE_KEYS.BLOCKED_PERIODS, []),
+          specialties: await this.getItem(STORAGE_KEYS.SPECIALTIES),
+          clinicUnits: await this.getItem(STORAGE_KEYS.CLINIC_UNITS, []),
         },
       };
       return JSON.stringify(backup);
@@ -176,15 +199,26 @@ export const storageService = {
     }
   },
 
-  async restoreFromBackup(backupString: string): Promise<void> {
+  async restoreFromBackup(backupString: string, actor: Actor): Promise<void> {
+    assertCan(actor, 'backup:restore');
     try {
       const backup = JSON.parse(backupString);
       
       if (backup.data) {
         await this.setItem(STORAGE_KEYS.APPOINTMENTS, backup.data.appointments || []);
         await this.setItem(STORAGE_KEYS.NOTIFICATIONS, backup.data.notifications || []);
-        await this.setItem(STORAGE_KEYS.REGISTERED_USERS, backup.data.registeredUsers || []);
+        // Backups antigos não têm a lista completa de usuários; nesse caso a atual é mantida
+        if (backup.data.users) {
+          await this.setItem(STORAGE_KEYS.USERS, backup.data.users);
+        }
         await this.setItem(STORAGE_KEYS.APP_SETTINGS, backup.data.settings || {});
+        await this.setItem(STORAGE_KEYS.DOCTOR_SCHEDULES, backup.data.doctorSchedules || []);
+        await this.setItem(STORAGE_KEYS.BLOCKED_PERIODS, backup.data.blockedPeriods || []);
+        await this.setItem(STORAGE_KEYS.CLINIC_UNITS, backup.data.clinicUnits || []);
+        if (backup.data.specialties) {
+          await this.setItem(STORAGE_KEYS.SPECIALTIES, backup.data.specialties);
+        }
+        restoreListeners.forEach(listener => listener());
       }
     } catch (error) {
       console.error('Erro ao restaurar backup:', error);
@@ -192,6 +226,14 @@ export const storageService = {
     }
   },
 
+  // Registra uma função chamada após cada restauração; retorna a função que cancela o registro
+  onRestore(listener: () => void): () => void {
+    restoreListeners.add(listener);
+    return () => {
+      restoreListeners.delete(listener);
+    };
+  },
+
   // Validação de dados
   validateAppointment(appointment: any): boolean {
     return (
@@ -201,7 +243,7 @@ export const storageService = {
       typeof appointment.doctorId === 'string' &&
       typeof appointment.date === 'string' &&
       typeof appointment.time === 'string' &&
-      ['pending', 'confirmed', 'cancelled'].includes(appointment.status)
+      APPOINTMENT_STATUSES.includes(appointment.status)
     );
   },
 
@@ -241,16 +283,13 @@ export const storageService = {
   },
 
   // Configurações da aplicação
-  async getAppSettings(): Promise<any> {
-    return await this.getItem(STORAGE_KEYS.APP_SETTINGS, {
-      theme: 'light',
-      notifications: true,
-      language: 'pt-BR',
-      autoBackup: true,
-    });
+  async getAppSettings(): Promise<AppSettings> {
+    const settings = await this.getItem<Partial<AppSettings>>(STORAGE_KEYS.APP_SETTINGS, {});
+    // Configurações salvas por versões anteriores não têm todas as chaves
+    return { ...DEFAULT_APP_SETTINGS, ...settings };
   },
 
-  async updateAppSettings(settings: Partial<any>): Promise<void> {
+  async updateAppSettings(settings: Partial<AppSettings>): Promise<void> {
     const currentSettings = await this.getAppSettings();
     const updatedSettings = { ...currentSettings, ...settings };
     await this.setItem(STORAGE_KEYS.APP_SETTINGS, updatedSettings);
@@ -0,0 +1,48 @@
+import { Appointment, AppointmentModality, MeetingRoom } from '../types/appointments';
+import { generateId } from '../utils/id';
+
+export const APPOINTMENT_MODALITY_LABELS: Record<AppointmentModality, string> = {
+  in_person: 'Presencial',
+  online: 'Online',
+};
+
+// Minutos antes do início em que o paciente já pode entrar na sala de espera virtual
+export const WAITING_ROOM_OPENS_MINUTES = 15;
+
+// Provedor de teleconsulta responsável por criar as salas virtuais
+export interface TelemedicineProvider {
+  name: string;
+  createRoom(appointment: Appointment): Promise<MeetingRoom>;
+}
+
+// Provedor local, sem integração externa: gera o identificador da sala e um link provisório
+const localProvider: TelemedicineProvider = {
+  name: 'local',
+  async createRoom() {
+    const roomId = generateId();
+    return {
+      provider: 'local',
+      roomId,
+      joinUrl: `https://teleconsulta.medicalapp.local/sala/${roomId}`,
+    };
+  },
+};
+
+let provider: TelemedicineProvider = localProvider;
+
+export const telemedicineService = {
+  // Troca o provedor usado nas próximas consultas online; as salas já criadas não mudam
+  setProvider(newProvider: TelemedicineProvider): void {
+    provider = newProvider;
+  },
+
+  async createRoom(appointment: Appointment): Promise<MeetingRoom> {
+    return await provider.createRoom(appointment);
+  },
+
+  // A sala de espera abre alguns minutos antes do início e fica aberta até o atendimento
+  canJoinWaitingRoom(appointment: Appointment, now: Date = new Date()): boolean {
+    const opensAt = new Date(appointment.startsAt).getTime() - WAITING_ROOM_OPENS_MINUTES * 60 * 1000;
+    return appointment.modality === 'online' && appointment.status === 'confirmed' && now.getTime() >= opensAt;
+  },
+};
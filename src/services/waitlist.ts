@@ -0,0 +1,307 @@
+import { AppState } from 'react-native';
+import { DayPeriod, JoinWaitlistData, WaitlistEntry, WaitlistOffer, WaitlistStatus } from '../types/waitlist';
+import { storageService, STORAGE_KEYS } from './storage';
+import { notificationService } from './notifications';
+import { Actor, assertCan } from '../utils/permissions';
+import { compareDates, isPastDate, isValidISODate } from '../utils/date';
+import { CLINIC_TIME_ZONE, zonedTimeToInstant } from '../utils/timezone';
+import { generateId } from '../utils/id';
+
+export const DAY_PERIOD_LABELS: Record<DayPeriod, string> = {
+  morning: 'Manhã',
+  afternoon: 'Tarde',
+  evening: 'Noite',
+};
+
+// Status em que o paciente ainda está na fila
+const ACTIVE_STATUSES: WaitlistStatus[] = ['waiting', 'offered'];
+
+// Fila que serializa as alterações da lista de espera, para que uma vaga não seja oferecida duas vezes
+let queue: Promise<unknown> = Promise.resolve();
+
+const runExclusive = <T>(operation: () => Promise<T>): Promise<T> => {
+  const result = queue.then(operation);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+const loadEntries = async (): Promise<WaitlistEntry[]> => {
+  return (await storageService.getItem<WaitlistEntry[]>(STORAGE_KEYS.WAITLIST, [])) || [];
+};
+
+const saveEntries = async (entries: WaitlistEntry[]): Promise<void> => {
+  await storageService.setItem(STORAGE_KEYS.WAITLIST, entries);
+};
+
+const findEntry = (entries: WaitlistEntry[], entryId: string): WaitlistEntry => {
+  const entry = entries.find(e => e.id === entryId);
+  if (!entry) {
+    throw new Error('Inscrição na lista de espera não encontrada');
+  }
+  return entry;
+};
+
+const replaceEntry = (entries: WaitlistEntry[], updated: WaitlistEntry): WaitlistEntry[] =>
+  entries.map(e => (e.id === updated.id ? updated : e));
+
+export const getDayPeriod = (time: string): DayPeriod => {
+  const hour = parseInt(time.split(':')[0], 10);
+  if (hour < 12) return 'morning';
+  if (hour < 18) return 'afternoon';
+  return 'evening';
+};
+
+const getSlotKey = (date: string, time: string) => `${date} ${time}`;
+
+// A vaga só interessa enquanto a consulta ainda não começou
+const isFutureSlot = (date: string, time: string) =>
+  new Date(zonedTimeToInstant(date, time, CLINIC_TIME_ZONE)).getTime() > Date.now();
+
+// O paciente aguarda uma vaga com o médico e aceita a data e o período do dia do horário liberado
+const acceptsSlot = (entry: WaitlistEntry, doctorId: string, date: string, time: string) =>
+  entry.status === 'waiting' &&
+  entry.doctorId === doctorId &&
+  (!entry.startDate || compareDates(date, entry.startDate) >= 0) &&
+  (!entry.endDate || compareDates(date, entry.endDate) <= 0) &&
+  (!entry.preferredPeriods?.length || entry.preferredPeriods.includes(getDayPeriod(time))) &&
+  !entry.skippedSlots?.includes(getSlotKey(date, time));
+
+// Oferece a vaga ao inscrito mais antigo que a aceita; retorna a inscrição atualizada ou null se ninguém a aceita
+const assignSlot = (
+  entries: WaitlistEntry[],
+  doctorId: string,
+  date: string,
+  time: string,
+  offerMinutes: number
+): WaitlistEntry | null => {
+  if (!isFutureSlot(date, time)) return null;
+
+  // Cada vaga é oferecida a um paciente por vez
+  const alreadyOffered = entries.some(e =>
+    e.status === 'offered' && e.doctorId === doctorId && e.offer?.date === date && e.offer.time === time
+  );
+  if (alreadyOffered) return null;
+
+  const next = entries
+    .filter(e => acceptsSlot(e, doctorId, date, time))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+  if (!next) return null;
+
+  const now = new Date();
+  const offer: WaitlistOffer = {
+    date,
+    time,
+    offeredAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + offerMinutes * 60 * 1000).toISOString(),
+  };
+  return { ...next, status: 'offered', offer };
+};
+
+// Devolve a inscrição à fila sem a oferta atual, que não volta a ser oferecida ao mesmo paciente
+const withoutOffer = (entry: WaitlistEntry): WaitlistEntry => {
+  const { offer, ...rest } = entry;
+  return {
+    ...rest,
+    status: 'waiting',
+    skippedSlots: offer
+      ? [...(entry.skippedSlots || []), getSlotKey(offer.date, offer.time)]
+      : entry.skippedSlots,
+  };
+};
+
+const isExpired = (offer: WaitlistOffer, now: number) => new Date(offer.expiresAt).getTime() <= now;
+
+const notifyOffers = async (offered: WaitlistEntry[]) => {
+  for (const entry of offered) {
+    await notificationService.notifyWaitlistOffer(entry.patientId, entry, entry.offer!);
+  }
+};
+
+// Libera a vaga da inscrição e a oferece ao próximo da fila; retorna a lista e a nova oferta, se houver
+const passOfferToNext = (
+  entries: WaitlistEntry[],
+  entry: WaitlistEntry,
+  updated: WaitlistEntry,
+  offerMinutes: number
+): { entries: WaitlistEntry[]; offered: WaitlistEntry | null } => {
+  const remaining = replaceEntry(entries, updated);
+  if (!entry.offer) return { entries: remaining, offered: null };
+
+  const offered = assignSlot(remaining, entry.doctorId, entry.offer.date, entry.offer.time, offerMinutes);
+  return { entries: offered ? replaceEntry(remaining, offered) : remaining, offered };
+};
+
+const processExpiredOffers = (): Promise<WaitlistEntry[]> => runExclusive(async () => {
+  const now = Date.now();
+  const { waitlistOfferMinutes } = await storageService.getAppSettings();
+  let entries = await loadEntries();
+  const offered: WaitlistEntry[] = [];
+
+  const expired = entries.filter(e => e.status === 'offered' && e.offer && isExpired(e.offer, now));
+  if (expired.length === 0) return [];
+
+  for (const entry of expired) {
+    const result = passOfferToNext(entries, entry, withoutOffer(entry), waitlistOfferMinutes);
+    entries = result.entries;
+    if (result.offered) offered.push(result.offered);
+  }
+
+  await saveEntries(entries);
+  return offered;
+});
+
+// Evita que duas verificações simultâneas (início e retorno ao app) rodem ao mesmo tempo
+let running: Promise<void> | null = null;
+
+export const waitlistService = {
+  // Inscrições ativas do paciente, já sem as ofertas vencidas
+  async getEntriesByPatient(patientId: string): Promise<WaitlistEntry[]> {
+    await this.processExpiredOffers();
+    const entries = await loadEntries();
+    return entries.filter(e => e.patientId === patientId && ACTIVE_STATUSES.includes(e.status));
+  },
+
+  async joinWaitlist(data: JoinWaitlistData, actor: Actor): Promise<WaitlistEntry> {
+    assertCan(actor, 'waitlist:manage', data);
+
+    if (data.startDate && !isValidISODate(data.startDate)) {
+      throw new Error('Data inicial inválida');
+    }
+    if (data.endDate && !isValidISODate(data.endDate)) {
+      throw new Error('Data final inválida');
+    }
+    if (data.startDate && data.endDate && compareDates(data.startDate, data.endDate) > 0) {
+      throw new Error('A data final deve ser igual ou posterior à data inicial');
+    }
+    if (data.endDate && isPastDate(data.endDate)) {
+      throw new Error('O período escolhido já passou');
+    }
+
+    return runExclusive(async () => {
+      const entries = await loadEntries();
+      const alreadyWaiting = entries.some(e =>
+        e.patientId === data.patientId && e.doctorId === data.doctorId && ACTIVE_STATUSES.includes(e.status)
+      );
+      if (alreadyWaiting) {
+        throw new Error('Você já está na lista de espera deste médico');
+      }
+
+      const entry: WaitlistEntry = {
+        ...data,
+        id: generateId(),
+        status: 'waiting',
+        createdAt: new Date().toISOString(),
+      };
+      await saveEntries([...entries, entry]);
+      return entry;
+    });
+  },
+
+  // Sai da lista; uma vaga que estava oferecida passa para o próximo
+  async leaveWaitlist(entryId: string, actor: Actor): Promise<void> {
+    const { waitlistOfferMinutes } = await storageService.getAppSettings();
+    const offered = await runExclusive(async () => {
+      const entries = await loadEntries();
+      const entry = findEntry(entries, entryId);
+      assertCan(actor, 'waitlist:manage', entry);
+
+      const { offer, ...rest } = entry;
+      const result = passOfferToNext(entries, entry, { ...rest, status: 'cancelled' }, waitlistOfferMinutes);
+      await saveEntries(result.entries);
+      return result.offered;
+    });
+
+    if (offered) await notifyOffers([offered]);
+  },
+
+  // Recusa a vaga oferecida e continua na fila aguardando outra
+  async declineOffer(entryId: string, actor: Actor): Promise<void> {
+    const { waitlistOfferMinutes } = await storageService.getAppSettings();
+    const offered = await runExclusive(async () => {
+      const entries = await loadEntries();
+      const entry = findEntry(entries, entryId);
+      assertCan(actor, 'waitlist:manage', entry);
+      if (entry.status !== 'offered') {
+        throw new Error('Não há vaga oferecida para esta inscrição');
+      }
+
+      const result = passOfferToNext(entries, entry, withoutOffer(entry), waitlistOfferMinutes);
+      await saveEntries(result.entries);
+      return result.offered;
+    });
+
+    if (offered) await notifyOffers([offered]);
+  },
+
+  // Oferece o horário liberado por um cancelamento ao primeiro paciente da fila que o aceita
+  async offerSlot(doctorId: string, date: string, time: string): Promise<void> {
+    try {
+      const { waitlistOfferMinutes } = await storageService.getAppSettings();
+      const offered = await runExclusive(async () => {
+        const entries = await loadEntries();
+        const entry = assignSlot(entries, doctorId, date, time, waitlistOfferMinutes);
+        if (entry) {
+          await saveEntries(replaceEntry(entries, entry));
+        }
+        return entry;
+      });
+
+      if (offered) await notifyOffers([offered]);
+    } catch (error) {
+      console.error('Erro ao oferecer vaga da lista de espera:', error);
+    }
+  },
+
+  // Confere se a oferta ainda vale antes de o paciente agendar a vaga
+  async getClaimableOffer(entryId: string, actor: Actor): Promise<WaitlistEntry & { offer: WaitlistOffer }> {
+    await this.processExpiredOffers();
+    const entry = findEntry(await loadEntries(), entryId);
+    assertCan(actor, 'waitlist:manage', entry);
+    if (entry.status !== 'offered' || !entry.offer) {
+      throw new Error('Esta vaga não está mais disponível para você');
+    }
+    return entry as WaitlistEntry & { offer: WaitlistOffer };
+  },
+
+  // A vaga foi agendada; a inscrição sai da fila
+  async completeOffer(entryId: string): Promise<void> {
+    await runExclusive(async () => {
+      const entries = await loadEntries();
+      const entry = findEntry(entries, entryId);
+      await saveEntries(replaceEntry(entries, { ...entry, status: 'fulfilled' }));
+    });
+  },
+
+  // A vaga foi ocupada por outro agendamento; a inscrição volta a aguardar sem repassá-la
+  async releaseOffer(entryId: string): Promise<void> {
+    await runExclusive(async () => {
+      const entries = await loadEntries();
+      const entry = findEntry(entries, entryId);
+      await saveEntries(replaceEntry(entries, withoutOffer(entry)));
+    });
+  },
+
+  // Repassa ao próximo da fila as ofertas que venceram sem resposta
+  async processExpiredOffers(): Promise<void> {
+    if (!running) {
+      running = processExpiredOffers()
+        .then(notifyOffers)
+        .catch(error => console.error('Erro ao processar a lista de espera:', error))
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  },
+
+  // Verifica as ofertas agora e sempre que o app volta ao primeiro plano; retorna a função que encerra
+  start(): () => void {
+    this.processExpiredOffers();
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        this.processExpiredOffers();
+      }
+    });
+    return () => subscription.remove();
+  },
+};
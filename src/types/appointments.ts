@@ -3,20 +3,211 @@
  * Este arquivo contém todas as definições de tipos necessárias para o gerenciamento de consultas
  */
 
+import { UserRole } from './auth';
+
+/**
+ * Status possíveis de uma consulta
+ * - pending: aguardando confirmação do médico
+ * - confirmed: confirmada pelo médico ou administrador
+ * - checked_in: paciente chegou e aguarda atendimento
+ * - waiting_room: paciente entrou na sala de espera virtual da consulta online
+ * - in_progress: consulta em andamento
+ * - completed: consulta realizada
+ * - no_show: paciente não compareceu
+ * - cancelled: cancelada por qualquer uma das partes
+ */
+export type AppointmentStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'checked_in'
+  | 'waiting_room'
+  | 'in_progress'
+  | 'completed'
+  | 'no_show'
+  | 'cancelled';
+
+/**
+ * Modalidade de atendimento
+ * - in_person: presencial, na clínica
+ * - online: por teleconsulta
+ */
+export type AppointmentModality = 'in_person' | 'online';
+
+/**
+ * Sala virtual de uma consulta online
+ * @property provider - Nome do provedor de teleconsulta que criou a sala
+ * @property roomId - Identificador da sala no provedor
+ * @property joinUrl - Link de acesso à sala
+ */
+export type MeetingRoom = {
+  provider: string;
+  roomId: string;
+  joinUrl: string;
+};
+
+/**
+ * Registro de uma remarcação de consulta
+ * @property previousDate - Data anterior no formato AAAA-MM-DD
+ * @property previousTime - Horário anterior no formato HH:mm
+ * @property newDate - Nova data no formato AAAA-MM-DD
+ * @property newTime - Novo horário no formato HH:mm
+ * @property changedBy - ID do usuário que remarcou
+ * @property changedByRole - Perfil do usuário que remarcou
+ * @property changedAt - Momento da remarcação no formato ISO
+ * @property reason - Motivo informado (opcional)
+ */
+export type AppointmentChange = {
+  previousDate: string;
+  previousTime: string;
+  newDate: string;
+  newTime: string;
+  changedBy: string;
+  changedByRole: UserRole;
+  changedAt: string;
+  reason?: string;
+};
+
+/**
+ * Registro de uma mudança de status da consulta, incluindo o agendamento
+ * @property status - Status assumido pela consulta
+ * @property changedBy - ID do usuário que fez a mudança
+ * @property changedByRole - Perfil do usuário que fez a mudança
+ * @property changedAt - Momento da mudança no formato ISO
+ */
+export type AppointmentStatusChange = {
+  status: AppointmentStatus;
+  changedBy: string;
+  changedByRole: UserRole;
+  changedAt: string;
+};
+
 /**
  * Representa uma consulta médica no sistema
  * @property id - Identificador único da consulta
+ * @property patientId - ID do paciente que agendou a consulta
+ * @property patientName - Nome do paciente
  * @property doctorId - ID do médico que realizará a consulta
- * @property date - Data da consulta no formato YYYY-MM-DD
- * @property time - Horário da consulta no formato HH:mm
- * @property description - Descrição ou motivo da consulta
- * @property status - Status atual da consulta (agendada, realizada, cancelada)
+ * @property doctorName - Nome do médico
+ * @property date - Data da consulta no formato AAAA-MM-DD, no relógio da clínica
+ * @property time - Horário da consulta no formato HH:mm, no relógio da clínica
+ * @property startsAt - Instante de início da consulta no formato ISO (UTC)
+ * @property timeZone - Fuso horário da clínica em que data e horário foram marcados
+ * @property specialty - Especialidade do médico
+ * @property status - Status atual da consulta
+ * @property modality - Modalidade de atendimento; consultas antigas são presenciais
+ * @property meetingRoom - Sala virtual, presente nas consultas online (opcional)
+ * @property unitId - Unidade da clínica em que a consulta presencial acontece (opcional)
+ * @property roomId - Consultório da unidade (opcional)
+ * @property description - Descrição ou motivo da consulta (opcional)
+ * @property cancelReason - Motivo informado no cancelamento (opcional)
+ * @property history - Remarcações anteriores, da mais antiga para a mais recente (opcional)
+ * @property statusHistory - Mudanças de status, da mais antiga para a mais recente (opcional; ausente em consultas antigas)
+ * @property seriesId - ID da série recorrente a que a consulta pertence (opcional)
  */
 export type Appointment = {
   id: string;
+  patientId: string;
+  patientName: string;
   doctorId: string;
+  doctorName: string;
   date: string;
   time: string;
-  description: string;
-  status: string;
-}; 
\ No newline at end of file
+  startsAt: string;
+  timeZone: string;
+  specialty: string;
+  status: AppointmentStatus;
+  modality: AppointmentModality;
+  meetingRoom?: MeetingRoom;
+  unitId?: string;
+  roomId?: string;
+  description?: string;
+  cancelReason?: string;
+  history?: AppointmentChange[];
+  statusHistory?: AppointmentStatusChange[];
+  seriesId?: string;
+};
+
+/**
+ * Dados necessários para criar uma nova consulta; o instante, o fuso, a sala virtual e o local
+ * são calculados pelo serviço
+ */
+export type CreateAppointmentData = Omit<
+  Appointment,
+  | 'id'
+  | 'status'
+  | 'cancelReason'
+  | 'history'
+  | 'statusHistory'
+  | 'startsAt'
+  | 'timeZone'
+  | 'seriesId'
+  | 'meetingRoom'
+  | 'unitId'
+  | 'roomId'
+>;
+
+/**
+ * Frequência de uma série de consultas
+ * - weekly: toda semana
+ * - biweekly: a cada duas semanas
+ * - monthly: todo mês, no mesmo dia
+ */
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+/**
+ * O que fazer com as datas da série em que o horário não está disponível
+ * - skip: agenda as demais datas e pula as indisponíveis
+ * - fail: não agenda nenhuma data se alguma estiver indisponível
+ */
+export type RecurrenceConflictStrategy = 'skip' | 'fail';
+
+/**
+ * Regra de repetição de uma série; informe a data final ou a quantidade de consultas
+ * @property frequency - Frequência das consultas
+ * @property endDate - Última data possível no formato AAAA-MM-DD (opcional)
+ * @property occurrences - Quantidade de consultas, incluindo a primeira (opcional)
+ * @property onConflict - Estratégia para datas indisponíveis
+ */
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  endDate?: string;
+  occurrences?: number;
+  onConflict: RecurrenceConflictStrategy;
+};
+
+/**
+ * Data da série que não foi agendada
+ * @property date - Data no formato AAAA-MM-DD
+ * @property reason - Motivo, exibido ao paciente
+ */
+export type SkippedOccurrence = {
+  date: string;
+  reason: string;
+};
+
+/**
+ * Resultado do agendamento de uma série
+ * @property created - Consultas criadas, em ordem de data
+ * @property skipped - Datas puladas por indisponibilidade
+ */
+export type SeriesBookingResult = {
+  created: Appointment[];
+  skipped: SkippedOccurrence[];
+};
+
+/**
+ * Nova data e horário de uma consulta movida junto com outras da mesma série
+ * @property appointmentId - ID da consulta
+ * @property date - Nova data no formato AAAA-MM-DD
+ * @property time - Novo horário no formato HH:mm
+ */
+export type AppointmentMove = {
+  appointmentId: string;
+  date: string;
+  time: string;
+};
+
+/**
+ * Alcance de uma alteração em consulta de série: só a ocorrência ou ela e as seguintes
+ */
+export type SeriesScope = 'single' | 'future';
@@ -9,6 +9,7 @@ export type UserRole = 'admin' | 'doctor' | 'patient';
 
 /**
  * Interface base do usuário
+ * @property active - Falso quando o usuário foi desativado pelo admin; ausente equivale a ativo
  */
 export interface BaseUser {
   id: string;
@@ -16,14 +17,17 @@ export interface BaseUser {
   email: string;
   role: UserRole;
   image: string;
+  active?: boolean;
 }
 
 /**
  * Interface do médico
+ * @property crm - Registro no conselho regional no formato número/UF (ex.: '123456/SP'); exigido para emitir receitas
  */
 export interface Doctor extends BaseUser {
   role: 'doctor';
   specialty: string;
+  crm?: string;
 }
 
 /**
@@ -62,6 +66,59 @@ export interface RegisterData {
   password: string;
 }
 
+/**
+ * Dados para o admin cadastrar um usuário de qualquer perfil
+ * @property specialty - Obrigatória para médicos
+ * @property crm - CRM do médico (opcional)
+ */
+export interface CreateUserData {
+  name: string;
+  email: string;
+  password: string;
+  role: UserRole;
+  specialty?: string;
+  crm?: string;
+}
+
+/**
+ * Dados editáveis de um usuário; o perfil não pode ser alterado
+ * @property password - Nova senha (opcional); quando ausente, a atual é mantida
+ */
+export interface UpdateUserData {
+  name?: string;
+  email?: string;
+  image?: string;
+  specialty?: string;
+  crm?: string;
+  password?: string;
+}
+
+/**
+ * Credencial armazenada de um usuário; a senha nunca é guardada em texto puro
+ * @property userId - ID do usuário dono da credencial
+ * @property salt - Salt aleatório usado no hash
+ * @property hash - Hash SHA-256 da senha combinada com o salt
+ */
+export interface StoredCredential {
+  userId: string;
+  salt: string;
+  hash: string;
+}
+
+/**
+ * Conteúdo assinado do token de sessão
+ * @property sub - ID do usuário autenticado
+ * @property role - Perfil do usuário
+ * @property iat - Momento da emissão, em segundos desde 1970
+ * @property exp - Momento da expiração, em segundos desde 1970
+ */
+export interface SessionPayload {
+  sub: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+}
+
 /**
  * Resposta da API de autenticação
  */
@@ -76,6 +133,7 @@ export interface AuthResponse {
 export interface AuthContextData {
   user: User | null;
   loading: boolean;
+  sessionExpired: boolean;
   signIn: (credentials: LoginCredentials) => Promise<void>;
   register: (data: RegisterData) => Promise<void>;
   signOut: () => Promise<void>;
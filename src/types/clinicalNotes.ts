@@ -0,0 +1,70 @@
+/**
+ * Tipos relacionados ao prontuário das consultas
+ */
+
+/**
+ * Situação da evolução clínica: o rascunho pode ser editado, a nota assinada não
+ */
+export type ClinicalNoteStatus = 'draft' | 'signed';
+
+/**
+ * Adendo registrado depois da assinatura da evolução
+ * @property id - Identificador único do adendo
+ * @property text - Conteúdo do adendo
+ * @property createdAt - Instante ISO em que o adendo foi registrado
+ */
+export type ClinicalNoteAddendum = {
+  id: string;
+  text: string;
+  createdAt: string;
+};
+
+/**
+ * Evolução clínica de uma consulta
+ * @property id - Identificador único da evolução
+ * @property appointmentId - ID da consulta atendida
+ * @property patientId - ID do paciente
+ * @property patientName - Nome do paciente
+ * @property doctorId - ID do médico autor
+ * @property doctorName - Nome do médico autor
+ * @property appointmentDate - Data da consulta no formato ISO (YYYY-MM-DD)
+ * @property chiefComplaint - Queixa principal
+ * @property anamnesis - Anamnese
+ * @property examFindings - Achados do exame físico e complementares
+ * @property diagnosis - Hipótese diagnóstica
+ * @property cid10Code - Código CID-10 do diagnóstico (ex.: 'J06.9')
+ * @property plan - Conduta e plano terapêutico
+ * @property status - Rascunho ou assinada
+ * @property createdAt - Instante ISO da criação
+ * @property updatedAt - Instante ISO da última alteração do rascunho
+ * @property signedAt - Instante ISO da assinatura
+ * @property addenda - Adendos registrados após a assinatura, do mais antigo para o mais recente
+ */
+export type ClinicalNote = {
+  id: string;
+  appointmentId: string;
+  patientId: string;
+  patientName: string;
+  doctorId: string;
+  doctorName: string;
+  appointmentDate: string;
+  chiefComplaint: string;
+  anamnesis: string;
+  examFindings: string;
+  diagnosis: string;
+  cid10Code: string;
+  plan: string;
+  status: ClinicalNoteStatus;
+  createdAt: string;
+  updatedAt: string;
+  signedAt?: string;
+  addenda: ClinicalNoteAddendum[];
+};
+
+/**
+ * Campos preenchidos pelo médico no editor da evolução
+ */
+export type ClinicalNoteContent = Pick<
+  ClinicalNote,
+  'chiefComplaint' | 'anamnesis' | 'examFindings' | 'diagnosis' | 'cid10Code' | 'plan'
+>;
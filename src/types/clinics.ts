@@ -0,0 +1,69 @@
+/**
+ * Tipos relacionados às unidades da clínica e aos seus consultórios
+ */
+
+import { Weekday } from './schedules';
+
+/**
+ * Horário de funcionamento de um dia da semana
+ * @property enabled - Indica se a unidade abre neste dia
+ * @property start - Abertura no formato HH:mm
+ * @property end - Fechamento no formato HH:mm
+ */
+export type OpeningHours = {
+  enabled: boolean;
+  start: string;
+  end: string;
+};
+
+/**
+ * Consultório de uma unidade
+ * @property id - Identificador único da sala
+ * @property name - Nome exibido (ex.: 'Sala 1')
+ */
+export type ClinicRoom = {
+  id: string;
+  name: string;
+};
+
+/**
+ * Unidade da clínica
+ * @property id - Identificador único da unidade
+ * @property name - Nome exibido (ex.: 'Unidade Centro')
+ * @property address - Endereço completo
+ * @property openingHours - Funcionamento em cada dia da semana
+ * @property rooms - Consultórios da unidade
+ */
+export type ClinicUnit = {
+  id: string;
+  name: string;
+  address: string;
+  openingHours: Record<Weekday, OpeningHours>;
+  rooms: ClinicRoom[];
+};
+
+/**
+ * Local de atendimento de um médico em um dia
+ * @property unitId - ID da unidade
+ * @property roomId - ID do consultório na unidade
+ */
+export type ClinicLocation = {
+  unitId: string;
+  roomId: string;
+};
+
+/**
+ * Ocupação de um consultório em um dia da semana
+ * @property weekday - Dia da semana
+ * @property roomId - ID do consultório
+ * @property doctorId - ID do médico que atende na sala
+ * @property start - Início do expediente no formato HH:mm
+ * @property end - Fim do expediente no formato HH:mm
+ */
+export type RoomOccupancy = {
+  weekday: Weekday;
+  roomId: string;
+  doctorId: string;
+  start: string;
+  end: string;
+};
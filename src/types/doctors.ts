@@ -3,16 +3,19 @@
  * Este arquivo contém todas as definições de tipos necessárias para o gerenciamento de médicos
  */
 
+import { Doctor } from './auth';
+
+/**
+ * Um médico é um usuário com perfil 'doctor'; o cadastro único fica no authService
+ */
+export type { Doctor };
+
 /**
- * Representa um médico no sistema
- * @property id - Identificador único do médico
- * @property name - Nome completo do médico
- * @property specialty - Especialidade médica
- * @property image - URL da foto do médico
+ * Filtros da busca de médicos
+ * @property query - Trecho do nome ou da especialidade (opcional)
+ * @property specialty - Especialidade exata (opcional)
  */
-export type Doctor = {
-  id: string;
-  name: string;
-  specialty: string;
-  image: string;
-}; 
\ No newline at end of file
+export type DoctorSearchParams = {
+  query?: string;
+  specialty?: string;
+};
@@ -9,6 +9,9 @@
  * @property Register - Tela de registro
  * @property Home - Tela inicial da aplicação
  * @property CreateAppointment - Tela de criação de consulta
+ * @property AppointmentDetails - Tela de detalhes de uma consulta
+ * @property ClinicalNote - Tela do prontuário de uma consulta
+ * @property Prescriptions - Tela com o histórico de receitas do paciente
  * @property Profile - Tela de perfil do usuário
  * @property AdminDashboard - Tela do painel de administração
  * @property DoctorDashboard - Tela do painel do médico
@@ -20,6 +23,9 @@ export type RootStackParamList = {
   Register: undefined;
   Home: undefined;
   CreateAppointment: undefined;
+  AppointmentDetails: { appointmentId: string };
+  ClinicalNote: { appointmentId: string };
+  Prescriptions: undefined;
   Profile: undefined;
   EditProfile: undefined;
   AdminDashboard: undefined;
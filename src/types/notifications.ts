@@ -0,0 +1,46 @@
+/**
+ * Tipos relacionados às notificações e às preferências de cada usuário
+ */
+
+/**
+ * Tipo de evento que gerou a notificação
+ */
+export type NotificationType =
+  | 'appointment_confirmed'
+  | 'appointment_cancelled'
+  | 'appointment_rescheduled'
+  | 'appointment_reminder'
+  | 'appointment_created'
+  | 'waitlist_offer'
+  | 'waiting_room'
+  | 'general';
+
+/**
+ * Como a notificação chega ao usuário
+ * - in_app: apenas na lista de notificações do app
+ * - in_app_push: na lista e também como notificação do aparelho
+ * - muted: não é criada
+ */
+export type NotificationChannel = 'in_app' | 'in_app_push' | 'muted';
+
+/**
+ * Período em que as notificações do aparelho ficam silenciadas
+ * @property enabled - Indica se o silêncio está ativo
+ * @property start - Início no formato HH:mm
+ * @property end - Fim no formato HH:mm; pode ser menor que o início para atravessar a meia-noite
+ */
+export type QuietHours = {
+  enabled: boolean;
+  start: string;
+  end: string;
+};
+
+/**
+ * Preferências de notificação de um usuário
+ * @property channels - Canal escolhido para cada tipo de notificação
+ * @property quietHours - Horário de silêncio das notificações do aparelho
+ */
+export type NotificationPreferences = {
+  channels: Record<NotificationType, NotificationChannel>;
+  quietHours: QuietHours;
+};
@@ -0,0 +1,45 @@
+/**
+ * Tipos relacionados às receitas médicas
+ */
+
+/**
+ * Medicamento prescrito
+ * @property medication - Nome do medicamento e apresentação (ex.: 'Amoxicilina 500 mg')
+ * @property dosage - Dose de cada tomada (ex.: '1 cápsula')
+ * @property frequency - Frequência das tomadas (ex.: 'de 8 em 8 horas')
+ * @property duration - Duração do tratamento (ex.: '7 dias')
+ * @property notes - Orientações adicionais (opcional)
+ */
+export type PrescriptionItem = {
+  medication: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  notes?: string;
+};
+
+/**
+ * Receita emitida em uma consulta; depois de emitida não é alterada
+ * @property id - Identificador único da receita
+ * @property appointmentId - ID da consulta em que foi emitida
+ * @property patientId - ID do paciente
+ * @property patientName - Nome do paciente
+ * @property doctorId - ID do médico
+ * @property doctorName - Nome do médico
+ * @property doctorSpecialty - Especialidade do médico na emissão
+ * @property doctorCrm - CRM do médico na emissão
+ * @property items - Medicamentos prescritos
+ * @property issuedAt - Instante ISO da emissão
+ */
+export type Prescription = {
+  id: string;
+  appointmentId: string;
+  patientId: string;
+  patientName: string;
+  doctorId: string;
+  doctorName: string;
+  doctorSpecialty: string;
+  doctorCrm: string;
+  items: PrescriptionItem[];
+  issuedAt: string;
+};
@@ -0,0 +1,59 @@
+/**
+ * Tipos relacionados à agenda de atendimento dos médicos
+ * Este arquivo contém as definições do modelo semanal de horários de cada médico
+ */
+
+/**
+ * Dia da semana, seguindo Date.getDay(): 0 = domingo ... 6 = sábado
+ */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * Expediente de um dia da semana
+ * @property enabled - Indica se o médico atende neste dia
+ * @property start - Início do expediente no formato HH:mm
+ * @property end - Fim do expediente no formato HH:mm
+ * @property breakStart - Início do intervalo de almoço no formato HH:mm (opcional)
+ * @property breakEnd - Fim do intervalo de almoço no formato HH:mm (opcional)
+ * @property unitId - Unidade da clínica em que o médico atende neste dia (opcional)
+ * @property roomId - Consultório da unidade em que o médico atende neste dia (opcional)
+ */
+export type DaySchedule = {
+  enabled: boolean;
+  start: string;
+  end: string;
+  breakStart?: string;
+  breakEnd?: string;
+  unitId?: string;
+  roomId?: string;
+};
+
+/**
+ * Modelo semanal de atendimento de um médico
+ * @property doctorId - ID do médico dono da agenda
+ * @property slotDuration - Duração de cada horário de consulta, em minutos
+ * @property days - Expediente de cada dia da semana
+ */
+export type DoctorSchedule = {
+  doctorId: string;
+  slotDuration: number;
+  days: Record<Weekday, DaySchedule>;
+};
+
+/**
+ * Período em que não há atendimento (férias, congressos, feriados)
+ * @property id - Identificador único do bloqueio
+ * @property doctorId - ID do médico afetado; ausente para feriados válidos para toda a clínica
+ * @property startDate - Primeiro dia bloqueado no formato AAAA-MM-DD
+ * @property endDate - Último dia bloqueado no formato AAAA-MM-DD
+ * @property reason - Motivo do bloqueio, exibido para os pacientes
+ * @property createdAt - Data de criação no formato ISO
+ */
+export type BlockedPeriod = {
+  id: string;
+  doctorId?: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  createdAt: string;
+};
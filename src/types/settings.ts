@@ -0,0 +1,25 @@
+/**
+ * Tipos relacionados às configurações do aplicativo
+ */
+
+/**
+ * Configurações do aplicativo
+ * @property notifications - Indica se as notificações são exibidas no aparelho (push)
+ * @property reminders - Indica se os lembretes de consulta são enviados
+ * @property autoBackup - Indica se os backups são criados automaticamente
+ * @property theme - Tema visual
+ * @property language - Idioma da interface
+ * @property reminderOffsets - Antecedências dos lembretes de consulta, em horas
+ * @property notificationRetentionDays - Por quantos dias as notificações lidas são mantidas
+ * @property waitlistOfferMinutes - Por quantos minutos a vaga oferecida a um paciente da lista de espera fica reservada
+ */
+export type AppSettings = {
+  notifications: boolean;
+  reminders: boolean;
+  autoBackup: boolean;
+  theme: 'light' | 'dark';
+  language: string;
+  reminderOffsets: number[];
+  notificationRetentionDays: number;
+  waitlistOfferMinutes: number;
+};
@@ -0,0 +1,17 @@
+/**
+ * Tipos relacionados às especialidades médicas
+ */
+
+/**
+ * Especialidade do catálogo gerenciado pelo admin
+ * @property code - Código único e estável, gravado no cadastro do médico (ex.: 'cardiologia')
+ * @property name - Nome exibido para os usuários
+ * @property description - Descrição curta da área de atuação
+ * @property aliases - Outros nomes já usados para a especialidade, reconhecidos em dados antigos (opcional)
+ */
+export type Specialty = {
+  code: string;
+  name: string;
+  description: string;
+  aliases?: string[];
+};
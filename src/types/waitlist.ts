@@ -0,0 +1,76 @@
+import { AppointmentModality } from './appointments';
+
+/**
+ * Tipos relacionados à lista de espera por horários de médicos com a agenda cheia
+ */
+
+/**
+ * Período do dia preferido pelo paciente, no relógio da clínica
+ * - morning: antes das 12:00
+ * - afternoon: das 12:00 às 17:59
+ * - evening: a partir das 18:00
+ */
+export type DayPeriod = 'morning' | 'afternoon' | 'evening';
+
+/**
+ * Status de uma inscrição na lista de espera
+ * - waiting: aguardando uma vaga
+ * - offered: uma vaga foi oferecida e aguarda a resposta do paciente
+ * - fulfilled: o paciente aceitou uma vaga e a consulta foi agendada
+ * - cancelled: o paciente saiu da lista
+ */
+export type WaitlistStatus = 'waiting' | 'offered' | 'fulfilled' | 'cancelled';
+
+/**
+ * Vaga liberada por um cancelamento e oferecida a um paciente da lista
+ * @property date - Data da vaga no formato AAAA-MM-DD, no relógio da clínica
+ * @property time - Horário da vaga no formato HH:mm, no relógio da clínica
+ * @property offeredAt - Momento da oferta no formato ISO
+ * @property expiresAt - Momento em que a oferta passa para o próximo da lista, no formato ISO
+ */
+export type WaitlistOffer = {
+  date: string;
+  time: string;
+  offeredAt: string;
+  expiresAt: string;
+};
+
+/**
+ * Inscrição de um paciente na lista de espera de um médico
+ * @property id - Identificador único da inscrição
+ * @property patientId - ID do paciente
+ * @property patientName - Nome do paciente
+ * @property doctorId - ID do médico
+ * @property doctorName - Nome do médico
+ * @property modality - Modalidade da consulta desejada (ausente em inscrições antigas, que são presenciais)
+ * @property startDate - Primeira data aceita no formato AAAA-MM-DD (opcional)
+ * @property endDate - Última data aceita no formato AAAA-MM-DD (opcional)
+ * @property preferredPeriods - Períodos do dia aceitos; ausente ou vazio aceita qualquer horário
+ * @property status - Situação atual da inscrição
+ * @property createdAt - Momento da inscrição no formato ISO; define a ordem da fila
+ * @property offer - Vaga oferecida no momento (apenas no status offered)
+ * @property skippedSlots - Vagas recusadas ou expiradas, no formato "AAAA-MM-DD HH:mm", que não voltam a ser oferecidas
+ */
+export type WaitlistEntry = {
+  id: string;
+  patientId: string;
+  patientName: string;
+  doctorId: string;
+  doctorName: string;
+  modality?: AppointmentModality;
+  startDate?: string;
+  endDate?: string;
+  preferredPeriods?: DayPeriod[];
+  status: WaitlistStatus;
+  createdAt: string;
+  offer?: WaitlistOffer;
+  skippedSlots?: string[];
+};
+
+/**
+ * Dados informados pelo paciente ao entrar na lista de espera
+ */
+export type JoinWaitlistData = Pick<
+  WaitlistEntry,
+  'patientId' | 'patientName' | 'doctorId' | 'doctorName' | 'modality' | 'startDate' | 'endDate' | 'preferredPeriods'
+>;
@@ -0,0 +1,43 @@
+import { APPOINTMENT_STATUSES, canTransition, STATUS_TRANSITIONS } from '../appointmentStatus';
+
+describe('canTransition', () => {
+  it('segue o ciclo de vida de uma consulta presencial', () => {
+    expect(canTransition('pending', 'confirmed')).toBe(true);
+    expect(canTransition('confirmed', 'checked_in')).toBe(true);
+    expect(canTransition('checked_in', 'in_progress')).toBe(true);
+    expect(canTransition('in_progress', 'completed')).toBe(true);
+  });
+
+  it('segue o ciclo de vida de uma teleconsulta', () => {
+    expect(canTransition('confirmed', 'waiting_room')).toBe(true);
+    expect(canTransition('waiting_room', 'in_progress')).toBe(true);
+    expect(canTransition('waiting_room', 'no_show')).toBe(true);
+  });
+
+  it('não pula etapas nem volta status', () => {
+    expect(canTransition('pending', 'in_progress')).toBe(false);
+    expect(canTransition('pending', 'completed')).toBe(false);
+    expect(canTransition('confirmed', 'pending')).toBe(false);
+    expect(canTransition('in_progress', 'confirmed')).toBe(false);
+  });
+
+  it('não deixa cancelar uma consulta em atendimento', () => {
+    expect(canTransition('in_progress', 'cancelled')).toBe(false);
+  });
+
+  it('não tem saída dos status finais', () => {
+    for (const final of ['completed', 'no_show', 'cancelled'] as const) {
+      for (const status of APPOINTMENT_STATUSES) {
+        expect(canTransition(final, status)).toBe(false);
+      }
+    }
+  });
+
+  it('só leva a status conhecidos', () => {
+    for (const targets of Object.values(STATUS_TRANSITIONS)) {
+      for (const status of targets) {
+        expect(APPOINTMENT_STATUSES).toContain(status);
+      }
+    }
+  });
+});
@@ -0,0 +1,34 @@
+import { createCredential, generateSalt, hashPassword, verifyPassword } from '../password';
+
+describe('password', () => {
+  it('gera salts diferentes a cada chamada', () => {
+    const salt = generateSalt();
+
+    expect(salt).toMatch(/^[0-9a-f]{32}$/);
+    expect(generateSalt()).not.toBe(salt);
+  });
+
+  it('produz o mesmo hash para a mesma senha e salt', async () => {
+    const hash = await hashPassword('senha123', 'abc');
+
+    expect(await hashPassword('senha123', 'abc')).toBe(hash);
+    expect(await hashPassword('senha123', 'abd')).not.toBe(hash);
+    expect(hash).not.toContain('senha123');
+  });
+
+  it('confere a senha contra a credencial gravada', async () => {
+    const credential = await createCredential('patient-1', 'senha123');
+
+    expect(credential.userId).toBe('patient-1');
+    expect(await verifyPassword('senha123', credential)).toBe(true);
+    expect(await verifyPassword('senha124', credential)).toBe(false);
+    expect(await verifyPassword('', credential)).toBe(false);
+  });
+
+  it('usa salts diferentes para usuários com a mesma senha', async () => {
+    const first = await createCredential('patient-1', 'senha123');
+    const second = await createCredential('patient-2', 'senha123');
+
+    expect(first.hash).not.toBe(second.hash);
+  });
+});
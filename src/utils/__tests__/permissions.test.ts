@@ -0,0 +1,96 @@
+import { Actor, assertCan, can, canAccessRoute, PERMISSION_DENIED_MESSAGE } from '../permissions';
+
+const admin: Actor = { id: 'admin', role: 'admin' };
+const doctor: Actor = { id: 'doctor-1', role: 'doctor' };
+const otherDoctor: Actor = { id: 'doctor-2', role: 'doctor' };
+const patient: Actor = { id: 'patient-1', role: 'patient' };
+const otherPatient: Actor = { id: 'patient-2', role: 'patient' };
+
+const appointment = { doctorId: 'doctor-1', patientId: 'patient-1' };
+
+describe('can', () => {
+  it('recusa quando não há usuário', () => {
+    expect(can(null, 'appointment:view', appointment)).toBe(false);
+    expect(can(undefined, 'user:manage')).toBe(false);
+  });
+
+  it('libera a consulta ao admin e às partes envolvidas', () => {
+    expect(can(admin, 'appointment:view', appointment)).toBe(true);
+    expect(can(doctor, 'appointment:view', appointment)).toBe(true);
+    expect(can(patient, 'appointment:view', appointment)).toBe(true);
+    expect(can(otherDoctor, 'appointment:view', appointment)).toBe(false);
+    expect(can(otherPatient, 'appointment:view', appointment)).toBe(false);
+  });
+
+  it('deixa o paciente agendar só para si mesmo', () => {
+    expect(can(patient, 'appointment:create', appointment)).toBe(true);
+    expect(can(otherPatient, 'appointment:create', appointment)).toBe(false);
+    expect(can(doctor, 'appointment:create', appointment)).toBe(false);
+  });
+
+  it('reserva o atendimento ao médico da consulta, nem mesmo ao admin', () => {
+    expect(can(doctor, 'appointment:attend', appointment)).toBe(true);
+    expect(can(otherDoctor, 'appointment:attend', appointment)).toBe(false);
+    expect(can(admin, 'appointment:attend', appointment)).toBe(false);
+  });
+
+  it('deixa só o próprio paciente entrar na sala de espera virtual', () => {
+    expect(can(patient, 'appointment:join_waiting_room', appointment)).toBe(true);
+    expect(can(admin, 'appointment:join_waiting_room', appointment)).toBe(false);
+    expect(can(doctor, 'appointment:join_waiting_room', appointment)).toBe(false);
+  });
+
+  it('mantém prontuário e receitas longe do admin', () => {
+    expect(can(doctor, 'clinical_note:write', appointment)).toBe(true);
+    expect(can(admin, 'clinical_note:write', appointment)).toBe(false);
+    expect(can(patient, 'prescription:view', appointment)).toBe(true);
+    expect(can(doctor, 'prescription:view', appointment)).toBe(true);
+    expect(can(admin, 'prescription:view', appointment)).toBe(false);
+    expect(can(otherPatient, 'prescription:view', appointment)).toBe(false);
+  });
+
+  it('deixa o médico bloquear a própria agenda, mas só o admin cadastrar feriados', () => {
+    expect(can(doctor, 'blocked_period:manage', { doctorId: 'doctor-1' })).toBe(true);
+    expect(can(otherDoctor, 'blocked_period:manage', { doctorId: 'doctor-1' })).toBe(false);
+    expect(can(doctor, 'blocked_period:manage', {})).toBe(false);
+    expect(can(admin, 'blocked_period:manage', {})).toBe(true);
+  });
+
+  it('restringe ao admin a gestão de usuários e os backups', () => {
+    for (const action of ['user:manage', 'user:delete', 'backup:create', 'backup:restore'] as const) {
+      expect(can(admin, action)).toBe(true);
+      expect(can(doctor, action)).toBe(false);
+      expect(can(patient, action)).toBe(false);
+    }
+  });
+});
+
+describe('assertCan', () => {
+  it('lança o erro de permissão quando a regra recusa', () => {
+    expect(() => assertCan(otherPatient, 'appointment:cancel', appointment)).toThrow(PERMISSION_DENIED_MESSAGE);
+  });
+
+  it('não lança quando a regra libera', () => {
+    expect(() => assertCan(patient, 'appointment:cancel', appointment)).not.toThrow();
+  });
+});
+
+describe('canAccessRoute', () => {
+  it('abre cada painel só para o próprio perfil', () => {
+    expect(canAccessRoute(admin, 'AdminDashboard')).toBe(true);
+    expect(canAccessRoute(doctor, 'AdminDashboard')).toBe(false);
+    expect(canAccessRoute(doctor, 'DoctorDashboard')).toBe(true);
+    expect(canAccessRoute(patient, 'PatientDashboard')).toBe(true);
+    expect(canAccessRoute(patient, 'DoctorDashboard')).toBe(false);
+  });
+
+  it('deixa o prontuário só para médicos', () => {
+    expect(canAccessRoute(doctor, 'ClinicalNote')).toBe(true);
+    expect(canAccessRoute(admin, 'ClinicalNote')).toBe(false);
+  });
+
+  it('recusa rotas sem perfis definidos e usuários ausentes', () => {
+    expect(canAccessRoute(admin, 'Login')).toBe(false);
+    expect(canAccessRoute(null, 'Settings')).toBe(false);
+  });
+});
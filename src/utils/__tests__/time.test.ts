@@ -0,0 +1,19 @@
+import { isValidTime, toMinutes, toTime } from '../time';
+
+describe('time', () => {
+  it('aceita só horários HH:mm entre 00:00 e 23:59', () => {
+    expect(isValidTime('00:00')).toBe(true);
+    expect(isValidTime('23:59')).toBe(true);
+    expect(isValidTime('24:00')).toBe(false);
+    expect(isValidTime('9:00')).toBe(false);
+    expect(isValidTime('12:60')).toBe(false);
+    expect(isValidTime('')).toBe(false);
+  });
+
+  it('converte entre horário e minutos desde a meia-noite', () => {
+    expect(toMinutes('00:00')).toBe(0);
+    expect(toMinutes('13:45')).toBe(825);
+    expect(toTime(825)).toBe('13:45');
+    expect(toTime(toMinutes('07:05'))).toBe('07:05');
+  });
+});
@@ -0,0 +1,30 @@
+import { Appointment } from '../types/appointments';
+import { isValidISODate, normalizeDate } from './date';
+import { CLINIC_TIME_ZONE, zonedTimeToInstant } from './timezone';
+
+// Consultas gravadas antes da migração usam DD/MM/AAAA e não têm instante absoluto;
+// converte a data para ISO e calcula o instante no fuso da clínica na leitura
+const toISO = (date: string) => normalizeDate(date) || date;
+
+const getStartsAt = (date: string, time: string, timeZone: string): string | null => {
+  return isValidISODate(date) ? zonedTimeToInstant(date, time, timeZone) : null;
+};
+
+export const normalizeAppointment = (appointment: Appointment): Appointment => {
+  const date = toISO(appointment.date);
+  const timeZone = appointment.timeZone || CLINIC_TIME_ZONE;
+  return {
+    ...appointment,
+    date,
+    timeZone,
+    modality: appointment.modality || 'in_person',
+    startsAt: appointment.startsAt || getStartsAt(date, appointment.time, timeZone) || '',
+    ...(appointment.history && {
+      history: appointment.history.map(change => ({
+        ...change,
+        previousDate: toISO(change.previousDate),
+        newDate: toISO(change.newDate),
+      })),
+    }),
+  };
+};
@@ -0,0 +1,69 @@
+import theme from '../styles/theme';
+import { AppointmentStatus } from '../types/appointments';
+
+// Todos os status válidos, na ordem do ciclo de vida da consulta
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  'pending',
+  'confirmed',
+  'checked_in',
+  'waiting_room',
+  'in_progress',
+  'completed',
+  'no_show',
+  'cancelled',
+];
+
+// Transições permitidas a partir de cada status; status finais não têm saída
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['checked_in', 'waiting_room', 'no_show', 'cancelled'],
+  checked_in: ['in_progress', 'cancelled'],
+  waiting_room: ['in_progress', 'no_show', 'cancelled'],
+  in_progress: ['completed'],
+  completed: [],
+  no_show: [],
+  cancelled: [],
+};
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus): boolean => {
+  return STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+};
+
+export const getStatusText = (status: string): string => {
+  switch (status) {
+    case 'confirmed':
+      return 'Confirmada';
+    case 'checked_in':
+      return 'Paciente Presente';
+    case 'waiting_room':
+      return 'Na Sala de Espera';
+    case 'in_progress':
+      return 'Em Atendimento';
+    case 'completed':
+      return 'Realizada';
+    case 'no_show':
+      return 'Não Compareceu';
+    case 'cancelled':
+      return 'Cancelada';
+    default:
+      return 'Pendente';
+  }
+};
+
+export const getStatusColor = (status: string): string => {
+  switch (status) {
+    case 'confirmed':
+      return theme.colors.success;
+    case 'checked_in':
+    case 'waiting_room':
+    case 'in_progress':
+      return theme.colors.primary;
+    case 'completed':
+      return theme.colors.secondary;
+    case 'no_show':
+    case 'cancelled':
+      return theme.colors.error;
+    default:
+      return theme.colors.warning;
+  }
+};
@@ -0,0 +1,110 @@
+// Utilitário único de datas. As datas de calendário (consultas, bloqueios) são gravadas
+// como texto ISO AAAA-MM-DD, que pode ser comparado diretamente como string.
+
+const ISO_DATE_REGEX = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DISPLAY_DATE_REGEX = /^(\d{2})\/(\d{2})\/(\d{4})$/;
+
+export const MONTH_NAMES = [
+  'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
+  'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro',
+];
+
+export const WEEKDAY_INITIALS = ['D', 'S', 'T', 'Q', 'Q', 'S', 'S'];
+
+// Nomes dos dias da semana, na ordem de Date.getDay()
+export const WEEKDAY_NAMES = [
+  'Domingo', 'Segunda-feira', 'Terça-feira', 'Quarta-feira', 'Quinta-feira', 'Sexta-feira', 'Sábado',
+];
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Monta a data local e confere se ela existe (ex.: recusa 31/02)
+const buildDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+export const toISODate = (date: Date): string => {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const parseISODate = (value: string): Date | null => {
+  const match = value.match(ISO_DATE_REGEX);
+  if (!match) return null;
+  const [, year, month, day] = match;
+  return buildDate(parseInt(year, 10), parseInt(month, 10), parseInt(day, 10));
+};
+
+export const isValidISODate = (value: string): boolean => parseISODate(value) !== null;
+
+// Converte uma data digitada no formato DD/MM/AAAA para ISO
+export const parseDisplayDate = (value: string): string | null => {
+  const match = value.trim().match(DISPLAY_DATE_REGEX);
+  if (!match) return null;
+  const [, day, month, year] = match;
+  const date = buildDate(parseInt(year, 10), parseInt(month, 10), parseInt(day, 10));
+  return date ? toISODate(date) : null;
+};
+
+// Aceita ISO ou DD/MM/AAAA (dados gravados antes da migração) e devolve ISO
+export const normalizeDate = (value: string): string | null => {
+  return isValidISODate(value) ? value : parseDisplayDate(value);
+};
+
+// Formato de exibição DD/MM/AAAA; valores inválidos são mostrados como estão
+export const formatDate = (value: string): string => {
+  const date = parseISODate(value);
+  return date ? `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}` : value;
+};
+
+export const compareDates = (a: string, b: string): number => {
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+export const todayISO = (): string => toISODate(new Date());
+
+export const isPastDate = (value: string): boolean => compareDates(value, todayISO()) < 0;
+
+export const addDays = (value: string, days: number): string => {
+  const date = parseISODate(value) || new Date();
+  date.setDate(date.getDate() + days);
+  return toISODate(date);
+};
+
+export const addMonths = (value: string, months: number): string => {
+  const date = parseISODate(value) || new Date();
+  const day = date.getDate();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + months);
+  // Dias que não existem no mês de destino (ex.: 31) caem no último dia do mês
+  const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+  date.setDate(Math.min(day, daysInMonth));
+  return toISODate(date);
+};
+
+// Diferença em dias entre duas datas ISO (b - a)
+export const daysBetween = (a: string, b: string): number => {
+  const start = parseISODate(a);
+  const end = parseISODate(b);
+  if (!start || !end) return 0;
+  return Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+// Dia da semana (0 = domingo)
+export const getWeekday = (value: string): number | null => {
+  const date = parseISODate(value);
+  return date ? date.getDay() : null;
+};
+
+export const isDateInRange = (value: string, start: string, end: string): boolean => {
+  return compareDates(start, value) <= 0 && compareDates(value, end) <= 0;
+};
+
+// Todas as datas do mês (1 a 12), em ISO
+export const getMonthDates = (year: number, month: number): string[] => {
+  const daysInMonth = new Date(year, month, 0).getDate();
+  return Array.from({ length: daysInMonth }, (_, index) => `${year}-${pad(month)}-${pad(index + 1)}`);
+};
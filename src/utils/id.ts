@@ -0,0 +1,4 @@
+import * as Crypto from 'expo-crypto';
+
+// Identificador único, sem risco de colisão entre registros criados no mesmo milissegundo
+export const generateId = (): string => Crypto.randomUUID();
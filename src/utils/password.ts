@@ -0,0 +1,36 @@
+import * as Crypto from 'expo-crypto';
+import { StoredCredential } from '../types/auth';
+
+// Rodadas de SHA-256 aplicadas sobre a senha, dificultando ataques de força bruta
+const HASH_ITERATIONS = 1000;
+const SALT_BYTES = 16;
+
+const toHex = (bytes: Uint8Array): string => {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const generateSalt = (): string => {
+  return toHex(Crypto.getRandomBytes(SALT_BYTES));
+};
+
+export const hashPassword = async (password: string, salt: string): Promise<string> => {
+  let hash = `${salt}:${password}`;
+  for (let i = 0; i < HASH_ITERATIONS; i++) {
+    hash = await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${salt}${hash}`);
+  }
+  return hash;
+};
+
+export const createCredential = async (userId: string, password: string): Promise<StoredCredential> => {
+  const salt = generateSalt();
+  return {
+    userId,
+    salt,
+    hash: await hashPassword(password, salt),
+  };
+};
+
+export const verifyPassword = async (password: string, credential: StoredCredential): Promise<boolean> => {
+  const hash = await hashPassword(password, credential.salt);
+  return hash === credential.hash;
+};
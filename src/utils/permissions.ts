@@ -0,0 +1,119 @@
+import { User, UserRole } from '../types/auth';
+import { RootStackParamList } from '../types/navigation';
+
+// Usuário que executa a ação; basta o ID e o perfil
+export type Actor = Pick<User, 'id' | 'role'>;
+
+export type PermissionAction =
+  | 'appointment:create'
+  | 'appointment:view'
+  | 'appointment:confirm'
+  | 'appointment:cancel'
+  | 'appointment:reschedule'
+  | 'appointment:check_in'
+  | 'appointment:join_waiting_room'
+  | 'appointment:attend'
+  | 'clinical_note:write'
+  | 'prescription:issue'
+  | 'prescription:view'
+  | 'schedule:manage'
+  | 'blocked_period:manage'
+  | 'specialty:manage'
+  | 'clinic:manage'
+  | 'waitlist:manage'
+  | 'user:manage'
+  | 'user:delete'
+  | 'backup:create'
+  | 'backup:restore';
+
+// Recurso sobre o qual a ação é feita; consultas, agendas e bloqueios informam seus donos
+export interface PermissionResource {
+  patientId?: string;
+  doctorId?: string;
+}
+
+export const PERMISSION_DENIED_MESSAGE = 'Você não tem permissão para realizar esta ação';
+
+const isOwnPatient = (user: Actor, resource?: PermissionResource) =>
+  user.role === 'patient' && !!resource && resource.patientId === user.id;
+
+const isOwnDoctor = (user: Actor, resource?: PermissionResource) =>
+  user.role === 'doctor' && !!resource && resource.doctorId === user.id;
+
+// Regras de cada ação; o admin só não pode conduzir o atendimento, que é exclusivo do médico
+const RULES: Record<PermissionAction, (user: Actor, resource?: PermissionResource) => boolean> = {
+  'appointment:create': (user, resource) => user.role === 'admin' || isOwnPatient(user, resource),
+  'appointment:view': (user, resource) =>
+    user.role === 'admin' || isOwnDoctor(user, resource) || isOwnPatient(user, resource),
+  'appointment:confirm': (user, resource) => user.role === 'admin' || isOwnDoctor(user, resource),
+  'appointment:cancel': (user, resource) =>
+    user.role === 'admin' || isOwnDoctor(user, resource) || isOwnPatient(user, resource),
+  'appointment:reschedule': (user, resource) =>
+    user.role === 'admin' || isOwnDoctor(user, resource) || isOwnPatient(user, resource),
+  'appointment:check_in': (user, resource) => user.role === 'admin' || isOwnDoctor(user, resource),
+  // Só o próprio paciente entra na sala de espera virtual
+  'appointment:join_waiting_room': (user, resource) => isOwnPatient(user, resource),
+  'appointment:attend': (user, resource) => isOwnDoctor(user, resource),
+  // O prontuário é escrito só pelo médico da consulta; quem mais pode lê-lo é decidido pelo serviço
+  'clinical_note:write': (user, resource) => isOwnDoctor(user, resource),
+  'prescription:issue': (user, resource) => isOwnDoctor(user, resource),
+  // Receitas contêm dados clínicos: só o médico que emitiu e o próprio paciente as veem
+  'prescription:view': (user, resource) => isOwnDoctor(user, resource) || isOwnPatient(user, resource),
+  'schedule:manage': (user, resource) => user.role === 'admin' || isOwnDoctor(user, resource),
+  // Bloqueios sem médico são feriados da clínica e só o admin pode gerenciá-los
+  'blocked_period:manage': (user, resource) =>
+    user.role === 'admin' || (!!resource?.doctorId && isOwnDoctor(user, resource)),
+  'specialty:manage': (user) => user.role === 'admin',
+  'clinic:manage': (user) => user.role === 'admin',
+  // Cada paciente entra e responde às ofertas da própria lista de espera
+  'waitlist:manage': (user, resource) => user.role === 'admin' || isOwnPatient(user, resource),
+  'user:manage': (user) => user.role === 'admin',
+  'user:delete': (user) => user.role === 'admin',
+  // O backup leva os dados de todos os usuários e consultas, por isso é exclusivo do admin
+  'backup:create': (user) => user.role === 'admin',
+  // Restaurar substitui usuários e consultas de todos
+  'backup:restore': (user) => user.role === 'admin',
+};
+
+export const can = (
+  user: Actor | null | undefined,
+  action: PermissionAction,
+  resource?: PermissionResource
+): boolean => {
+  return !!user && RULES[action](user, resource);
+};
+
+// Versão usada pelos serviços: recusa a operação com erro quando não há permissão
+export const assertCan = (
+  user: Actor | null | undefined,
+  action: PermissionAction,
+  resource?: PermissionResource
+): void => {
+  if (!can(user, action, resource)) {
+    throw new Error(PERMISSION_DENIED_MESSAGE);
+  }
+};
+
+// Perfis que podem abrir cada tela autenticada
+export const ROUTE_ROLES: Partial<Record<keyof RootStackParamList, UserRole[]>> = {
+  AdminDashboard: ['admin'],
+  DoctorDashboard: ['doctor'],
+  PatientDashboard: ['patient'],
+  UserManagement: ['admin'],
+  Home: ['patient'],
+  CreateAppointment: ['patient'],
+  AppointmentDetails: ['admin', 'doctor', 'patient'],
+  ClinicalNote: ['doctor'],
+  Prescriptions: ['patient'],
+  Profile: ['admin', 'doctor', 'patient'],
+  EditProfile: ['admin', 'doctor', 'patient'],
+  Notifications: ['admin', 'doctor', 'patient'],
+  Settings: ['admin', 'doctor', 'patient'],
+};
+
+export const canAccessRoute = (
+  user: Actor | null | undefined,
+  route: keyof RootStackParamList
+): boolean => {
+  return !!user && (ROUTE_ROLES[route]?.includes(user.role) ?? false);
+};
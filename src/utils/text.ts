@@ -0,0 +1,3 @@
+// Normaliza textos para comparação e busca, ignorando maiúsculas e acentos
+export const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
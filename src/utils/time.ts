@@ -0,0 +1,17 @@
+// Horários do dia (expedientes, intervalos, silêncio das notificações) no formato HH:mm, de 00:00 a 23:59
+
+const TIME_REGEX = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const isValidTime = (value: string): boolean => TIME_REGEX.test(value);
+
+// Minutos desde a meia-noite, para comparar e somar horários
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const toTime = (minutes: number): string => {
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+};
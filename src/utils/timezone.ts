@@ -0,0 +1,146 @@
+// Fuso horário da clínica. A agenda dos médicos (data e horário das consultas) é sempre
+// expressa no relógio da clínica; o instante absoluto permite exibir no fuso de quem vê.
+import { formatDate, isValidISODate } from './date';
+
+export const CLINIC_TIME_ZONE = 'America/Sao_Paulo';
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Fuso configurado no aparelho de quem está usando o app
+export const getDeviceTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || CLINIC_TIME_ZONE;
+  } catch {
+    return CLINIC_TIME_ZONE;
+  }
+};
+
+// Partes de data e hora do instante no relógio do fuso informado
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(instant);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour') % 24,
+    minute: get('minute'),
+    second: get('second'),
+  };
+};
+
+// Diferença, em minutos, entre o relógio do fuso e o UTC no instante informado
+const getOffsetMinutes = (instant: Date, timeZone: string): number => {
+  const p = getZonedParts(instant, timeZone);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUTC - instant.getTime()) / 60000);
+};
+
+// Converte data (AAAA-MM-DD) e horário (HH:mm) no relógio do fuso para um instante ISO em UTC
+export const zonedTimeToInstant = (date: string, time: string, timeZone: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Recalcula o deslocamento no instante obtido para acertar mudanças de horário de verão
+  let instant = wallClock - getOffsetMinutes(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getOffsetMinutes(new Date(instant), timeZone) * 60000;
+  return new Date(instant).toISOString();
+};
+
+// Data (AAAA-MM-DD) e horário (HH:mm) do instante no relógio do fuso
+export const instantToZonedTime = (instant: string, timeZone: string): { date: string; time: string } => {
+  const p = getZonedParts(new Date(instant), timeZone);
+  return {
+    date: `${p.year}-${pad(p.month)}-${pad(p.day)}`,
+    time: `${pad(p.hour)}:${pad(p.minute)}`,
+  };
+};
+
+// Dois fusos são equivalentes quando marcam o mesmo horário no instante informado
+export const isSameTimeZoneOffset = (a: string, b: string, instant: Date = new Date()): boolean => {
+  return a === b || getOffsetMinutes(instant, a) === getOffsetMinutes(instant, b);
+};
+
+// Nome curto do fuso para exibição, ex.: "America/Manaus" -> "Manaus"
+export const getTimeZoneLabel = (timeZone: string): string => {
+  return timeZone.split('/').pop()!.replace(/_/g, ' ');
+};
+
+/**
+ * Horário de uma consulta pronto para exibição no fuso de quem vê
+ * @property date - Data no formato DD/MM/AAAA
+ * @property time - Horário no formato HH:mm
+ * @property timeZoneNote - Aviso com o horário da clínica, preenchido apenas quando o fuso de quem vê difere
+ */
+export type DisplayDateTime = {
+  date: string;
+  time: string;
+  timeZoneNote?: string;
+};
+
+/**
+ * Momento marcado no relógio da clínica
+ * @property date - Data no formato AAAA-MM-DD
+ * @property time - Horário no formato HH:mm
+ * @property startsAt - Instante correspondente no formato ISO (opcional)
+ * @property timeZone - Fuso da clínica (opcional, padrão CLINIC_TIME_ZONE)
+ */
+export type ClinicDateTime = {
+  date: string;
+  time: string;
+  startsAt?: string;
+  timeZone?: string;
+};
+
+export const toDisplayDateTime = (
+  value: ClinicDateTime,
+  viewerTimeZone: string = getDeviceTimeZone()
+): DisplayDateTime => {
+  const clinicTimeZone = value.timeZone || CLINIC_TIME_ZONE;
+  const startsAt = value.startsAt || (isValidISODate(value.date)
+    ? zonedTimeToInstant(value.date, value.time, clinicTimeZone)
+    : null);
+
+  // Sem instante conhecido, mostra a data e o horário como foram gravados
+  if (!startsAt || isSameTimeZoneOffset(clinicTimeZone, viewerTimeZone, new Date(startsAt))) {
+    return { date: formatDate(value.date), time: value.time };
+  }
+
+  const local = instantToZonedTime(startsAt, viewerTimeZone);
+  return {
+    date: formatDate(local.date),
+    time: local.time,
+    timeZoneNote:
+      `seu fuso: ${getTimeZoneLabel(viewerTimeZone)}; ` +
+      `na clínica: ${formatDate(value.date)} às ${value.time}`,
+  };
+};
+
+// Texto "DD/MM/AAAA às HH:mm" no fuso de quem vê, seguido do aviso de fuso quando difere
+export const formatClinicDateTime = (
+  value: ClinicDateTime,
+  viewerTimeZone: string = getDeviceTimeZone()
+): string => {
+  const display = toDisplayDateTime(value, viewerTimeZone);
+  const text = `${display.date} às ${display.time}`;
+  return display.timeZoneNote ? `${text} (${display.timeZoneNote})` : text;
+};
+
+// Texto "DD/MM/AAAA às HH:mm" de um instante ISO no fuso de quem vê (ex.: prazos e registros de alteração)
+export const formatInstant = (instant: string, viewerTimeZone: string = getDeviceTimeZone()): string => {
+  const local = instantToZonedTime(instant, viewerTimeZone);
+  return `${formatDate(local.date)} às ${local.time}`;
+};